@@ -1,10 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
-import path from "path";
 import { conversionQueue, JobFile } from "../../../server/services/queue";
+import {
+  ConversionOptionsSchema,
+  FilePasswordsSchema,
+  optionsForFile,
+  pageRangeWithinSchema,
+  sanitizeString,
+} from "../../../server/schema";
+import { SUPPORTED_EXTENSIONS } from "../../../server/formats";
+import { countSlides, isEncryptedPresentation } from "../../../server/services/presentation";
+import { CONVERSION_ERROR_MESSAGES, checkUploadFormat } from "../../../server/services/conversion-errors";
+import { PendingLimitError } from "../../../server/services/scheduler";
+import { clientIdentity, validateApiKey } from "../../../server/trpc-context";
 
 // We no longer need a long maxDuration — we just enqueue and return immediately.
 export const maxDuration = 30;
 
+/** Parses a JSON form field; malformed JSON becomes a value Zod will reject */
+function jsonField(value: FormDataEntryValue | null): unknown {
+  if (typeof value !== "string") return value ?? undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
 export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData();
@@ -17,28 +38,97 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Read all files into memory, validate extensions
+    // Optional form fields — an unknown profile name is a client error, not a silent default
+    const parsedOptions = ConversionOptionsSchema.safeParse({
+      profile: formData.get("profile") ?? undefined,
+      outputFormat: formData.get("outputFormat") ?? undefined,
+      imageWidth: formData.get("imageWidth") ?? undefined,
+      pageRange: formData.get("pageRange") ?? undefined,
+      includeHiddenSlides: formData.get("includeHiddenSlides") ?? undefined,
+      layout: formData.get("layout") ?? undefined,
+      slidesPerPage: formData.get("slidesPerPage") ?? undefined,
+      outputMode: formData.get("outputMode") ?? undefined,
+      tableOfContents: formData.get("tableOfContents") ?? undefined,
+      sanitize: formData.get("sanitize") ?? undefined,
+      // "text" or ["text"] — extra per-deck artifacts
+      artifacts: jsonField(formData.get("artifacts")),
+      // ["Week 2.pptx", "Week 1.pptx"] — merge order
+      order: jsonField(formData.get("order")),
+      // {"Deck.pptx": {"pageRange": "1-5,12", "includeHiddenSlides": true}}
+      fileOptions: jsonField(formData.get("fileOptions")),
+    });
+    if (!parsedOptions.success) {
+      return NextResponse.json(
+        { error: parsedOptions.error.issues[0]?.message ?? "Geçersiz dönüştürme seçenekleri." },
+        { status: 400 }
+      );
+    }
+
+    // {"Deck.pptx": "secret"} — passwords of encrypted decks, kept in memory only
+    const parsedPasswords = FilePasswordsSchema.optional().safeParse(jsonField(formData.get("passwords")));
+    if (!parsedPasswords.success) {
+      return NextResponse.json(
+        { error: parsedPasswords.error.issues[0]?.message ?? "Geçersiz parola alanı." },
+        { status: 400 }
+      );
+    }
+    const passwords = parsedPasswords.data ?? {};
+
+    // Read all files into memory, validate extensions and magic bytes
     const jobFiles: JobFile[] = [];
     for (const file of rawFiles) {
-      const ext = path.extname(file.name).toLowerCase();
-      if (![".ppt", ".pptx"].includes(ext)) continue;
+      const buffer = Buffer.from(await file.arrayBuffer());
+      // Wrong extension or a renamed script — reject the upload rather than drop the file unseen
+      const rejection = checkUploadFormat(file.name, buffer);
+      if (rejection) {
+        return NextResponse.json(
+          {
+            error: `${CONVERSION_ERROR_MESSAGES[rejection.code].tr} (${sanitizeString(file.name)}; desteklenenler: ${SUPPORTED_EXTENSIONS.join(", ")})`,
+            code: rejection.code,
+            file: sanitizeString(file.name),
+          },
+          { status: 415 }
+        );
+      }
+      const encrypted = isEncryptedPresentation(buffer);
+
+      // A range past the last slide would silently yield an empty PDF — reject it now
+      // (the slides of an encrypted deck cannot be counted before it is opened)
+      const { pageRange } = optionsForFile(parsedOptions.data, file.name);
+      const slideCount = pageRange && !encrypted ? countSlides(buffer, file.name) : undefined;
+      if (pageRange && slideCount !== undefined) {
+        const check = pageRangeWithinSchema(slideCount, file.name).safeParse(pageRange);
+        if (!check.success) {
+          return NextResponse.json({ error: check.error.issues[0].message }, { status: 400 });
+        }
+      }
 
-      const arrayBuffer = await file.arrayBuffer();
-      jobFiles.push({ name: file.name, buffer: Buffer.from(arrayBuffer) });
+      jobFiles.push({ name: file.name, buffer, password: passwords[file.name] });
     }
 
-    if (jobFiles.length === 0) {
+    // An order naming a file that was not uploaded is a client mistake
+    const unknown = parsedOptions.data.order?.find((name) => !jobFiles.some((f) => f.name === name));
+    if (unknown !== undefined) {
       return NextResponse.json(
-        { error: "Geçerli .ppt/.pptx dosyası bulunamadı." },
+        { error: `Sıralamadaki dosya yüklenmedi: ${sanitizeString(unknown)}` },
         { status: 400 }
       );
     }
 
+    // Sanitising defaults to on for anonymous uploads and off for API-key callers; `sanitize` overrides
+    const sanitize = parsedOptions.data.sanitize ?? !validateApiKey(req);
+
     // Hand off to the queue — returns a jobId immediately
-    const jobId = conversionQueue.enqueue(jobFiles);
+    const jobId = conversionQueue.enqueue(jobFiles, { ...parsedOptions.data, sanitize }, clientIdentity(req));
 
     return NextResponse.json({ jobId }, { status: 202 });
   } catch (error: any) {
+    if (error instanceof PendingLimitError) {
+      return NextResponse.json(
+        { error: `Bekleyen iş sınırına ulaşıldı (en fazla ${error.limit}). Önceki işleriniz başladıktan sonra tekrar deneyin.` },
+        { status: 429 }
+      );
+    }
     console.error("Conversion enqueue error:", error);
     return NextResponse.json(
       { error: error.message ?? "Beklenmeyen bir hata oluştu." },
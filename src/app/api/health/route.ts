@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import fs from "fs";
 import path from "path";
 import { conversionQueue } from "../../../server/services/queue";
+import { getSofficePoolStats } from "../../../server/services/soffice-pool";
 
 export async function GET() {
   const result = {
@@ -13,6 +14,8 @@ export async function GET() {
     },
     ram_usage: `${(process.memoryUsage().rss / 1024 / 1024).toFixed(1)} MB`,
     queue: conversionQueue.getStats(),
+    // null unless CONVERSION_BACKEND=pool has started warm workers
+    soffice_pool: getSofficePoolStats() ?? null,
   };
 
   try {
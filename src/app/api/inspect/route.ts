@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  InspectionResponseSchema,
+  MAX_FILES_PER_REQUEST,
+  MAX_FILE_SIZE_BYTES,
+  sanitizeString,
+} from "../../../server/schema";
+import { SUPPORTED_EXTENSIONS } from "../../../server/formats";
+import { CONVERSION_ERROR_MESSAGES, checkUploadFormat } from "../../../server/services/conversion-errors";
+import { inspectPresentation } from "../../../server/services/inspect";
+
+export const maxDuration = 30;
+
+/**
+ * POST /api/inspect
+ * Same multipart upload as /api/convert ("file" fields), but nothing is
+ * queued: each deck is read in-process and a report comes back at once.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const rawFiles = formData.getAll("file").filter((f): f is File => f instanceof File);
+
+    if (rawFiles.length === 0) {
+      return NextResponse.json({ error: "Lütfen en az 1 dosya yükleyin." }, { status: 400 });
+    }
+    if (rawFiles.length > MAX_FILES_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `En fazla ${MAX_FILES_PER_REQUEST} dosya incelenebilir.` },
+        { status: 400 }
+      );
+    }
+
+    const reports = [];
+    for (const file of rawFiles) {
+      if (file.size > MAX_FILE_SIZE_BYTES) {
+        return NextResponse.json(
+          { error: `Dosya ${MAX_FILE_SIZE_BYTES / 1024 / 1024} MB sınırını aşıyor: ${file.name}` },
+          { status: 413 }
+        );
+      }
+      const buffer = Buffer.from(await file.arrayBuffer());
+      // Same check as /api/convert — a file left out of the report would go unexplained
+      const rejection = checkUploadFormat(file.name, buffer);
+      if (rejection) {
+        return NextResponse.json(
+          {
+            error: `${CONVERSION_ERROR_MESSAGES[rejection.code].tr} (${sanitizeString(file.name)}; desteklenenler: ${SUPPORTED_EXTENSIONS.join(", ")})`,
+            code: rejection.code,
+            file: sanitizeString(file.name),
+          },
+          { status: 415 }
+        );
+      }
+      reports.push(inspectPresentation(buffer, file.name));
+    }
+
+    return NextResponse.json(InspectionResponseSchema.parse({ files: reports }));
+  } catch (error: any) {
+    console.error("Inspection error:", error);
+    return NextResponse.json(
+      { error: error.message ?? "Beklenmeyen bir hata oluştu." },
+      { status: 500 }
+    );
+  }
+}
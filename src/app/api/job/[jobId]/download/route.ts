@@ -6,8 +6,9 @@ import { conversionQueue } from "@/server/services/queue";
 
 /**
  * GET /api/job/:jobId/download
- * Streams the converted PDF (or a ZIP if multiple files) back to the client
- * then cleans up the temp directory.
+ * Streams the converted PDF (or a ZIP if there are several artifacts, e.g.
+ * multiple PDFs or per-slide images) back to the client, then cleans up the
+ * temp directory.
  */
 export async function GET(
   _req: NextRequest,
@@ -20,7 +21,8 @@ export async function GET(
     return NextResponse.json({ error: "Job not found or expired." }, { status: 404 });
   }
 
-  if (job.status !== "done") {
+  // A partial job serves the files that converted
+  if (job.status !== "done" && job.status !== "partial") {
     return NextResponse.json(
       { error: `Job is not ready yet. Current status: ${job.status}` },
       { status: 409 }
@@ -30,7 +32,7 @@ export async function GET(
   const { outputPaths } = job;
 
   try {
-    if (outputPaths.length === 1) {
+    if (outputPaths.length === 1 && path.extname(outputPaths[0]).toLowerCase() === ".pdf") {
       const pdfBuffer = fs.readFileSync(outputPaths[0]);
       const fileName = path.basename(outputPaths[0]);
 
@@ -48,10 +50,12 @@ export async function GET(
         },
       });
     } else {
-      // Multiple PDFs → ZIP
+      // Multiple artifacts → ZIP. Entry names mirror the layout inside the
+      // job's temp dir, so slide images land in "deck/slide-001.png".
       const zip = new AdmZip();
-      for (const pdfPath of outputPaths) {
-        zip.addLocalFile(pdfPath);
+      for (const artifactPath of outputPaths) {
+        const folder = path.dirname(path.relative(job.tempDir, artifactPath));
+        zip.addLocalFile(artifactPath, folder === "." ? "" : folder);
       }
       const zipBuffer = zip.toBuffer();
       const zipName = `Sunum_Ciktilari_${jobId.substring(0, 6)}.zip`;
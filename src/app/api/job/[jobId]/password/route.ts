@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ProvidePasswordSchema } from "@/server/schema";
+import { conversionQueue, passwordsMissing } from "@/server/services/queue";
+
+const OUTCOME_ERRORS = {
+  not_found: { status: 404, error: "Job not found or expired." },
+  not_waiting: { status: 409, error: "The job is not waiting for a password." },
+  unknown_file: { status: 400, error: "The file is not a password-protected input of this job." },
+} as const;
+
+/**
+ * POST /api/job/:jobId/password  — body: {"fileName": "Deck.pptx", "password": "…"}
+ * Supplies the password of an encrypted deck while the job is in the
+ * "password_required" state. Responds with the files still missing one;
+ * the job is queued when that list is empty. The password is never logged.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON." }, { status: 400 });
+  }
+
+  const parsed = ProvidePasswordSchema.safeParse({ ...(body as object), jobId });
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid request." },
+      { status: 400 }
+    );
+  }
+
+  const { fileName, password } = parsed.data;
+  const outcome = conversionQueue.providePassword(jobId, fileName, password);
+  if (outcome !== "accepted") {
+    const { status, error } = OUTCOME_ERRORS[outcome];
+    return NextResponse.json({ error }, { status });
+  }
+
+  const job = conversionQueue.getJob(jobId)!;
+  return NextResponse.json({ status: job.status, files: passwordsMissing(job) });
+}
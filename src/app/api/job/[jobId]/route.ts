@@ -1,5 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { conversionQueue } from "@/server/services/queue";
+import { JobStatusResponseSchema } from "@/server/schema";
+import {
+  commonErrorCode,
+  conversionQueue,
+  convertedFileCount,
+  currentFile,
+  fileResults,
+  passwordsMissing,
+  retryStatus,
+  thumbnailList,
+  timedOutFiles,
+} from "@/server/services/queue";
 
 /**
  * GET /api/job/:jobId
@@ -17,23 +28,92 @@ export async function GET(
   }
 
   switch (job.status) {
+    case "password_required":
+      return NextResponse.json(
+        JobStatusResponseSchema.parse({ status: "password_required", files: passwordsMissing(job) })
+      );
+
     case "pending":
-      return NextResponse.json({ status: "pending", position: job.position });
+      return NextResponse.json(
+        JobStatusResponseSchema.parse({
+          status: "pending",
+          position: job.position ?? 1,
+          files: fileResults(job),
+          ...conversionQueue.estimate(jobId),
+        })
+      );
 
     case "running":
-      return NextResponse.json({ status: "running" });
+      return NextResponse.json(
+        JobStatusResponseSchema.parse({
+          status: "running",
+          currentFile: currentFile(job),
+          files: fileResults(job),
+          ...conversionQueue.estimate(jobId),
+          ...retryStatus(job),
+        })
+      );
 
+    // Per-file errors carry internal detail — sanitised by the schema
     case "done":
-      return NextResponse.json({
-        status: "done",
-        fileCount: job.outputPaths.length,
-        downloadUrl: `/api/job/${jobId}/download`,
-      });
+    case "partial":
+      return NextResponse.json(
+        JobStatusResponseSchema.parse({
+          status: job.status,
+          fileCount: convertedFileCount(job),
+          downloadUrl: `/api/job/${jobId}/download`,
+          timedOutFiles: timedOutFiles(job),
+          thumbnails: thumbnailList(job),
+          files: fileResults(job),
+        })
+      );
 
     case "error":
-      return NextResponse.json({ status: "error", message: job.error });
+      return NextResponse.json(
+        JobStatusResponseSchema.parse({
+          status: "error",
+          message: job.error ?? "Conversion failed.",
+          code: commonErrorCode(job),
+          files: fileResults(job),
+        })
+      );
+
+    case "timeout":
+      return NextResponse.json(
+        JobStatusResponseSchema.parse({
+          status: "timeout",
+          message: job.error ?? "Conversion timed out.",
+          timedOutFiles: timedOutFiles(job) ?? [],
+          files: fileResults(job),
+        })
+      );
+
+    case "cancelled":
+      return NextResponse.json(JobStatusResponseSchema.parse({ status: "cancelled", files: fileResults(job) }));
 
     default:
       return NextResponse.json({ status: job.status });
   }
 }
+
+/**
+ * DELETE /api/job/:jobId
+ * Cancels a waiting or running job — a running conversion is killed and
+ * the remaining files are skipped. 409 once the job has finished.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const outcome = conversionQueue.cancel(jobId);
+
+  if (outcome === "not_found") {
+    return NextResponse.json({ error: "Job not found or expired." }, { status: 404 });
+  }
+  if (outcome === "finished") {
+    const status = conversionQueue.getJob(jobId)?.status;
+    return NextResponse.json({ error: `Job has already finished. Current status: ${status}` }, { status: 409 });
+  }
+  return NextResponse.json({ status: "cancelled" });
+}
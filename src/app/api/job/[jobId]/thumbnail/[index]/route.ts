@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs";
+import { conversionQueue } from "@/server/services/queue";
+
+/**
+ * GET /api/job/:jobId/thumbnail/:index
+ * Serves the first-slide PNG preview of the index-th file of a job (the
+ * order of `thumbnails` in the job status). Previews live in the job's temp
+ * dir, so they disappear with it after download or TTL.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ jobId: string; index: string }> }
+) {
+  const { jobId, index } = await params;
+  const job = conversionQueue.getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found or expired." }, { status: 404 });
+  }
+
+  // Digits only — the index addresses job.files, never a path
+  const file = /^\d+$/.test(index) ? job.files[parseInt(index, 10)] : undefined;
+  if (!file?.thumbnailPath || !fs.existsSync(file.thumbnailPath)) {
+    return NextResponse.json({ error: "Thumbnail not found." }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(fs.readFileSync(file.thumbnailPath)), {
+    status: 200,
+    headers: {
+      "Content-Type": "image/png",
+      // Previews never change once rendered
+      "Cache-Control": "private, max-age=600",
+    },
+  });
+}
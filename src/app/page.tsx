@@ -1,12 +1,20 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from "react";
+import { ACCEPT_ATTRIBUTE, SUPPORTED_EXTENSIONS, isSupportedPresentation } from "@/server/formats";
+import {
+  DEFAULT_SLIDES_PER_PAGE,
+  SLIDES_PER_PAGE,
+  type Layout,
+  type SlidesPerPage,
+} from "@/server/schema";
 
 type AppStatus =
   | "idle"
   | "uploading"
   | "queued"
   | "converting"
+  | "password"
   | "done"
   | "error";
 
@@ -14,12 +22,74 @@ interface QueueStats {
   running: number;
   pending: number;
   maxConcurrent: number;
+  /** Seconds a new upload would wait for a free slot */
+  estimatedWaitSeconds: number;
+  averageSeconds?: number;
+  throughputPerMinute: number;
 }
 
+/** "~40 s", "~3 min" */
+function formatDuration(seconds: number): string {
+  return seconds < 90 ? `~${Math.max(1, Math.round(seconds))} s` : `~${Math.round(seconds / 60)} min`;
+}
+
+/** Per-file state from the status API; `error` is set for failed files */
+interface FileOutcome {
+  name: string;
+  status: "pending" | "running" | "done" | "failed";
+  outputBytes?: number;
+  warnings: string[];
+  fontSubstitutions?: Array<{ font: string; replacement?: string; source: "table" | "fontconfig" }>;
+  stripped?: Array<{ path: string; kind: "vba" | "activex" | "ole_executable" }>;
+  unsanitized?: "binary" | "encrypted";
+  media?: { items: number; sizeBytes: number; skipped: number };
+  error?: { code: string; message: { tr: string; en: string } };
+}
+
+/** "Deck.pptx: reason" lines for the files that failed */
+function failureSummary(files: FileOutcome[] = []): string {
+  return files
+    .filter((f) => f.error)
+    .map((f) => `${f.name}: ${f.error!.message.en}`)
+    .join(" ");
+}
+
+/** Upload fills the bar to 40%; each finished file then takes its share of the rest */
+function conversionProgress(files: FileOutcome[]): number {
+  if (files.length === 0) return 40;
+  const finished = files.filter((f) => f.status === "done" || f.status === "failed").length;
+  const running = files.some((f) => f.status === "running") ? 0.5 : 0;
+  return 40 + (60 * (finished + running)) / files.length;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** What a finished job offers: previews first, download on demand */
+interface JobResult {
+  downloadUrl: string;
+  fileName: string;
+  thumbnails: Array<{ name: string; url: string }>;
+}
+
+const STRIPPED_LABELS: Record<"vba" | "activex" | "ole_executable", string> = {
+  vba: "macros",
+  activex: "ActiveX controls",
+  ole_executable: "embedded programs",
+};
+
 const POLL_INTERVAL_MS = 2000;
 const QUEUE_POLL_INTERVAL_MS = 3000;
 const MAX_CONCURRENT_FILES = 20;
 
+const LAYOUT_LABELS: Record<Layout, string> = {
+  slides: "Slides",
+  notes: "Slides with speaker notes",
+  handout: "Handout (N slides per page)",
+};
+
 function useQueueStatus(): QueueStats | null {
   const [stats, setStats] = useState<QueueStats | null>(null);
 
@@ -63,6 +133,8 @@ function QueueStatusBanner({ stats }: { stats: QueueStats | null }) {
         <div className="flex items-center gap-3 border-l border-zinc-800 pl-4">
           <span>Active: {stats.running}/{stats.maxConcurrent}</span>
           {stats.pending > 0 && <span>Queued: {stats.pending}</span>}
+          {stats.estimatedWaitSeconds > 0 && <span>Wait: {formatDuration(stats.estimatedWaitSeconds)}</span>}
+          {stats.averageSeconds !== undefined && <span>Avg: {formatDuration(stats.averageSeconds)}/file</span>}
         </div>
       )}
     </div>
@@ -76,22 +148,38 @@ export default function Home() {
   const [errorMessage, setErrorMessage] = useState("");
   const [progress, setProgress] = useState(0); 
   const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  /** Job being polled — what the Cancel button cancels */
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  /** "retrying (2/3)" while the server retries a transient LibreOffice failure */
+  const [retryMessage, setRetryMessage] = useState<string | null>(null);
+  /** Per-file state of the current job, refreshed on every poll */
+  const [jobFiles, setJobFiles] = useState<FileOutcome[]>([]);
+  const [currentFile, setCurrentFile] = useState<{ index: number; total: number; name: string } | null>(null);
+  /** Server's estimate: wait while queued, time left while converting */
+  const [estimatedSeconds, setEstimatedSeconds] = useState<number | null>(null);
+  /** Encrypted decks the server is waiting on, with what the user typed so far */
+  const [lockedJob, setLockedJob] = useState<{ jobId: string; files: string[] } | null>(null);
+  const [passwords, setPasswords] = useState<Record<string, string>>({});
+  const [isSendingPasswords, setIsSendingPasswords] = useState(false);
+  const [layout, setLayout] = useState<Layout>("slides");
+  const [slidesPerPage, setSlidesPerPage] = useState<SlidesPerPage>(DEFAULT_SLIDES_PER_PAGE);
+  const [merge, setMerge] = useState(false);
+  const [tableOfContents, setTableOfContents] = useState(false);
+  const [includeText, setIncludeText] = useState(false);
+  const [includeMedia, setIncludeMedia] = useState(false);
+  const [result, setResult] = useState<JobResult | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const queueStats = useQueueStatus();
 
   useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    if (status === "converting") {
-      interval = setInterval(() => {
-        setProgress((prev) => (prev >= 95 ? 95 : prev + Math.random() * 2));
-      }, 500);
-    } else if (status === "done") {
+    if (status === "done") {
       setProgress(100);
     } else if (status === "idle" || status === "error") {
       setProgress(0);
     }
-    return () => clearInterval(interval);
   }, [status]);
 
   useEffect(() => {
@@ -132,23 +220,57 @@ export default function Home() {
           }
 
           const data = await res.json();
+          if (data.files) setJobFiles(data.files);
 
-          if (data.status === "pending") {
+          if (data.status === "password_required") {
+            setStatus("password");
+            setLockedJob({ jobId, files: data.files ?? [] });
+          } else if (data.status === "pending") {
+            setLockedJob(null);
             setStatus("queued");
             setQueuePosition(data.position ?? null);
+            setEstimatedSeconds(data.estimatedWaitSeconds ?? null);
           } else if (data.status === "running") {
             setStatus("converting");
             setQueuePosition(null);
-            setProgress(50);
-          } else if (data.status === "done") {
+            setRetryMessage(data.message ?? null);
+            setCurrentFile(data.currentFile ?? null);
+            setEstimatedSeconds(data.estimatedRemainingSeconds ?? null);
+            setProgress(conversionProgress(data.files ?? []));
+          } else if (data.status === "done" || data.status === "partial") {
+            // "partial": the failed files say why in the list; the rest is downloadable
             stopPolling();
             setQueuePosition(null);
-            await triggerDownload(data.downloadUrl, defaultFileName);
+            setRetryMessage(null);
+            setCurrentFile(null);
+            // Let the user check the previews before downloading
+            setResult({
+              downloadUrl: data.downloadUrl,
+              fileName: defaultFileName,
+              thumbnails: data.thumbnails ?? [],
+            });
             setStatus("done");
           } else if (data.status === "error") {
             stopPolling();
+            setRetryMessage(null);
+            setStatus("error");
+            setErrorMessage(failureSummary(data.files) || data.message || "Conversion failed.");
+          } else if (data.status === "timeout") {
+            stopPolling();
+            setRetryMessage(null);
             setStatus("error");
-            setErrorMessage(data.message || "Conversion failed.");
+            const names = (data.timedOutFiles ?? []).join(", ");
+            setErrorMessage(
+              `Conversion took too long and was stopped${names ? ` (${names})` : ""}. ` +
+                "The file may be damaged or unusually complex — try re-saving it and upload again."
+            );
+          } else if (data.status === "cancelled") {
+            // Cancelled elsewhere (another tab, the API)
+            stopPolling();
+            setRetryMessage(null);
+            setLockedJob(null);
+            setStatus("error");
+            setErrorMessage("The conversion was cancelled.");
           }
         } catch {
           stopPolling();
@@ -160,19 +282,81 @@ export default function Home() {
     []
   );
 
+  const handleSendPasswords = async () => {
+    if (!lockedJob) return;
+    setIsSendingPasswords(true);
+    try {
+      for (const fileName of lockedJob.files) {
+        const res = await fetch(`/api/job/${lockedJob.jobId}/password`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ fileName, password: passwords[fileName] ?? "" }),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error ?? "The password could not be submitted.");
+        }
+      }
+      // Polling picks the job up again once it is queued
+      setPasswords({});
+      setLockedJob(null);
+      setStatus("queued");
+    } catch (err) {
+      stopPolling();
+      setStatus("error");
+      setErrorMessage((err as Error).message);
+    } finally {
+      setIsSendingPasswords(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!jobId) return;
+    setIsCancelling(true);
+    try {
+      const res = await fetch(`/api/job/${jobId}`, { method: "DELETE" });
+      // 409: it finished meanwhile — polling picks up the result
+      if (!res.ok) return;
+      stopPolling();
+      setJobId(null);
+      setJobFiles([]);
+      setCurrentFile(null);
+      setQueuePosition(null);
+      setRetryMessage(null);
+      setLockedJob(null);
+      setPasswords({});
+      setStatus("idle");
+    } catch {
+      // Network trouble — polling reports a lost connection
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!result) return;
+    setIsDownloading(true);
+    try {
+      await triggerDownload(result.downloadUrl, result.fileName);
+      // The server deletes the job after serving it — the link is single-use
+      setResult(null);
+    } catch {
+      setStatus("error");
+      setErrorMessage("Download failed. Please convert again.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   const handleFilesSelected = (selectedFiles: File[]) => {
-    const validFiles = selectedFiles.filter(
-      (f) =>
-        f.name.toLowerCase().endsWith(".ppt") ||
-        f.name.toLowerCase().endsWith(".pptx")
-    );
+    const validFiles = selectedFiles.filter((f) => isSupportedPresentation(f.name));
 
     let hasError = false;
     let newErrorMsg = "";
 
     if (validFiles.length !== selectedFiles.length) {
       hasError = true;
-      newErrorMsg = "Only .ppt and .pptx files are supported. Invalid files were ignored.";
+      newErrorMsg = `Only ${SUPPORTED_EXTENSIONS.join(", ")} files are supported. Invalid files were ignored.`;
     }
 
     setFiles((prev) => {
@@ -220,14 +404,33 @@ export default function Home() {
     setErrorMessage("");
     setProgress(0);
     setQueuePosition(null);
+    setJobId(null);
+    setJobFiles([]);
+    setCurrentFile(null);
+    setEstimatedSeconds(null);
+    setResult(null);
+    setLockedJob(null);
+    setPasswords({});
 
     const formData = new FormData();
     files.forEach((f) => formData.append("file", f));
+    formData.append("layout", layout);
+    if (layout === "handout") formData.append("slidesPerPage", String(slidesPerPage));
+    const artifacts = [includeText && "text", includeMedia && "media"].filter(Boolean);
+    if (artifacts.length > 0) formData.append("artifacts", artifacts.join(","));
+    const merging = merge && files.length > 1;
+    if (merging) {
+      formData.append("outputMode", "merge");
+      formData.append("tableOfContents", String(tableOfContents));
+    }
 
+    // Artifacts always come as a ZIP next to the PDF(s)
     const defaultFileName =
-      files.length === 1
-        ? `${files[0].name.replace(/\.[^/.]+$/, "")}.pdf`
-        : "Converted_Presentations.zip";
+      artifacts.length > 0 || (files.length > 1 && !merging)
+        ? "Converted_Presentations.zip"
+        : merging
+          ? "Combined_Presentations.pdf"
+          : `${files[0].name.replace(/\.[^/.]+$/, "")}.pdf`;
 
     const xhr = new XMLHttpRequest();
     xhr.open("POST", "/api/convert");
@@ -243,6 +446,7 @@ export default function Home() {
       if (xhr.status === 202 && xhr.response?.jobId) {
         setStatus("queued");
         setProgress(40);
+        setJobId(xhr.response.jobId);
         pollJobStatus(xhr.response.jobId, defaultFileName);
       } else {
         const msg = xhr.response?.error || "Upload failed.";
@@ -259,8 +463,10 @@ export default function Home() {
     xhr.send(formData);
   };
 
+  const failedCount = jobFiles.filter((f) => f.status === "failed").length;
+
   const isProcessing =
-    status === "uploading" || status === "queued" || status === "converting";
+    status === "uploading" || status === "queued" || status === "converting" || status === "password";
 
   return (
     <main className="h-screen w-screen bg-[#0a0a0a] text-zinc-100 font-sans flex flex-col items-center justify-center p-4 selection:bg-zinc-800">
@@ -302,12 +508,12 @@ export default function Home() {
               </div>
               <div>
                 <p className="text-sm font-medium text-zinc-300">Drag files here or browse</p>
-                <p className="text-xs text-zinc-600 mt-1">Accepts .ppt, .pptx (Max {MAX_CONCURRENT_FILES} files)</p>
+                <p className="text-xs text-zinc-600 mt-1">Accepts {SUPPORTED_EXTENSIONS.join(", ")} (Max {MAX_CONCURRENT_FILES} files)</p>
               </div>
               <input
                 type="file"
                 multiple
-                accept=".ppt,.pptx"
+                accept={ACCEPT_ATTRIBUTE}
                 className="hidden"
                 ref={fileInputRef}
                 onChange={(e) => {
@@ -341,23 +547,74 @@ export default function Home() {
                     </button>
                   )}
                 </li>
-                {files.map((file, i) => (
-                  <li key={i} className="flex justify-between items-center py-2 px-2 rounded-md hover:bg-zinc-800/30 transition-colors group">
-                    <div className="flex items-center gap-3 overflow-hidden">
-                      <svg className="w-4 h-4 text-zinc-500 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                      </svg>
-                      <span className="text-sm text-zinc-300 truncate">{file.name}</span>
-                    </div>
-                    {!isProcessing && (
-                      <button onClick={() => removeFile(i)} className="text-zinc-600 hover:text-zinc-300 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
-                    )}
-                  </li>
-                ))}
+                {files.map((file, i) => {
+                  const thumbnail = result?.thumbnails.find((t) => t.name === file.name);
+                  const fileResult = jobFiles.find((f) => f.name === file.name);
+                  const warnings = fileResult?.warnings ?? [];
+                  const fonts = fileResult?.fontSubstitutions ?? [];
+                  const strippedKinds = Array.from(new Set((fileResult?.stripped ?? []).map((p) => p.kind)));
+                  return (
+                    <li key={i} className="flex justify-between items-center py-2 px-2 rounded-md hover:bg-zinc-800/30 transition-colors group">
+                      <div className="flex items-center gap-3 overflow-hidden">
+                        {thumbnail ? (
+                          <img
+                            src={thumbnail.url}
+                            alt={`First slide of ${file.name}`}
+                            className="w-20 shrink-0 rounded border border-zinc-800"
+                          />
+                        ) : (
+                          <svg className="w-4 h-4 text-zinc-500 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                          </svg>
+                        )}
+                        <div className="flex flex-col overflow-hidden">
+                          <span className="text-sm text-zinc-300 truncate">{file.name}</span>
+                          {fileResult?.status === "running" && (
+                            <span className="text-xs text-zinc-400">Converting...</span>
+                          )}
+                          {fileResult?.status === "pending" && <span className="text-xs text-zinc-600">Waiting</span>}
+                          {fileResult?.status === "done" && fileResult.outputBytes !== undefined && (
+                            <span className="text-xs text-zinc-500">Converted · {formatBytes(fileResult.outputBytes)}</span>
+                          )}
+                          {fileResult?.error && (
+                            <span className="text-xs text-red-400">{fileResult.error.message.en}</span>
+                          )}
+                          {warnings.map((w, j) => (
+                            <span key={j} className="text-xs text-amber-500">{w}</span>
+                          ))}
+                          {fonts.length > 0 && (
+                            <span className="text-xs text-zinc-500 truncate">
+                              Fonts replaced: {fonts.map((f) => `${f.font} → ${f.replacement ?? "default"}`).join(", ")}
+                            </span>
+                          )}
+                          {fileResult?.media && fileResult.media.items + fileResult.media.skipped > 0 && (
+                            <span className="text-xs text-zinc-500 truncate">
+                              Media: {fileResult.media.items} file(s)
+                              {fileResult.media.skipped > 0 && `, ${fileResult.media.skipped} skipped (size limit)`}
+                            </span>
+                          )}
+                          {strippedKinds.length > 0 && (
+                            <span className="text-xs text-zinc-500 truncate">
+                              Removed before conversion: {strippedKinds.map((k) => STRIPPED_LABELS[k]).join(", ")}
+                            </span>
+                          )}
+                          {fileResult?.unsanitized && (
+                            <span className="text-xs text-zinc-500 truncate">
+                              Not cleaned: {fileResult.unsanitized === "binary" ? "legacy .ppt/.pps format" : "encrypted deck"}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      {!isProcessing && (
+                        <button onClick={() => removeFile(i)} className="text-zinc-600 hover:text-zinc-300 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
               </ul>
             )}
           </div>
@@ -369,9 +626,24 @@ export default function Home() {
                 <div className="flex justify-between text-xs font-medium text-zinc-400 mb-2">
                   <span>
                     {status === "uploading" && "Uploading..."}
-                    {status === "queued" && `Queued${queuePosition ? ` (#${queuePosition})` : ""}...`}
-                    {status === "converting" && "Converting..."}
-                    {status === "done" && <span className="text-zinc-100">Conversion completed</span>}
+                    {status === "queued" &&
+                      `Queued${queuePosition ? ` (#${queuePosition})` : ""}` +
+                        (estimatedSeconds ? ` — starts in ${formatDuration(estimatedSeconds)}` : "...")}
+                    {status === "password" && "Waiting for passwords..."}
+                    {status === "converting" &&
+                      `Converting${currentFile ? ` file ${currentFile.index} of ${currentFile.total}` : ""}` +
+                        (retryMessage
+                          ? ` — ${retryMessage}...`
+                          : estimatedSeconds
+                            ? ` — ${formatDuration(estimatedSeconds)} left`
+                            : "...")}
+                    {status === "done" && (
+                      <span className="text-zinc-100">
+                        {failedCount > 0
+                          ? `Completed — ${failedCount} of ${jobFiles.length} files failed`
+                          : "Conversion completed"}
+                      </span>
+                    )}
                   </span>
                   <span>{Math.round(progress)}%</span>
                 </div>
@@ -387,6 +659,135 @@ export default function Home() {
               </div>
             )}
 
+            {status === "password" && lockedJob && (
+              <div className="mb-4 p-3 rounded-md bg-zinc-900 border border-zinc-800 text-xs text-zinc-400 flex flex-col gap-2">
+                <span>These presentations are password-protected:</span>
+                {lockedJob.files.map((name) => (
+                  <label key={name} className="flex items-center gap-3">
+                    <span className="flex-1 truncate text-zinc-200">{name}</span>
+                    <input
+                      type="password"
+                      autoComplete="off"
+                      value={passwords[name] ?? ""}
+                      onChange={(e) => setPasswords((prev) => ({ ...prev, [name]: e.target.value }))}
+                      disabled={isSendingPasswords}
+                      className="flex-1 px-2 py-1.5 rounded-md bg-zinc-950 border border-zinc-800 text-zinc-200"
+                    />
+                  </label>
+                ))}
+                <button
+                  onClick={handleSendPasswords}
+                  disabled={isSendingPasswords || lockedJob.files.some((name) => !passwords[name])}
+                  className="self-end py-1.5 px-3 rounded-md font-medium bg-zinc-100 text-zinc-900 hover:bg-white
+                           disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed"
+                >
+                  {isSendingPasswords ? "Sending..." : "Unlock"}
+                </button>
+              </div>
+            )}
+
+            <div className="mb-4 flex items-center gap-3 text-xs text-zinc-400">
+              <label htmlFor="layout" className="font-medium">Layout</label>
+              <select
+                id="layout"
+                value={layout}
+                onChange={(e) => setLayout(e.target.value as Layout)}
+                disabled={isProcessing}
+                className="flex-1 px-2 py-1.5 rounded-md bg-zinc-900 border border-zinc-800 text-zinc-200 disabled:opacity-50"
+              >
+                {(Object.keys(LAYOUT_LABELS) as Layout[]).map((l) => (
+                  <option key={l} value={l}>{LAYOUT_LABELS[l]}</option>
+                ))}
+              </select>
+              {layout === "handout" && (
+                <select
+                  aria-label="Slides per page"
+                  value={slidesPerPage}
+                  onChange={(e) => setSlidesPerPage(Number(e.target.value) as SlidesPerPage)}
+                  disabled={isProcessing}
+                  className="px-2 py-1.5 rounded-md bg-zinc-900 border border-zinc-800 text-zinc-200 disabled:opacity-50"
+                >
+                  {SLIDES_PER_PAGE.map((n) => (
+                    <option key={n} value={n}>{n} per page</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div className="mb-4 flex items-center gap-4 text-xs text-zinc-400">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={includeText}
+                  onChange={(e) => setIncludeText(e.target.checked)}
+                  disabled={isProcessing}
+                  className="accent-zinc-100"
+                />
+                Include slide text and notes (JSON + Markdown)
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={includeMedia}
+                  onChange={(e) => setIncludeMedia(e.target.checked)}
+                  disabled={isProcessing}
+                  className="accent-zinc-100"
+                />
+                Include embedded media
+              </label>
+            </div>
+
+            {files.length > 1 && (
+              <div className="mb-4 flex items-center gap-4 text-xs text-zinc-400">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={merge}
+                    onChange={(e) => setMerge(e.target.checked)}
+                    disabled={isProcessing}
+                    className="accent-zinc-100"
+                  />
+                  Merge into one PDF (in list order)
+                </label>
+                {merge && (
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={tableOfContents}
+                      onChange={(e) => setTableOfContents(e.target.checked)}
+                      disabled={isProcessing}
+                      className="accent-zinc-100"
+                    />
+                    Add contents page
+                  </label>
+                )}
+              </div>
+            )}
+
+            {status === "done" && result && (
+              <button
+                onClick={handleDownload}
+                disabled={isDownloading}
+                className="w-full mb-2 py-2.5 px-4 rounded-md text-sm font-medium transition-colors
+                         bg-zinc-100 text-zinc-900 hover:bg-white
+                         disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed"
+              >
+                {isDownloading ? "Downloading..." : `Download ${result.fileName}`}
+              </button>
+            )}
+
+            {jobId && (status === "queued" || status === "converting" || status === "password") && (
+              <button
+                onClick={handleCancel}
+                disabled={isCancelling}
+                className="w-full mb-2 py-2.5 px-4 rounded-md text-sm font-medium transition-colors
+                         border border-zinc-800 text-zinc-300 hover:bg-zinc-900
+                         disabled:text-zinc-600 disabled:cursor-not-allowed"
+              >
+                {isCancelling ? "Cancelling..." : "Cancel"}
+              </button>
+            )}
+
             <button
               onClick={handleUpload}
               disabled={isProcessing || files.length === 0}
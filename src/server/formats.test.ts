@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  PRESENTATION_FORMATS,
+  detectSignature,
+  extensionOf,
+  getFormat,
+  matchesSignature,
+} from "./formats";
+
+const ZIP_HEADER = Uint8Array.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+const OLE_HEADER = Uint8Array.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0x00]);
+const SHELL_SCRIPT = new TextEncoder().encode("#!/bin/sh\nrm -rf /\n");
+
+describe("format registry", () => {
+  it("has one entry per extension", () => {
+    const exts = PRESENTATION_FORMATS.map((f) => f.extension);
+    expect(new Set(exts).size).toBe(exts.length);
+  });
+
+  it("gives every format an import filter and at least one signature", () => {
+    PRESENTATION_FORMATS.forEach((f) => {
+      expect(f.importFilter.length).toBeGreaterThan(0);
+      expect(f.signatures.length).toBeGreaterThan(0);
+    });
+  });
+
+  it("looks formats up case-insensitively", () => {
+    expect(getFormat("DECK.PPSX")?.extension).toBe(".ppsx");
+    expect(getFormat("archive.tar.odp")?.extension).toBe(".odp");
+    expect(getFormat("noext")).toBeUndefined();
+    expect(extensionOf("noext")).toBe("");
+  });
+});
+
+describe("magic-byte validation", () => {
+  it("detects ZIP and OLE containers", () => {
+    expect(detectSignature(ZIP_HEADER)).toBe("zip");
+    expect(detectSignature(OLE_HEADER)).toBe("ole");
+    expect(detectSignature(SHELL_SCRIPT)).toBeUndefined();
+    expect(detectSignature(new Uint8Array(2))).toBeUndefined();
+  });
+
+  it("accepts content that matches the extension", () => {
+    expect(matchesSignature("deck.pptx", ZIP_HEADER)).toBe(true);
+    expect(matchesSignature("deck.odp", ZIP_HEADER)).toBe(true);
+    expect(matchesSignature("old.ppt", OLE_HEADER)).toBe(true);
+    expect(matchesSignature("show.pps", OLE_HEADER)).toBe(true);
+  });
+
+  it("rejects renamed or mismatched files", () => {
+    expect(matchesSignature("evil.pptx", SHELL_SCRIPT)).toBe(false);
+    expect(matchesSignature("old.ppt", ZIP_HEADER)).toBe(false);
+    expect(matchesSignature("deck.exe", ZIP_HEADER)).toBe(false);
+  });
+});
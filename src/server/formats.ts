@@ -0,0 +1,160 @@
+/**
+ * formats.ts — Single registry of accepted presentation input formats
+ *
+ * Every layer that decides "is this a presentation we convert?" reads from
+ * here: the upload route, the Zod schemas, the queue and the folder
+ * converter. Adding a format means adding one entry below — nothing else.
+ *
+ * No Node-only imports: this module is also bundled into the client page.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Container families, identified by their leading magic bytes */
+export type FormatSignature = "zip" | "ole";
+
+export interface PresentationFormat {
+  /** Lower-case extension including the dot (e.g. ".pptx") */
+  extension: string;
+  /** Human-readable name for error messages and the UI */
+  label: string;
+  /** MIME types browsers are known to send for this extension */
+  mimeTypes: readonly string[];
+  /** Containers the file's first bytes may match */
+  signatures: readonly FormatSignature[];
+  /** LibreOffice import filter name, passed as `--infilter` */
+  importFilter: string;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Sent by several browsers for any file they do not recognise */
+const GENERIC_MIME = "application/octet-stream";
+
+export const PRESENTATION_FORMATS: readonly PresentationFormat[] = [
+  {
+    extension: ".ppt",
+    label: "PowerPoint 97–2003",
+    mimeTypes: ["application/vnd.ms-powerpoint", GENERIC_MIME],
+    signatures: ["ole"],
+    importFilter: "MS PowerPoint 97",
+  },
+  {
+    extension: ".pps",
+    label: "PowerPoint 97–2003 Slide Show",
+    mimeTypes: ["application/vnd.ms-powerpoint", GENERIC_MIME],
+    signatures: ["ole"],
+    importFilter: "MS PowerPoint 97 AutoPlay",
+  },
+  {
+    extension: ".pptx",
+    label: "PowerPoint",
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+      GENERIC_MIME,
+    ],
+    signatures: ["zip"],
+    importFilter: "Impress MS PowerPoint 2007 XML",
+  },
+  {
+    extension: ".ppsx",
+    label: "PowerPoint Slide Show",
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.presentationml.slideshow",
+      GENERIC_MIME,
+    ],
+    signatures: ["zip"],
+    importFilter: "Impress MS PowerPoint 2007 XML AutoPlay",
+  },
+  {
+    extension: ".potx",
+    label: "PowerPoint Template",
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.presentationml.template",
+      GENERIC_MIME,
+    ],
+    signatures: ["zip"],
+    importFilter: "Impress MS PowerPoint 2007 XML Template",
+  },
+  {
+    extension: ".pptm",
+    label: "PowerPoint Macro-Enabled",
+    mimeTypes: ["application/vnd.ms-powerpoint.presentation.macroenabled.12", GENERIC_MIME],
+    signatures: ["zip"],
+    importFilter: "Impress MS PowerPoint 2007 XML VBA",
+  },
+  {
+    extension: ".odp",
+    label: "OpenDocument Presentation",
+    mimeTypes: ["application/vnd.oasis.opendocument.presentation", GENERIC_MIME],
+    signatures: ["zip"],
+    importFilter: "impress8",
+  },
+  {
+    extension: ".key",
+    label: "Apple Keynote",
+    mimeTypes: ["application/vnd.apple.keynote", "application/x-iwork-keynote-sffkey", GENERIC_MIME],
+    signatures: ["zip"],
+    importFilter: "Apple Keynote",
+  },
+];
+
+/** Every accepted extension, e.g. [".ppt", ".pps", ".pptx", …] */
+export const SUPPORTED_EXTENSIONS: readonly string[] = PRESENTATION_FORMATS.map((f) => f.extension);
+
+/** Every MIME type any registered format may arrive with (deduplicated) */
+export const SUPPORTED_MIME_TYPES: readonly string[] = Array.from(
+  new Set(PRESENTATION_FORMATS.flatMap((f) => f.mimeTypes))
+);
+
+/** Value for an `<input type="file" accept=…>` attribute */
+export const ACCEPT_ATTRIBUTE = SUPPORTED_EXTENSIONS.join(",");
+
+const MAGIC_BYTES: Record<FormatSignature, readonly number[]> = {
+  zip: [0x50, 0x4b, 0x03, 0x04], // "PK\x03\x04"
+  ole: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], // OLE2 compound file
+};
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+
+/** Extension of a file name, lower-cased, including the dot ("" if none) */
+export function extensionOf(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot === -1 ? "" : fileName.slice(dot).toLowerCase();
+}
+
+/** Returns the registry entry for a file name, or undefined if unsupported */
+export function getFormat(fileName: string): PresentationFormat | undefined {
+  const ext = extensionOf(fileName);
+  return PRESENTATION_FORMATS.find((f) => f.extension === ext);
+}
+
+export function isSupportedPresentation(fileName: string): boolean {
+  return getFormat(fileName) !== undefined;
+}
+
+/** Identifies the container family from the first bytes of a file */
+export function detectSignature(bytes: Uint8Array): FormatSignature | undefined {
+  for (const [sig, magic] of Object.entries(MAGIC_BYTES) as [FormatSignature, readonly number[]][]) {
+    if (bytes.length >= magic.length && magic.every((b, i) => bytes[i] === b)) {
+      return sig;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * True when the file content matches what its extension claims.
+ * Rejects renamed executables/scripts before they reach LibreOffice.
+ */
+export function matchesSignature(fileName: string, bytes: Uint8Array): boolean {
+  const format = getFormat(fileName);
+  const sig = detectSignature(bytes);
+  return !!format && !!sig && format.signatures.includes(sig);
+}
@@ -17,15 +17,35 @@ import { checkRateLimit } from "./trpc-context";
 import {
   JobIdSchema,
   BatchSizeSchema,
+  PdfExportProfileSchema,
   JobStatusResponseSchema,
   HealthResponseSchema,
+  InspectionResponseSchema,
+  FontSubstitutionTableSchema,
+  ProvidePasswordSchema,
+  JobTextResponseSchema,
   sanitizeErrorMessage,
+  sanitizeString,
   isAllowedExtension,
   MAX_FILES_PER_REQUEST,
   MAX_FILE_SIZE_BYTES,
 } from "./schema";
-import { conversionQueue } from "./services/queue";
+import {
+  commonErrorCode,
+  conversionQueue,
+  convertedFileCount,
+  currentFile,
+  fileResults,
+  passwordsMissing,
+  retryStatus,
+  thumbnailList,
+  timedOutFiles,
+} from "./services/queue";
 import { getFilesStatus, runConversion } from "./services/converter";
+import { inspectPresentation } from "./services/inspect";
+import { conversionCache } from "./services/cache";
+import { getFontSubstitutions, setFontSubstitutions } from "./services/fonts";
+import { CONVERSION_ERROR_MESSAGES, checkUploadFormat } from "./services/conversion-errors";
 
 // ---------------------------------------------------------------------------
 // tRPC initialisation with typed context
@@ -146,31 +166,178 @@ export const antigravityRouter = t.router({
 
       let response: unknown;
       switch (job.status) {
+        case "password_required":
+          response = { status: "password_required", files: passwordsMissing(job) };
+          break;
         case "pending":
-          response = { status: "pending", position: job.position ?? 1 };
+          response = {
+            status: "pending",
+            position: job.position ?? 1,
+            files: fileResults(job),
+            ...conversionQueue.estimate(job.id),
+          };
           break;
         case "running":
-          response = { status: "running" };
+          response = {
+            status: "running",
+            currentFile: currentFile(job),
+            files: fileResults(job),
+            ...conversionQueue.estimate(job.id),
+            ...retryStatus(job),
+          };
           break;
         case "done":
+        case "partial":
           response = {
-            status: "done",
-            fileCount: job.outputPaths.length,
+            status: job.status,
+            fileCount: convertedFileCount(job),
             downloadUrl: `/api/job/${input.jobId}/download`,
+            timedOutFiles: timedOutFiles(job),
+            thumbnails: thumbnailList(job),
+            files: fileResults(job),
           };
           break;
         case "error":
           response = {
             status: "error",
             message: sanitizeErrorMessage(job.error ?? "Conversion failed."),
+            code: commonErrorCode(job),
+            files: fileResults(job),
+          };
+          break;
+        case "timeout":
+          response = {
+            status: "timeout",
+            message: sanitizeErrorMessage(job.error ?? "Conversion timed out."),
+            timedOutFiles: timedOutFiles(job) ?? [],
+            files: fileResults(job),
           };
           break;
+        case "cancelled":
+          response = { status: "cancelled", files: fileResults(job) };
+          break;
       }
 
       // Validate output — prevents accidentally leaking extra Job fields
       return JobStatusResponseSchema.parse(response);
     }),
 
+  // ── Document password (public, rate-limited) ─────────────────────────────
+  /**
+   * Supplies the password of an encrypted deck in a "password_required"
+   * job; the job is queued once every encrypted file has one.
+   *
+   * Security: the password lives only in the job's memory until its file is
+   * converted — it is never logged, persisted or echoed back.
+   */
+  providePassword: publicProcedure
+    .input(ProvidePasswordSchema)
+    .mutation(({ input }) => {
+      const outcome = conversionQueue.providePassword(input.jobId, input.fileName, input.password);
+      if (outcome === "not_found") {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Job not found or has expired." });
+      }
+      if (outcome === "not_waiting") {
+        throw new TRPCError({ code: "CONFLICT", message: "The job is not waiting for a password." });
+      }
+      if (outcome === "unknown_file") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "The file is not a password-protected input of this job." });
+      }
+      const job = conversionQueue.getJob(input.jobId)!;
+      return { status: job.status, files: passwordsMissing(job) };
+    }),
+
+  // ── Cancellation (public, rate-limited) ──────────────────────────────────
+  /**
+   * Cancels a waiting or running job; a running conversion is killed and
+   * the remaining files are skipped.
+   *
+   * Security: like every job procedure, knowing the (UUIDv4) job id is the
+   * capability — there is no other owner check.
+   */
+  cancelJob: publicProcedure
+    .input(z.object({ jobId: JobIdSchema }))
+    .mutation(({ input }) => {
+      const outcome = conversionQueue.cancel(input.jobId);
+      if (outcome === "not_found") {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Job not found or has expired." });
+      }
+      if (outcome === "finished") {
+        const status = conversionQueue.getJob(input.jobId)?.status;
+        throw new TRPCError({ code: "CONFLICT", message: `Job has already finished. Current status: ${status}` });
+      }
+      return { status: "cancelled" as const };
+    }),
+
+  // ── Slide text (public, rate-limited) ────────────────────────────────────
+  /**
+   * Per-slide text of a finished job that was submitted with the "text"
+   * artifact — the contents of each deck's slides.json.
+   *
+   * Security: same UUIDv4 job-id check as getJobStatus; the response is
+   * validated by JobTextResponseSchema.
+   */
+  getSlideText: publicProcedure
+    .input(z.object({ jobId: JobIdSchema }))
+    .query(({ input }) => {
+      const job = conversionQueue.getJob(input.jobId);
+      if (!job) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Job not found or has expired." });
+      }
+      if (!job.options.artifacts?.includes("text")) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "The job was not submitted with the text artifact." });
+      }
+      if (job.status !== "done" && job.status !== "partial") {
+        throw new TRPCError({ code: "CONFLICT", message: `Job is not finished. Current status: ${job.status}` });
+      }
+      return JobTextResponseSchema.parse({
+        decks: job.files.flatMap((f) => (f.slides ? [{ name: f.name, slides: f.slides }] : [])),
+      });
+    }),
+
+  // ── Inspection (public, rate-limited) ────────────────────────────────────
+  /**
+   * Dry-run analysis of uploaded decks — the same multipart body as
+   * POST /api/convert, but nothing is queued or converted.
+   *
+   * Security: file count and size are capped before any file is parsed;
+   * names and metadata strings are sanitised by InspectionResponseSchema.
+   */
+  inspectPresentations: publicProcedure
+    .input(z.instanceof(FormData))
+    .mutation(async ({ input }) => {
+      const files = input.getAll("file").filter((f): f is File => f instanceof File);
+
+      if (files.length === 0 || files.length > MAX_FILES_PER_REQUEST) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Upload between 1 and ${MAX_FILES_PER_REQUEST} presentation files.`,
+        });
+      }
+      if (files.some((f) => f.size > MAX_FILE_SIZE_BYTES)) {
+        throw new TRPCError({
+          code: "PAYLOAD_TOO_LARGE",
+          message: `Files may not exceed ${MAX_FILE_SIZE_BYTES / 1024 / 1024} MB.`,
+        });
+      }
+
+      const reports = [];
+      for (const file of files) {
+        const buffer = Buffer.from(await file.arrayBuffer());
+        // Same check as POST /api/convert: reject rather than leave the file out of the report
+        const rejection = checkUploadFormat(file.name, buffer);
+        if (rejection) {
+          throw new TRPCError({
+            code: "UNSUPPORTED_MEDIA_TYPE",
+            message: `${CONVERSION_ERROR_MESSAGES[rejection.code].en} (${sanitizeString(file.name)})`,
+            cause: rejection,
+          });
+        }
+        reports.push(inspectPresentation(buffer, file.name));
+      }
+      return InspectionResponseSchema.parse({ files: reports });
+    }),
+
   // ── Folder-based conversion (PROTECTED — admin only) ─────────────────────
   /**
    * Triggers batch conversion of all files in the `girdiler` folder.
@@ -180,9 +347,9 @@ export const antigravityRouter = t.router({
    * arbitrarily long server-side operation → CPU/RAM exhaustion.
    */
   startFolderConversion: protectedProcedure
-    .input(z.object({ batchSize: BatchSizeSchema }))
+    .input(z.object({ batchSize: BatchSizeSchema, profile: PdfExportProfileSchema }))
     .mutation(async ({ input }) => {
-      const result = await runConversion(input.batchSize);
+      const result = await runConversion(input.batchSize, input.profile);
       return z
         .object({
           success: z.number().int().nonnegative(),
@@ -204,10 +371,44 @@ export const antigravityRouter = t.router({
         running: z.number().int().nonnegative(),
         pending: z.number().int().nonnegative(),
         maxConcurrent: z.number().int().min(1),
+        estimatedWaitSeconds: z.number().int().nonnegative(),
+        averageSeconds: z.number().nonnegative().optional(),
+        throughputPerMinute: z.number().nonnegative(),
+        cache: z.object({
+          entries: z.number().int().nonnegative(),
+          sizeBytes: z.number().int().nonnegative(),
+          maxBytes: z.number().int().nonnegative(),
+          hits: z.number().int().nonnegative(),
+          misses: z.number().int().nonnegative(),
+        }),
       })
       .parse(conversionQueue.getStats());
   }),
 
+  // ── Conversion cache purge (PROTECTED — admin only) ──────────────────────
+  /**
+   * Drops every cached PDF, e.g. after a LibreOffice upgrade changed the
+   * output. Jobs already served from the cache keep their own copies.
+   */
+  purgeConversionCache: protectedProcedure.mutation(() => {
+    return conversionCache.purge();
+  }),
+
+  // ── Font substitution table (PROTECTED — admin only) ─────────────────────
+  /**
+   * Reads / replaces the font replacement table applied to every conversion
+   * (e.g. Calibri → Carlito). PROTECTED: it changes every user's output.
+   */
+  getFontSubstitutions: protectedProcedure.query(() => {
+    return FontSubstitutionTableSchema.parse(getFontSubstitutions());
+  }),
+
+  setFontSubstitutions: protectedProcedure
+    .input(z.object({ substitutions: FontSubstitutionTableSchema }))
+    .mutation(({ input }) => {
+      return setFontSubstitutions(input.substitutions);
+    }),
+
   // ── File listing (PROTECTED — admin only) ────────────────────────────────
   /**
    * Lists files in the input and output folders.
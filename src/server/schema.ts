@@ -9,13 +9,18 @@
  */
 
 import { z } from "zod";
+import {
+  SUPPORTED_EXTENSIONS,
+  SUPPORTED_MIME_TYPES,
+  isSupportedPresentation,
+} from "./formats";
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
 /** Allowed file extensions for upload (validated in BOTH schema & route) */
-export const ALLOWED_EXTENSIONS = [".ppt", ".pptx"] as const;
+export const ALLOWED_EXTENSIONS = SUPPORTED_EXTENSIONS;
 
 /** Hard cap per request — prevents memory exhaustion / DoS */
 export const MAX_FILES_PER_REQUEST = 10;
@@ -23,6 +28,12 @@ export const MAX_FILES_PER_REQUEST = 10;
 /** 100 MB — absolute ceiling; LibreOffice hangs on gigantic files */
 export const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024;
 
+/** Safe filename: allow-listed characters + a registered presentation extension */
+const SAFE_FILENAME_REGEX = new RegExp(
+  `^[a-zA-Z0-9_\\-. ]+(${SUPPORTED_EXTENSIONS.map((e) => e.replace(".", "\\.")).join("|")})$`,
+  "i"
+);
+
 /** UUIDv4 regex — used wherever we accept jobId strings */
 const UUID_V4_REGEX =
   /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -39,10 +50,7 @@ export const SafeFilenameSchema = z
   .string()
   .min(1, "Filename cannot be empty")
   .max(255, "Filename too long")
-  .regex(
-    /^[a-zA-Z0-9_\-. ]+\.pptx?$/i,
-    "Filename contains forbidden characters or extension"
-  )
+  .regex(SAFE_FILENAME_REGEX, "Filename contains forbidden characters or extension")
   .transform((name) =>
     // Strip any remaining path separators as a defence-in-depth measure
     name.replace(/[/\\]/g, "")
@@ -56,6 +64,267 @@ export const JobIdSchema = z
 /** Batch size — only small positive integers accepted */
 export const BatchSizeSchema = z.number().int().min(1).max(20).default(3);
 
+// ---------------------------------------------------------------------------
+// PDF export profiles
+// ---------------------------------------------------------------------------
+
+/**
+ * Named export profiles — each maps to a fixed set of LibreOffice
+ * `impress_pdf_Export` filter options (see services/pdf-profiles.ts).
+ * "default" keeps LibreOffice's stock PDF export.
+ */
+export const PDF_EXPORT_PROFILES = [
+  "default",
+  "archive",
+  "archive-1b",
+  "print",
+  "web",
+  "accessible",
+] as const;
+
+export const PdfExportProfileSchema = z.enum(PDF_EXPORT_PROFILES).default("default");
+export type PdfExportProfile = z.infer<typeof PdfExportProfileSchema>;
+
+/**
+ * Profiles whose promise lives in the PDF's structure: PDF/A conformance
+ * or the tag tree. Rebuilding the pages with pdf-lib (merging, handout
+ * imposition) drops both, so those combinations are refused.
+ */
+export const STRUCTURED_PDF_PROFILES: readonly PdfExportProfile[] = ["archive", "archive-1b", "accessible"];
+
+/**
+ * The subset of `impress_pdf_Export` filter options a profile may set.
+ * Strict: an unknown key is a typo, not something to forward to soffice.
+ */
+export const PdfExportOptionsSchema = z
+  .object({
+    /** 0 = PDF 1.7, 1 = PDF/A-1b, 2 = PDF/A-2b, 3 = PDF/A-3b */
+    SelectPdfVersion: z.union([z.literal(0), z.literal(1), z.literal(2), z.literal(3)]).optional(),
+    UseTaggedPDF: z.boolean().optional(),
+    PDFUACompliance: z.boolean().optional(),
+    ExportBookmarks: z.boolean().optional(),
+    UseLosslessCompression: z.boolean().optional(),
+    /** JPEG quality, only used when UseLosslessCompression is false */
+    Quality: z.number().int().min(1).max(100).optional(),
+    ReduceImageResolution: z.boolean().optional(),
+    MaxImageResolution: z
+      .union([z.literal(75), z.literal(150), z.literal(300), z.literal(600), z.literal(1200)])
+      .optional(),
+    /** Slide selection in LibreOffice syntax ("1-5,12"); set per job, never by profiles */
+    PageRange: z.string().regex(/^[\d,-]+$/).optional(),
+    ExportHiddenSlides: z.boolean().optional(),
+    /** Notes pages (slide + speaker notes below); set by the "notes" layout */
+    ExportNotesPages: z.boolean().optional(),
+    ExportOnlyNotesPages: z.boolean().optional(),
+  })
+  .strict();
+
+export type PdfExportOptions = z.infer<typeof PdfExportOptionsSchema>;
+
+// ---------------------------------------------------------------------------
+// Output formats
+// ---------------------------------------------------------------------------
+
+/**
+ * What a job produces per input file: one PDF, or one image per slide.
+ * Image formats are rendered from the intermediate PDF (see rasterizer.ts).
+ */
+export const OUTPUT_FORMATS = ["pdf", "png", "jpeg", "svg"] as const;
+
+export const OutputFormatSchema = z.enum(OUTPUT_FORMATS).default("pdf");
+export type OutputFormat = z.infer<typeof OutputFormatSchema>;
+
+/** Default PNG/JPEG slide width — large enough for a 1080p projector */
+export const DEFAULT_IMAGE_WIDTH = 1280;
+
+/**
+ * Target width in pixels for PNG/JPEG slide images (height keeps the aspect
+ * ratio). Coerced because it usually arrives as a multipart form string.
+ * Ignored for PDF and SVG output.
+ */
+export const ImageWidthSchema = z.coerce.number().int().min(160).max(3840).default(DEFAULT_IMAGE_WIDTH);
+
+/**
+ * What happens to the per-file PDFs of a multi-file job:
+ *  - "separate": one PDF per deck (a ZIP when there are several)
+ *  - "merge":    one combined PDF in upload (or `order`) order, with a
+ *                top-level bookmark per deck (see services/merge.ts)
+ */
+export const OUTPUT_MODES = ["separate", "merge"] as const;
+
+export const OutputModeSchema = z.enum(OUTPUT_MODES).default("separate");
+export type OutputMode = z.infer<typeof OutputModeSchema>;
+
+/**
+ * Extra files produced next to each converted deck, in the deck's folder
+ * of the download ZIP:
+ *  - "text":  slides.json + slides.md — titles, body, tables, notes and
+ *             links per slide (see services/slide-text.ts)
+ *  - "media": the embedded images, videos and audio plus a manifest
+ *             linking each to its slides (see services/media.ts)
+ */
+export const ARTIFACTS = ["text", "media"] as const;
+
+export const ArtifactSchema = z.enum(ARTIFACTS);
+export type Artifact = z.infer<typeof ArtifactSchema>;
+
+/** A JSON array or, from forms, a comma-separated list ("text,media") */
+export const ArtifactListSchema = z.preprocess(
+  (v) => (typeof v === "string" ? v.split(",").map((a) => a.trim()).filter(Boolean) : v),
+  z.array(ArtifactSchema).max(ARTIFACTS.length)
+);
+
+// ---------------------------------------------------------------------------
+// Page layout
+// ---------------------------------------------------------------------------
+
+/**
+ * How slides are laid out on PDF pages:
+ *  - "slides":  one slide per page (LibreOffice default)
+ *  - "notes":   notes pages — each slide with its speaker notes underneath
+ *  - "handout": several slides per A4 page for printing, imposed onto the
+ *               produced PDF afterwards (see services/handout.ts)
+ */
+export const LAYOUTS = ["slides", "notes", "handout"] as const;
+
+export const LayoutSchema = z.enum(LAYOUTS).default("slides");
+export type Layout = z.infer<typeof LayoutSchema>;
+
+/** Handout grid sizes, as offered by PowerPoint's print dialog */
+export const SLIDES_PER_PAGE = [2, 3, 4, 6, 9] as const;
+export type SlidesPerPage = (typeof SLIDES_PER_PAGE)[number];
+
+export const DEFAULT_SLIDES_PER_PAGE: SlidesPerPage = 6;
+
+/** Slides per handout page; coerced because it arrives as a form string */
+export const SlidesPerPageSchema = z.coerce
+  .number()
+  .pipe(z.literal(SLIDES_PER_PAGE, `Slides per page must be one of ${SLIDES_PER_PAGE.join(", ")}`))
+  .default(DEFAULT_SLIDES_PER_PAGE);
+
+// ---------------------------------------------------------------------------
+// Slide selection
+// ---------------------------------------------------------------------------
+
+/** "1-5, 12" style: comma-separated 1-based slide numbers and inclusive spans */
+const PAGE_RANGE_REGEX = /^\s*\d+(\s*-\s*\d+)?(\s*,\s*\d+(\s*-\s*\d+)?)*\s*$/;
+
+/**
+ * Splits a validated range expression into [start, end] pairs.
+ * "1-5, 12" → [[1, 5], [12, 12]]
+ */
+export function parsePageRange(range: string): Array<[number, number]> {
+  return range.split(",").map((part) => {
+    const [a, b] = part.split("-").map((n) => parseInt(n.trim(), 10));
+    return [a, b ?? a];
+  });
+}
+
+/**
+ * Slide range expression, normalised to LibreOffice's PageRange syntax
+ * ("1-5,12"). Rejects slide 0 and reversed spans like "5-2".
+ */
+export const PageRangeSchema = z
+  .string()
+  .max(200, "Slide range is too long")
+  .regex(PAGE_RANGE_REGEX, 'Slide range must look like "1-5, 12"')
+  .refine(
+    (r) => parsePageRange(r).every(([a, b]) => a >= 1 && a <= b),
+    "Slide numbers start at 1 and spans must be ascending (e.g. 2-5, not 5-2)"
+  )
+  .transform((r) => r.replace(/\s+/g, ""));
+
+/**
+ * A page range that must also fit the deck — used once the slide count is
+ * known, so the user gets "only has 12 slides" instead of a blank PDF.
+ */
+export function pageRangeWithinSchema(slideCount: number, fileName: string) {
+  return PageRangeSchema.refine(
+    (r) => Math.max(...parsePageRange(r).map(([, b]) => b)) <= slideCount,
+    {
+      message: `Slide range exceeds the deck: "${sanitizeString(fileName)}" only has ${slideCount} slide${
+        slideCount === 1 ? "" : "s"
+      }`,
+    }
+  );
+}
+
+/** Boolean that also accepts the "true"/"false" strings multipart forms send */
+const FormBooleanSchema = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform((v) => v === "true"),
+]);
+
+/** Options that may differ per input file within one job */
+export const FileConversionOptionsSchema = z
+  .object({
+    pageRange: PageRangeSchema.optional(),
+    includeHiddenSlides: FormBooleanSchema.optional(),
+  })
+  .strict();
+
+export type FileConversionOptions = z.infer<typeof FileConversionOptionsSchema>;
+
+/**
+ * Per-job conversion options — everything that changes what LibreOffice
+ * produces for a given input. Defaults reproduce the historical behaviour.
+ */
+export const ConversionOptionsSchema = z
+  .object({
+    profile: PdfExportProfileSchema,
+    outputFormat: OutputFormatSchema,
+    imageWidth: ImageWidthSchema,
+    /** Job-wide slide selection; omitted = every slide */
+    pageRange: PageRangeSchema.optional(),
+    /** Export slides marked hidden in PowerPoint (LibreOffice skips them by default) */
+    includeHiddenSlides: FormBooleanSchema.default(false),
+    layout: LayoutSchema,
+    /** Only used by the "handout" layout */
+    slidesPerPage: SlidesPerPageSchema,
+    outputMode: OutputModeSchema,
+    /** Generated table-of-contents page in front of a merged PDF */
+    tableOfContents: FormBooleanSchema.default(false),
+    /** Extra per-deck artifacts (see ARTIFACTS) */
+    artifacts: ArtifactListSchema.optional(),
+    /** Processing (and merge) order as uploaded file names; unlisted files follow in upload order */
+    order: z.array(z.string().max(255)).max(MAX_FILES_PER_REQUEST).optional(),
+    /**
+     * Strip macros, ActiveX controls and OLE-wrapped executables before
+     * conversion (see services/sanitize.ts). When omitted the upload route
+     * decides: on for callers without an API key, off for API-key callers.
+     */
+    sanitize: FormBooleanSchema.optional(),
+    /** Overrides keyed by uploaded file name */
+    fileOptions: z
+      .record(z.string().max(255), FileConversionOptionsSchema)
+      .refine((r) => Object.keys(r).length <= MAX_FILES_PER_REQUEST, "Too many per-file entries")
+      .optional(),
+  })
+  .refine((o) => o.outputMode !== "merge" || o.outputFormat === "pdf", {
+    message: "Merging is only available for PDF output",
+    path: ["outputMode"],
+  })
+  .refine((o) => o.outputMode !== "merge" || !STRUCTURED_PDF_PROFILES.includes(o.profile), {
+    message: "Merged PDFs are neither PDF/A nor tagged — use separate output with this profile",
+    path: ["outputMode"],
+  })
+  .refine((o) => o.layout !== "handout" || !STRUCTURED_PDF_PROFILES.includes(o.profile), {
+    message: "Handout pages are neither PDF/A nor tagged — use the slides or notes layout with this profile",
+    path: ["layout"],
+  });
+
+export type ConversionOptions = z.infer<typeof ConversionOptionsSchema>;
+
+/** Job options with the per-file overrides for `fileName` applied */
+export function optionsForFile(
+  options: Partial<ConversionOptions>,
+  fileName: string
+): Partial<ConversionOptions> {
+  const { fileOptions, ...jobWide } = options;
+  const override = fileOptions?.[fileName];
+  return override ? { ...jobWide, ...override } : jobWide;
+}
+
 // ---------------------------------------------------------------------------
 // Upload / Conversion schemas
 // ---------------------------------------------------------------------------
@@ -76,15 +345,9 @@ export const UploadedFileSchema = z.object({
   /** MIME‐type from browser (informational; actual extension is the authority) */
   mimeType: z
     .string()
-    .refine(
-      (m) =>
-        [
-          "application/vnd.ms-powerpoint",
-          "application/vnd.openxmlformats-officedocument.presentationml.presentation",
-          "application/octet-stream", // some browsers send this for both
-        ].includes(m),
-      { message: "Invalid MIME type — only PowerPoint files are accepted" }
-    ),
+    .refine((m) => SUPPORTED_MIME_TYPES.includes(m), {
+      message: "Invalid MIME type — only presentation files are accepted",
+    }),
 });
 
 export type UploadedFile = z.infer<typeof UploadedFileSchema>;
@@ -94,32 +357,331 @@ export type UploadedFile = z.infer<typeof UploadedFileSchema>;
  */
 export const ConversionRequestSchema = z.object({
   batchSize: BatchSizeSchema,
+  profile: PdfExportProfileSchema,
 });
 
 export type ConversionRequest = z.infer<typeof ConversionRequestSchema>;
 
+// ---------------------------------------------------------------------------
+// Inspection report (POST /api/inspect — dry run, nothing is converted)
+// ---------------------------------------------------------------------------
+
+/** Display name from the upload or the deck's metadata — never markup */
+const ReportTextSchema = z.string().transform((v) => sanitizeString(v).slice(0, 256));
+
+export const SlideSizeSchema = z.object({
+  widthMm: z.number().positive(),
+  heightMm: z.number().positive(),
+  orientation: z.enum(["landscape", "portrait", "square"]),
+});
+
+export type SlideSize = z.infer<typeof SlideSizeSchema>;
+
+/**
+ * What could be read from one uploaded deck without LibreOffice. Fields a
+ * format does not record (or that could not be read) are omitted; an
+ * encrypted deck only reports `encrypted: true`.
+ */
+export const InspectionReportSchema = z.object({
+  name: ReportTextSchema,
+  sizeBytes: z.number().int().nonnegative(),
+  /** Registry extension, e.g. ".pptx" */
+  format: z.string(),
+  slideCount: z.number().int().nonnegative().optional(),
+  slideSize: SlideSizeSchema.optional(),
+  title: ReportTextSchema.optional(),
+  author: ReportTextSchema.optional(),
+  /** Embedded images, audio and video with their uncompressed sizes */
+  media: z.array(z.object({ name: ReportTextSchema, sizeBytes: z.number().int().nonnegative() })).optional(),
+  /** Typefaces referenced by the theme, masters and slides, sorted */
+  fonts: z.array(ReportTextSchema).optional(),
+  /** 1-based numbers of hidden slides */
+  hiddenSlides: z.array(z.number().int().min(1)).optional(),
+  encrypted: z.boolean(),
+  macroEnabled: z.boolean(),
+  /** Things worth fixing before conversion, human-readable */
+  warnings: z.array(z.string()),
+});
+
+export type InspectionReport = z.infer<typeof InspectionReportSchema>;
+
+export const InspectionResponseSchema = z.object({
+  files: z.array(InspectionReportSchema),
+});
+
+export type InspectionResponse = z.infer<typeof InspectionResponseSchema>;
+
+// ---------------------------------------------------------------------------
+// Slide text (artifact "text" — slides.json / slides.md)
+// ---------------------------------------------------------------------------
+
+/**
+ * Text is returned as written in the deck — it is JSON for indexers, not
+ * markup, so it is capped but not stripped like display strings.
+ */
+const SlideTextStringSchema = z.string().max(100_000);
+
+export const SlideHyperlinkSchema = z.object({
+  text: SlideTextStringSchema,
+  url: z.string().max(2048),
+});
+
+export const SlideTextSchema = z.object({
+  /** 1-based, in presentation order */
+  slide: z.number().int().min(1),
+  hidden: z.boolean(),
+  title: SlideTextStringSchema.optional(),
+  /** Paragraphs of every non-title text shape, in document order */
+  body: z.array(SlideTextStringSchema),
+  /** Each table as rows of cell texts */
+  tables: z.array(z.array(z.array(SlideTextStringSchema))),
+  /** Paragraphs of the speaker notes */
+  notes: z.array(SlideTextStringSchema),
+  hyperlinks: z.array(SlideHyperlinkSchema),
+});
+export type SlideText = z.infer<typeof SlideTextSchema>;
+
+export const JobTextResponseSchema = z.object({
+  decks: z.array(
+    z.object({
+      name: z.string().transform(sanitizeString),
+      slides: z.array(SlideTextSchema),
+    })
+  ),
+});
+
+// ---------------------------------------------------------------------------
+// Embedded media (artifact "media" — media/manifest.json)
+// ---------------------------------------------------------------------------
+
+export const MediaKindSchema = z.enum(["image", "video", "audio", "other"]);
+export type MediaKind = z.infer<typeof MediaKindSchema>;
+
+export const MediaItemSchema = z.object({
+  /** Path inside the deck's folder, e.g. "media/video1.mp4" */
+  file: z.string().max(512),
+  kind: MediaKindSchema,
+  sizeBytes: z.number().int().nonnegative(),
+  /** 1-based numbers of the slides that reference the item; empty for master/layout media */
+  slides: z.array(z.number().int().min(1)),
+});
+export type MediaItem = z.infer<typeof MediaItemSchema>;
+
+export const MediaManifestSchema = z.object({
+  deck: z.string(),
+  items: z.array(MediaItemSchema),
+  /** Items left out because the job's media size cap was reached */
+  skipped: z.array(MediaItemSchema),
+});
+export type MediaManifest = z.infer<typeof MediaManifestSchema>;
+
+/** Per-file summary in the job status */
+export const MediaSummarySchema = z.object({
+  items: z.number().int().nonnegative(),
+  sizeBytes: z.number().int().nonnegative(),
+  skipped: z.number().int().nonnegative(),
+});
+export type MediaSummary = z.infer<typeof MediaSummarySchema>;
+
+// ---------------------------------------------------------------------------
+// Font substitution (admin-maintained replacement table)
+// ---------------------------------------------------------------------------
+
+/** Family names end up in LibreOffice's XML config — no control characters */
+const FontFamilySchema = z
+  .string()
+  .trim()
+  .min(1, "Font name is empty")
+  .max(128, "Font name too long")
+  .refine((v) => !/[\x00-\x1F\x7F]/.test(v), "Font name contains control characters");
+
+export const FontSubstitutionSchema = z.object({
+  /** Family referenced by presentations, e.g. "Calibri" */
+  font: FontFamilySchema,
+  /** Installed family LibreOffice should use instead, e.g. "Carlito" */
+  replacement: FontFamilySchema,
+});
+export type FontSubstitution = z.infer<typeof FontSubstitutionSchema>;
+
+export const FontSubstitutionTableSchema = z
+  .array(FontSubstitutionSchema)
+  .max(200, "Too many font substitutions")
+  .refine(
+    (table) => new Set(table.map((s) => s.font.toLowerCase())).size === table.length,
+    "Each font may only be replaced once"
+  );
+
+/**
+ * How a font the deck uses but the server lacks gets rendered:
+ *  - "table":      the admin substitution table
+ *  - "fontconfig": fontconfig's closest match (metrics may differ)
+ */
+export const FontSubstitutionReportSchema = z.object({
+  font: z.string().transform(sanitizeString),
+  replacement: z.string().transform(sanitizeString).optional(),
+  source: z.enum(["table", "fontconfig"]),
+});
+export type FontSubstitutionReport = z.infer<typeof FontSubstitutionReportSchema>;
+
+// ---------------------------------------------------------------------------
+// Passwords for encrypted decks — held in memory only, never logged or stored
+// ---------------------------------------------------------------------------
+
+export const PasswordSchema = z
+  .string()
+  .min(1, "Password is empty")
+  .max(256, "Password too long");
+
+/** Upload form field `passwords`: {"Deck.pptx": "secret"} */
+export const FilePasswordsSchema = z
+  .record(z.string().max(255), PasswordSchema)
+  .refine((r) => Object.keys(r).length <= MAX_FILES_PER_REQUEST, "Too many passwords");
+
+/** Follow-up call for a job in the "password_required" state */
+export const ProvidePasswordSchema = z.object({
+  jobId: JobIdSchema,
+  fileName: z.string().min(1).max(255),
+  password: PasswordSchema,
+});
+export type ProvidePassword = z.infer<typeof ProvidePasswordSchema>;
+
+// ---------------------------------------------------------------------------
+// Conversion errors (stable codes — messages in services/conversion-errors.ts)
+// ---------------------------------------------------------------------------
+
+export const CONVERSION_ERROR_CODES = [
+  "corrupt_file",
+  "password_protected",
+  "password_incorrect",
+  "unsupported_format",
+  "timeout",
+  "soffice_missing",
+  "soffice_crashed",
+  "invalid_output",
+  "output_too_large",
+  "render_failed",
+  "cancelled",
+  "unknown",
+] as const;
+
+export const ConversionErrorCodeSchema = z.enum(CONVERSION_ERROR_CODES);
+export type ConversionErrorCode = z.infer<typeof ConversionErrorCodeSchema>;
+
+const ErrorTextSchema = z.string().transform((m) => sanitizeErrorMessage(m));
+
+/** Why one file failed: a stable code plus Turkish and English explanations */
+export const FileErrorSchema = z.object({
+  code: ConversionErrorCodeSchema,
+  message: z.object({ tr: ErrorTextSchema, en: ErrorTextSchema }),
+  /** Underlying error, sanitised — informational, not stable */
+  detail: ErrorTextSchema.optional(),
+});
+export type FileError = z.infer<typeof FileErrorSchema>;
+
+/** Active content removed from an upload before conversion (see services/sanitize.ts) */
+export const StrippedPartKindSchema = z.enum(["vba", "activex", "ole_executable"]);
+export type StrippedPartKind = z.infer<typeof StrippedPartKindSchema>;
+
+export const StrippedPartSchema = z.object({
+  /** Package part name, e.g. "ppt/vbaProject.bin" */
+  path: z.string().max(512).transform(sanitizeString),
+  kind: StrippedPartKindSchema,
+});
+export type StrippedPart = z.infer<typeof StrippedPartSchema>;
+
+/** Why sanitizing was requested but the input was converted as uploaded */
+export const UnsanitizedReasonSchema = z.enum(["binary", "encrypted"]);
+export type UnsanitizedReason = z.infer<typeof UnsanitizedReasonSchema>;
+
+/**
+ * Per-input state: "pending" until its turn, "running" while converted,
+ * then verification and fonts of converted files, the error of failed ones
+ */
+export const FileResultSchema = z.object({
+  name: z.string().transform(sanitizeString),
+  status: z.enum(["pending", "running", "done", "failed"]),
+  startedAt: z.string().datetime().optional(),
+  finishedAt: z.string().datetime().optional(),
+  /** Size of the converted output (PDF or slide images), artifacts not counted */
+  outputBytes: z.number().int().nonnegative().optional(),
+  verification: z.enum(["verified", "mismatch", "unverified"]).optional(),
+  warnings: z.array(ErrorTextSchema),
+  /** Fonts the deck uses that were rendered with a different family */
+  fontSubstitutions: z.array(FontSubstitutionReportSchema).default([]),
+  /** Conversion attempts made (> 1 after transient failures) */
+  attempts: z.number().int().min(1).optional(),
+  /** Parts the sanitizer removed from the upload */
+  stripped: z.array(StrippedPartSchema).default([]),
+  /** Set when sanitizing was on but this input (.ppt/.pps, encrypted) could not be cleaned */
+  unsanitized: UnsanitizedReasonSchema.optional(),
+  /** Embedded media extracted into the download (artifact "media") */
+  media: MediaSummarySchema.optional(),
+  error: FileErrorSchema.optional(),
+});
+export type FileResult = z.infer<typeof FileResultSchema>;
+
 // ---------------------------------------------------------------------------
 // Job Status schemas (tRPC outputs — prevents data leakage)
 // ---------------------------------------------------------------------------
 
-export const JobStatusEnum = z.enum(["pending", "running", "done", "error"]);
+export const JobStatusEnum = z.enum([
+  "password_required",
+  "pending",
+  "running",
+  "done",
+  "error",
+  "timeout",
+  "cancelled",
+  "partial",
+]);
 export type JobStatusEnum = z.infer<typeof JobStatusEnum>;
 
+/**
+ * Response returned while encrypted inputs wait for their password — the
+ * job is not queued until every listed file has one (see ProvidePasswordSchema).
+ */
+export const PasswordRequiredJobResponseSchema = z.object({
+  status: z.literal("password_required"),
+  files: z.array(z.string().transform(sanitizeString)),
+});
+
 /** Response returned for a pending job */
 export const PendingJobResponseSchema = z.object({
   status: z.literal("pending"),
   position: z.number().int().min(1),
   estimatedWaitSeconds: z.number().nonnegative().optional(),
+  files: z.array(FileResultSchema).default([]),
 });
 
 /** Response returned while a job is running */
 export const RunningJobResponseSchema = z.object({
   status: z.literal("running"),
+  /** The file being converted: "file `index` of `total`" (1-based) */
+  currentFile: z
+    .object({
+      index: z.number().int().min(1),
+      total: z.number().int().min(1),
+      name: z.string().transform(sanitizeString),
+    })
+    .optional(),
+  /** Predicted seconds until the job finishes (see services/estimator.ts) */
+  estimatedRemainingSeconds: z.number().nonnegative().optional(),
+  files: z.array(FileResultSchema).default([]),
+  /** Set while a file is being retried after a transient failure, e.g. "retrying (2/3)" */
+  message: z.string().max(64).optional(),
+  retry: z
+    .object({
+      fileName: z.string().transform(sanitizeString),
+      attempt: z.number().int().min(2),
+      maxAttempts: z.number().int().min(2),
+    })
+    .optional(),
 });
 
 /** Response returned when a job completed successfully */
 export const DoneJobResponseSchema = z.object({
   status: z.literal("done"),
+  /** Input files converted (slide images and artifacts are not counted) */
   fileCount: z.number().int().min(1),
   downloadUrl: z
     .string()
@@ -129,6 +691,29 @@ export const DoneJobResponseSchema = z.object({
       (u) => !u.includes(".."),
       "Download URL contains path traversal"
     ),
+  /** Inputs that were killed for exceeding the time limit (partial success) */
+  timedOutFiles: z.array(z.string().transform(sanitizeString)).optional(),
+  /** First-slide PNG previews, one per converted file that has one */
+  thumbnails: z
+    .array(
+      z.object({
+        name: z.string().transform(sanitizeString),
+        url: z
+          .string()
+          .regex(/^\/api\/job\/[0-9a-f-]+\/thumbnail\/\d+$/i, "Invalid thumbnail URL"),
+      })
+    )
+    .default([]),
+  /** Per-input outcome — failed files say why */
+  files: z.array(FileResultSchema).default([]),
+});
+
+/**
+ * Response returned when some files converted and others failed — the
+ * download holds the converted ones, `files` says why the rest are missing
+ */
+export const PartialJobResponseSchema = DoneJobResponseSchema.extend({
+  status: z.literal("partial"),
 });
 
 /** Response returned when a job failed */
@@ -138,14 +723,45 @@ export const ErrorJobResponseSchema = z.object({
   message: z
     .string()
     .transform((m) => sanitizeErrorMessage(m).slice(0, 256)),
+  /** Shared by every file when they all failed the same way */
+  code: ConversionErrorCodeSchema.optional(),
+  files: z.array(FileResultSchema).default([]),
+});
+
+/**
+ * Response returned when nothing could be converted because LibreOffice hit
+ * the per-file time limit and was killed — distinct from "error" so the UI
+ * can suggest simplifying or re-saving the deck instead of a retry.
+ */
+export const TimeoutJobResponseSchema = z.object({
+  status: z.literal("timeout"),
+  message: z
+    .string()
+    .transform((m) => sanitizeErrorMessage(m).slice(0, 256)),
+  timedOutFiles: z.array(z.string().transform(sanitizeString)),
+  files: z.array(FileResultSchema).default([]),
+});
+
+/**
+ * Response returned after the job was cancelled (DELETE /api/job/:jobId or
+ * cancelJob). `files` lists what finished before the cancellation; nothing
+ * is downloadable.
+ */
+export const CancelledJobResponseSchema = z.object({
+  status: z.literal("cancelled"),
+  files: z.array(FileResultSchema).default([]),
 });
 
 /** Discriminated union covering all possible job status responses */
 export const JobStatusResponseSchema = z.discriminatedUnion("status", [
+  PasswordRequiredJobResponseSchema,
   PendingJobResponseSchema,
   RunningJobResponseSchema,
   DoneJobResponseSchema,
+  PartialJobResponseSchema,
   ErrorJobResponseSchema,
+  TimeoutJobResponseSchema,
+  CancelledJobResponseSchema,
 ]);
 
 export type JobStatusResponse = z.infer<typeof JobStatusResponseSchema>;
@@ -215,6 +831,5 @@ export function sanitizeErrorMessage(msg: string): string {
  * Called as an additional guard even after Zod validation.
  */
 export function isAllowedExtension(filename: string): boolean {
-  const ext = filename.slice(filename.lastIndexOf(".")).toLowerCase();
-  return (ALLOWED_EXTENSIONS as readonly string[]).includes(ext);
+  return isSupportedPresentation(filename);
 }
@@ -49,14 +49,19 @@ import {
   JobIdSchema,
   UploadedFileSchema,
   ConversionRequestSchema,
+  PdfExportProfileSchema,
+  PageRangeSchema,
+  pageRangeWithinSchema,
+  ConversionOptionsSchema,
   JobStatusResponseSchema,
+  FilePasswordsSchema,
   sanitizeString,
   sanitizeErrorMessage,
   isAllowedExtension,
   MAX_FILE_SIZE_BYTES,
 } from "./schema";
 
-import { checkRateLimit } from "./trpc-context";
+import { checkRateLimit, clientIdentity } from "./trpc-context";
 
 // ---------------------------------------------------------------------------
 // 1. Zod Schema Fuzzing
@@ -91,6 +96,12 @@ describe("SafeFilenameSchema — reject attack inputs", () => {
     "slide-deck.ppt",
     "Q1_Report 2024.pptx",
     "file-name_v2.ppt",
+    "Kiosk Loop.ppsx",
+    "legacy-show.pps",
+    "Corporate Template.potx",
+    "macros.pptm",
+    "Lecture 3.odp",
+    "Keynote Export.key",
   ];
 
   GOOD_NAMES.forEach((name) => {
@@ -208,6 +219,119 @@ describe("ConversionRequestSchema — reject invalid batchSize", () => {
 
 // ---------------------------------------------------------------------------
 
+describe("PdfExportProfileSchema — only named profiles reach soffice", () => {
+  const INVALID = [
+    "pdfa",
+    "ARCHIVE",
+    'archive:{"SelectPdfVersion":{"type":"long","value":"3"}}', // filter injection
+    "--convert-to",
+    "",
+    3,
+    null,
+  ];
+  INVALID.forEach((v) => {
+    it(`rejects profile: ${JSON.stringify(v).slice(0, 60)}`, () => {
+      expect(PdfExportProfileSchema.safeParse(v).success).toBe(false);
+    });
+  });
+
+  it("defaults to the stock LibreOffice export when omitted", () => {
+    expect(PdfExportProfileSchema.parse(undefined)).toBe("default");
+  });
+
+  it("accepts every documented profile", () => {
+    ["default", "archive", "archive-1b", "print", "web", "accessible"].forEach((p) => {
+      expect(PdfExportProfileSchema.safeParse(p).success).toBe(true);
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+
+describe("PageRangeSchema — slide selection", () => {
+  const INVALID = ["", "0", "0-3", "5-2", "1-", "-3", "1,,2", "1;2", "1-5 12", "a-b", "1-5,12; rm -rf /"];
+  INVALID.forEach((v) => {
+    it(`rejects: ${JSON.stringify(v)}`, () => {
+      expect(PageRangeSchema.safeParse(v).success).toBe(false);
+    });
+  });
+
+  it("normalises whitespace to LibreOffice syntax", () => {
+    expect(PageRangeSchema.parse(" 1 - 5 , 12 ")).toBe("1-5,12");
+  });
+
+  it("explains ranges that exceed the slide count", () => {
+    const r = pageRangeWithinSchema(12, "Deck.pptx").safeParse("1-5,14");
+    expect(r.success).toBe(false);
+    if (!r.success) expect(r.error.issues[0].message).toMatch(/only has 12 slides/);
+  });
+
+  it("accepts ranges within the slide count", () => {
+    expect(pageRangeWithinSchema(12, "Deck.pptx").safeParse("1-5,12").success).toBe(true);
+  });
+
+  it("reads includeHiddenSlides from form strings", () => {
+    const r = ConversionOptionsSchema.parse({ includeHiddenSlides: "true" });
+    expect(r.includeHiddenSlides).toBe(true);
+    expect(ConversionOptionsSchema.parse({}).includeHiddenSlides).toBe(false);
+    expect(ConversionOptionsSchema.safeParse({ includeHiddenSlides: "yes" }).success).toBe(false);
+  });
+
+  it("accepts handout layouts with a supported grid size", () => {
+    const r = ConversionOptionsSchema.parse({ layout: "handout", slidesPerPage: "9" });
+    expect(r.slidesPerPage).toBe(9);
+    expect(ConversionOptionsSchema.parse({}).layout).toBe("slides");
+    expect(ConversionOptionsSchema.safeParse({ layout: "handout", slidesPerPage: "5" }).success).toBe(false);
+    expect(ConversionOptionsSchema.safeParse({ layout: "poster" }).success).toBe(false);
+  });
+
+  it("only merges PDF output", () => {
+    expect(ConversionOptionsSchema.safeParse({ outputMode: "merge" }).success).toBe(true);
+    expect(
+      ConversionOptionsSchema.safeParse({ outputMode: "merge", outputFormat: "png" }).success
+    ).toBe(false);
+  });
+
+  it("refuses merging and handouts with the PDF/A and tagged profiles", () => {
+    for (const profile of ["archive", "archive-1b", "accessible"]) {
+      expect(ConversionOptionsSchema.safeParse({ profile, outputMode: "merge" }).success).toBe(false);
+      expect(ConversionOptionsSchema.safeParse({ profile, layout: "handout" }).success).toBe(false);
+      expect(ConversionOptionsSchema.safeParse({ profile, layout: "notes" }).success).toBe(true);
+    }
+    expect(ConversionOptionsSchema.safeParse({ profile: "print", outputMode: "merge", layout: "handout" }).success).toBe(true);
+  });
+
+  it("accepts known artifacts as a list or a form string", () => {
+    expect(ConversionOptionsSchema.parse({ artifacts: "text" }).artifacts).toEqual(["text"]);
+    expect(ConversionOptionsSchema.parse({ artifacts: ["text"] }).artifacts).toEqual(["text"]);
+    expect(ConversionOptionsSchema.parse({ artifacts: "text, media" }).artifacts).toEqual(["text", "media"]);
+    expect(ConversionOptionsSchema.safeParse({ artifacts: "text,macros" }).success).toBe(false);
+  });
+
+  it("rejects unknown keys in per-file overrides", () => {
+    const r = ConversionOptionsSchema.safeParse({
+      fileOptions: { "Deck.pptx": { pageRange: "1-2", filter: "impress_pdf_Export" } },
+    });
+    expect(r.success).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+
+describe("FilePasswordsSchema — bounded password map", () => {
+  it("accepts one password per file name", () => {
+    expect(FilePasswordsSchema.safeParse({ "deck.pptx": "secret" }).success).toBe(true);
+  });
+
+  it("rejects empty, oversized and non-string passwords", () => {
+    expect(FilePasswordsSchema.safeParse({ "deck.pptx": "" }).success).toBe(false);
+    expect(FilePasswordsSchema.safeParse({ "deck.pptx": "x".repeat(257) }).success).toBe(false);
+    expect(FilePasswordsSchema.safeParse({ "deck.pptx": 1234 }).success).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+
 describe("JobStatusResponseSchema — reject extra / dangerous fields", () => {
   it("rejects a download URL with path traversal", () => {
     const r = JobStatusResponseSchema.safeParse({
@@ -218,11 +342,83 @@ describe("JobStatusResponseSchema — reject extra / dangerous fields", () => {
     expect(r.success).toBe(false);
   });
 
+  it("only accepts thumbnail URLs of the thumbnail route", () => {
+    const done = (url: string) =>
+      JobStatusResponseSchema.safeParse({
+        status: "done",
+        fileCount: 1,
+        downloadUrl: "/api/job/abc/download",
+        thumbnails: [{ name: "deck.pptx", url }],
+      }).success;
+    expect(done("/api/job/3f2b8c1e-9a4d-4e5f-8b6a-1c2d3e4f5a6b/thumbnail/0")).toBe(true);
+    expect(done("/api/job/../../etc/passwd")).toBe(false);
+    expect(done("https://evil.example/thumbnail/0")).toBe(false);
+  });
+
+  it("accepts a running response that reports a retry", () => {
+    const r = JobStatusResponseSchema.safeParse({
+      status: "running",
+      message: "retrying (2/3)",
+      retry: { fileName: "deck.pptx", attempt: 2, maxAttempts: 3 },
+    });
+    expect(r.success).toBe(true);
+    expect(JobStatusResponseSchema.safeParse({ status: "running" }).success).toBe(true);
+  });
+
+  it("accepts a running response with the current file and per-file states", () => {
+    const r = JobStatusResponseSchema.safeParse({
+      status: "running",
+      currentFile: { index: 2, total: 3, name: "b.pptx" },
+      files: [
+        { name: "a.pptx", status: "done", warnings: [], startedAt: "2026-01-01T10:00:00.000Z", finishedAt: "2026-01-01T10:00:05.000Z", outputBytes: 1024 },
+        { name: "b.pptx", status: "running", warnings: [], startedAt: "2026-01-01T10:00:05.000Z" },
+        { name: "c.pptx", status: "pending", warnings: [] },
+      ],
+    });
+    expect(r.success).toBe(true);
+    expect(
+      JobStatusResponseSchema.safeParse({ status: "running", currentFile: { index: 0, total: 3, name: "a.pptx" } }).success
+    ).toBe(false);
+  });
+
+  it("accepts a partial response — a done response with failed files", () => {
+    const r = JobStatusResponseSchema.safeParse({
+      status: "partial",
+      fileCount: 1,
+      downloadUrl: "/api/job/1/download",
+      files: [
+        { name: "a.pptx", status: "done", warnings: [] },
+        { name: "b.pptx", status: "failed", warnings: [], error: { code: "corrupt_file", message: { tr: "x", en: "x" } } },
+      ],
+    });
+    expect(r.success).toBe(true);
+  });
+
+  it("accepts a password_required response listing the locked files", () => {
+    const r = JobStatusResponseSchema.safeParse({ status: "password_required", files: ["deck.pptx"] });
+    expect(r.success).toBe(true);
+    // A password must never be echoed back, even if a handler put one in
+    const leaked = JobStatusResponseSchema.parse({ status: "password_required", files: [], password: "secret" });
+    expect(leaked).not.toHaveProperty("password");
+  });
+
   it("rejects an unknown status value", () => {
     const r = JobStatusResponseSchema.safeParse({ status: "hacked" });
     expect(r.success).toBe(false);
   });
 
+  it("accepts a timeout response and strips markup from file names", () => {
+    const r = JobStatusResponseSchema.safeParse({
+      status: "timeout",
+      message: "Conversion timed out after 60s",
+      timedOutFiles: ["<img src=x onerror=alert(1)>deck.pptx"],
+    });
+    expect(r.success).toBe(true);
+    if (r.success && r.data.status === "timeout") {
+      expect(r.data.timedOutFiles[0]).toBe("deck.pptx");
+    }
+  });
+
   it("truncates error messages > 256 chars to keep them safe", () => {
     const longMsg = "x".repeat(300);
     const r = JobStatusResponseSchema.safeParse({ status: "error", message: longMsg });
@@ -232,6 +428,32 @@ describe("JobStatusResponseSchema — reject extra / dangerous fields", () => {
       expect(r.data.message.length).toBeLessThanOrEqual(256);
     }
   });
+
+  it("exposes per-file error codes with sanitised detail and rejects unknown codes", () => {
+    const file = (code: string) => ({
+      name: "deck.pptx",
+      status: "failed",
+      warnings: [],
+      error: {
+        code,
+        message: { tr: "Dosya bozuk.", en: "The file is damaged." },
+        detail: "soffice produced no output: /tmp/pptx-job-1/deck.pptx",
+      },
+    });
+    const r = JobStatusResponseSchema.safeParse({
+      status: "error",
+      message: "All conversions failed.",
+      code: "corrupt_file",
+      files: [file("corrupt_file")],
+    });
+    expect(r.success).toBe(true);
+    if (r.success && r.data.status === "error") {
+      expect(r.data.files[0].error?.detail).not.toContain("/tmp");
+    }
+    expect(
+      JobStatusResponseSchema.safeParse({ status: "error", message: "x", files: [file("segfault")] }).success
+    ).toBe(false);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -266,6 +488,30 @@ describe("checkRateLimit — enforce per-IP sliding window", () => {
   });
 });
 
+describe("clientIdentity — client address from forwarded headers", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  const request = (headers: Record<string, string>) => new Request("http://localhost/api/convert", { headers });
+
+  it("takes the first forwarded address without TRUST_PROXY", () => {
+    expect(clientIdentity(request({ "x-forwarded-for": "203.0.113.9, 10.0.0.1" }))).toBe("ip:203.0.113.9");
+    expect(clientIdentity(request({ "x-real-ip": "203.0.113.7" }))).toBe("ip:203.0.113.7");
+  });
+
+  it("takes the address the trusted proxies saw, not what the client prepended", () => {
+    vi.stubEnv("TRUST_PROXY", "1");
+    const chain = { "x-forwarded-for": "6.6.6.6, 203.0.113.9" };
+    expect(clientIdentity(request(chain))).toBe("ip:203.0.113.9");
+    vi.stubEnv("TRUST_PROXY", "2");
+    expect(clientIdentity(request(chain))).toBe("ip:6.6.6.6");
+    expect(clientIdentity(request({ "x-real-ip": "203.0.113.7" }))).toBe("ip:203.0.113.7");
+  });
+
+  it("falls back to unknown without any usable address", () => {
+    expect(clientIdentity(request({ "x-forwarded-for": "<script>" }))).toBe("ip:unknown");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // 3. Sanitisation Helpers
 // ---------------------------------------------------------------------------
@@ -329,6 +575,11 @@ describe("isAllowedExtension — reject non-PowerPoint extensions", () => {
   it("accepts .pptx", () => expect(isAllowedExtension("deck.pptx")).toBe(true));
   it("accepts .ppt", () => expect(isAllowedExtension("old.ppt")).toBe(true));
   it("is case-insensitive", () => expect(isAllowedExtension("SLIDE.PPTX")).toBe(true));
+  it("accepts every registered presentation format", () => {
+    ["a.pps", "a.ppsx", "a.potx", "a.pptm", "a.odp", "a.key"].forEach((f) =>
+      expect(isAllowedExtension(f)).toBe(true)
+    );
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,68 @@
+// ---------------------------------------------------------------------------
+// Test fixture: builds minimal OLE2 compound files (see ../ole.ts)
+// ---------------------------------------------------------------------------
+
+const SECTOR = 512;
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const FAT_SECTOR = 0xfffffffd;
+/** Streams below this size would live in the mini stream; fixtures pad past it */
+const MINI_STREAM_CUTOFF = 4096;
+
+/**
+ * A version-3 compound file (512-byte sectors) holding `streams` in the root
+ * storage. Each stream is zero-padded to at least 4 KiB (and recorded with
+ * the padded size) so it lives in regular sectors, not the mini stream.
+ */
+export function buildCompoundFile(streams: Record<string, Buffer>): Buffer {
+  const names = Object.keys(streams);
+  if (names.length > 3) throw new Error("Fixture supports up to 3 streams (one directory sector)");
+
+  // Sector 0 = FAT, 1 = directory, then the streams back to back
+  const fat: number[] = [FAT_SECTOR, END_OF_CHAIN];
+  const data: Buffer[] = [];
+  const starts: number[] = [];
+  const sizes: number[] = [];
+  for (const name of names) {
+    const padded = Buffer.alloc(Math.ceil(Math.max(streams[name].length, MINI_STREAM_CUTOFF) / SECTOR) * SECTOR);
+    streams[name].copy(padded);
+    const first = fat.length;
+    const count = padded.length / SECTOR;
+    for (let i = 0; i < count; i++) fat.push(i === count - 1 ? END_OF_CHAIN : first + i + 1);
+    starts.push(first);
+    sizes.push(padded.length);
+    data.push(padded);
+  }
+  if (fat.length > SECTOR / 4) throw new Error("Fixture too large for one FAT sector");
+
+  const header = Buffer.alloc(SECTOR);
+  Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(header);
+  header.writeUInt16LE(0x3e, 0x18);
+  header.writeUInt16LE(3, 0x1a);
+  header.writeUInt16LE(0xfffe, 0x1c);
+  header.writeUInt16LE(9, 0x1e); // 512-byte sectors
+  header.writeUInt16LE(6, 0x20); // 64-byte mini sectors
+  header.writeUInt32LE(1, 0x2c); // one FAT sector
+  header.writeUInt32LE(1, 0x30); // directory at sector 1
+  header.writeUInt32LE(MINI_STREAM_CUTOFF, 0x38);
+  header.writeUInt32LE(END_OF_CHAIN, 0x3c);
+  header.writeUInt32LE(END_OF_CHAIN, 0x44);
+  for (let i = 0; i < 109; i++) header.writeUInt32LE(i === 0 ? 0 : FREE_SECTOR, 0x4c + i * 4);
+
+  const fatSector = Buffer.alloc(SECTOR, 0xff);
+  fat.forEach((next, i) => fatSector.writeUInt32LE(next, i * 4));
+
+  const directory = Buffer.alloc(SECTOR);
+  const entry = (index: number, name: string, type: number, start: number, size: number) => {
+    const off = index * 128;
+    directory.write(name, off, "utf16le");
+    directory.writeUInt16LE((name.length + 1) * 2, off + 0x40);
+    directory.writeUInt8(type, off + 0x42);
+    directory.writeUInt32LE(start, off + 0x74);
+    directory.writeUInt32LE(size, off + 0x78);
+  };
+  entry(0, "Root Entry", 5, END_OF_CHAIN, 0);
+  names.forEach((name, i) => entry(i + 1, name, 2, starts[i], sizes[i]));
+
+  return Buffer.concat([header, fatSector, directory, ...data]);
+}
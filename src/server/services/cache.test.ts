@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ConversionCache, cacheKey } from "./cache";
+
+const RESULT = { verification: { status: "verified" as const, actualPages: 3, expectedPages: 3, warnings: [] } };
+
+describe("cacheKey", () => {
+  const deck = Buffer.from("PK deck bytes");
+
+  it("treats omitted options like their defaults", () => {
+    expect(cacheKey(deck, {})).toBe(cacheKey(deck, { profile: "default", layout: "slides", includeHiddenSlides: false }));
+    // Applied after conversion — same PDF
+    expect(cacheKey(deck, {})).toBe(cacheKey(deck, { outputFormat: "png", imageWidth: 640, outputMode: "merge" }));
+    // slidesPerPage only matters for handouts
+    expect(cacheKey(deck, { slidesPerPage: 4 })).toBe(cacheKey(deck, {}));
+  });
+
+  it("changes with the content and with options that shape the PDF", () => {
+    const base = cacheKey(deck, {});
+    expect(cacheKey(Buffer.from("PK other deck"), {})).not.toBe(base);
+    expect(cacheKey(deck, { profile: "print" })).not.toBe(base);
+    expect(cacheKey(deck, { pageRange: "1-3" })).not.toBe(base);
+    expect(cacheKey(deck, { layout: "handout", slidesPerPage: 4 })).not.toBe(
+      cacheKey(deck, { layout: "handout", slidesPerPage: 6 })
+    );
+  });
+});
+
+describe("ConversionCache", () => {
+  let dir: string;
+  let cache: ConversionCache;
+
+  /** Writes a source "PDF" of `size` bytes and returns its path */
+  const pdf = (name: string, size: number) => {
+    const file = path.join(dir, "src", name);
+    fs.writeFileSync(file, Buffer.alloc(size));
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "cache-test-"));
+    fs.mkdirSync(path.join(dir, "src"));
+    cache = new ConversionCache({ dir: path.join(dir, "cache"), maxBytes: 250 });
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("serves copies and counts hits and misses", () => {
+    expect(cache.get("a")).toBeUndefined();
+    cache.put("a", pdf("a.pdf", 100), undefined, RESULT);
+
+    const entry = cache.get("a");
+    expect(entry?.verification.status).toBe("verified");
+    expect(fs.readFileSync(entry!.pdfPath)).toHaveLength(100);
+    expect(cache.getStats()).toMatchObject({ entries: 1, sizeBytes: 100, hits: 1, misses: 1 });
+  });
+
+  it("evicts the least recently used entry when full", () => {
+    cache.put("a", pdf("a.pdf", 100), undefined, RESULT);
+    cache.put("b", pdf("b.pdf", 100), undefined, RESULT);
+    cache.get("a"); // b is now the oldest
+    cache.put("c", pdf("c.pdf", 100), undefined, RESULT);
+
+    expect(cache.has("a")).toBe(true);
+    expect(cache.has("b")).toBe(false);
+    expect(cache.has("c")).toBe(true);
+    expect(fs.readdirSync(path.join(dir, "cache")).sort()).toEqual(["a.pdf", "c.pdf"]);
+  });
+
+  it("skips entries larger than the cap and purges everything", () => {
+    cache.put("big", pdf("big.pdf", 300), undefined, RESULT);
+    expect(cache.has("big")).toBe(false);
+
+    cache.put("a", pdf("a.pdf", 50), pdf("a.png", 20), RESULT);
+    expect(cache.purge()).toEqual({ entries: 1, sizeBytes: 70 });
+    expect(cache.getStats()).toMatchObject({ entries: 0, sizeBytes: 0 });
+    expect(fs.readdirSync(path.join(dir, "cache"))).toEqual([]);
+  });
+
+  it("deletes only its own leftover files on startup", () => {
+    const key = cacheKey(Buffer.from("PK deck bytes"), {});
+    const shared = path.join(dir, "shared");
+    fs.mkdirSync(shared);
+    for (const name of [`${key}.pdf`, `${key}.thumb.png`, "notes.txt", "a.pdf"]) {
+      fs.writeFileSync(path.join(shared, name), "x");
+    }
+
+    new ConversionCache({ dir: shared, maxBytes: 250 });
+    expect(fs.readdirSync(shared).sort()).toEqual(["a.pdf", "notes.txt"]);
+  });
+
+  it("stores nothing when disabled", () => {
+    const disabled = new ConversionCache({ dir: path.join(dir, "off"), maxBytes: 0 });
+    disabled.put("a", pdf("a.pdf", 10), undefined, RESULT);
+    expect(disabled.get("a")).toBeUndefined();
+    expect(disabled.getStats().misses).toBe(0);
+  });
+});
@@ -0,0 +1,203 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { createHash } from "crypto";
+import { DEFAULT_SLIDES_PER_PAGE, type ConversionOptions, type FontSubstitutionReport } from "../schema";
+import { getFontSubstitutions } from "./fonts";
+import type { Verification } from "./verify";
+
+// ---------------------------------------------------------------------------
+// cache.ts — Content-addressed cache of converted PDFs
+//
+// The same lecture decks are uploaded again and again. Each converted PDF
+// is kept under the SHA-256 of the input bytes plus every option that
+// changes LibreOffice's output, so an identical upload is served without
+// starting soffice. Bounded by total size, least recently used out first.
+// The index lives in memory; entries left by a previous process are
+// deleted on startup.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface ConversionCacheOptions {
+  /** Directory holding the cached PDFs and thumbnails */
+  dir: string;
+  /** Total size cap in bytes; 0 disables the cache */
+  maxBytes: number;
+}
+
+function cacheOptionsFromEnv(): ConversionCacheOptions {
+  return {
+    dir: process.env.CONVERSION_CACHE_DIR ?? path.join(os.tmpdir(), "pptx-conversion-cache"),
+    maxBytes: parseInt(process.env.CONVERSION_CACHE_MAX_BYTES ?? String(512 * 1024 * 1024), 10),
+  };
+}
+
+/** Bump when the cached artifacts change shape so old keys never match */
+const CACHE_VERSION = 1;
+
+/** Names of the files put() writes: <sha256>.pdf and <sha256>.thumb.png */
+const CACHE_FILE_NAME = /^[0-9a-f]{64}\.(?:pdf|thumb\.png)$/;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What a conversion produced, minus the files themselves */
+export interface CachedConversion {
+  verification: Verification;
+  fontSubstitutions?: FontSubstitutionReport[];
+}
+
+export interface CacheEntry extends CachedConversion {
+  pdfPath: string;
+  thumbnailPath?: string;
+  sizeBytes: number;
+}
+
+export interface ConversionCacheStats {
+  entries: number;
+  sizeBytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+}
+
+// ---------------------------------------------------------------------------
+// Key
+// ---------------------------------------------------------------------------
+
+/**
+ * SHA-256 over the input bytes and the options that shape the PDF, with
+ * defaults filled in so "omitted" and "default" share an entry. Output
+ * format, image width and merging are applied to the cached PDF afterwards
+ * and are not part of the key; the font replacement table is.
+ */
+export function cacheKey(input: Buffer, options: Partial<ConversionOptions>): string {
+  const effective = {
+    version: CACHE_VERSION,
+    profile: options.profile ?? "default",
+    pageRange: options.pageRange?.replace(/\s+/g, "") ?? null,
+    includeHiddenSlides: options.includeHiddenSlides ?? false,
+    layout: options.layout ?? "slides",
+    slidesPerPage: options.layout === "handout" ? options.slidesPerPage ?? DEFAULT_SLIDES_PER_PAGE : null,
+    fonts: getFontSubstitutions(),
+  };
+  return createHash("sha256").update(input).update(JSON.stringify(effective)).digest("hex");
+}
+
+// ---------------------------------------------------------------------------
+// ConversionCache
+// ---------------------------------------------------------------------------
+
+export class ConversionCache {
+  /** Map order is recency order: first = least recently used */
+  private readonly entries = new Map<string, CacheEntry>();
+  private sizeBytes = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly options: ConversionCacheOptions) {
+    this._removeStale();
+  }
+
+  get enabled(): boolean {
+    return this.options.maxBytes > 0;
+  }
+
+  /** Whether `key` is cached — does not count as a hit or refresh recency */
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  /** Looks `key` up, counting a hit or miss; a hit becomes most recently used */
+  get(key: string): CacheEntry | undefined {
+    if (!this.enabled) return undefined;
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Copies a finished conversion into the cache and evicts least recently
+   * used entries until it fits. Entries larger than the whole cap are skipped.
+   */
+  put(key: string, pdfPath: string, thumbnailPath: string | undefined, result: CachedConversion): void {
+    if (!this.enabled || this.entries.has(key)) return;
+
+    const sizeBytes =
+      fs.statSync(pdfPath).size + (thumbnailPath ? fs.statSync(thumbnailPath).size : 0);
+    if (sizeBytes > this.options.maxBytes) return;
+
+    while (this.sizeBytes + sizeBytes > this.options.maxBytes) {
+      const oldest = this.entries.keys().next().value as string;
+      this._remove(oldest);
+    }
+
+    fs.mkdirSync(this.options.dir, { recursive: true });
+    const entry: CacheEntry = { ...result, pdfPath: path.join(this.options.dir, `${key}.pdf`), sizeBytes };
+    fs.copyFileSync(pdfPath, entry.pdfPath);
+    if (thumbnailPath) {
+      entry.thumbnailPath = path.join(this.options.dir, `${key}.thumb.png`);
+      fs.copyFileSync(thumbnailPath, entry.thumbnailPath);
+    }
+    this.entries.set(key, entry);
+    this.sizeBytes += sizeBytes;
+  }
+
+  /** Drops every entry; returns what was freed */
+  purge(): { entries: number; sizeBytes: number } {
+    const freed = { entries: this.entries.size, sizeBytes: this.sizeBytes };
+    Array.from(this.entries.keys()).forEach((key) => this._remove(key));
+    return freed;
+  }
+
+  getStats(): ConversionCacheStats {
+    return {
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      maxBytes: this.options.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal
+  // -------------------------------------------------------------------------
+
+  /**
+   * Entries from a previous process have no index — start empty. Only files
+   * named like our own entries are deleted: CONVERSION_CACHE_DIR may point
+   * at a directory that holds other things too.
+   */
+  private _removeStale(): void {
+    if (!fs.existsSync(this.options.dir)) return;
+    for (const fileName of fs.readdirSync(this.options.dir)) {
+      if (CACHE_FILE_NAME.test(fileName)) fs.rmSync(path.join(this.options.dir, fileName), { force: true });
+    }
+  }
+
+  private _remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.sizeBytes -= entry.sizeBytes;
+    fs.rmSync(entry.pdfPath, { force: true });
+    if (entry.thumbnailPath) fs.rmSync(entry.thumbnailPath, { force: true });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared instance
+// ---------------------------------------------------------------------------
+
+export const conversionCache = new ConversionCache(cacheOptionsFromEnv());
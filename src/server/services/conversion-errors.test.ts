@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { CONVERSION_ERROR_CODES } from "../schema";
+import { CONVERSION_ERROR_MESSAGES, ConversionError, checkUploadFormat, classifyConversionError } from "./conversion-errors";
+import { ConversionCancelledError, ConversionTimeoutError } from "./soffice";
+import { InvalidPdfError } from "./verify";
+import { buildCompoundFile } from "./__fixtures__/compound-file";
+
+describe("classifyConversionError", () => {
+  it("maps known failures onto stable codes", () => {
+    const enoent = Object.assign(new Error("spawn soffice ENOENT"), { code: "ENOENT" });
+    expect(classifyConversionError(new ConversionTimeoutError(60_000)).code).toBe("timeout");
+    expect(classifyConversionError(new ConversionCancelledError()).code).toBe("cancelled");
+    expect(classifyConversionError(new InvalidPdfError("empty")).code).toBe("invalid_output");
+    expect(classifyConversionError(enoent).code).toBe("soffice_missing");
+    expect(classifyConversionError(new Error("soffice produced no output: no diagnostics")).code).toBe("corrupt_file");
+    expect(classifyConversionError(new Error("soffice exited with code 134: Aborted")).code).toBe("soffice_crashed");
+    expect(classifyConversionError("something else").code).toBe("unknown");
+  });
+
+  it("keeps coded errors and the original detail", () => {
+    const coded = new ConversionError("password_protected");
+    expect(classifyConversionError(coded)).toBe(coded);
+    expect(classifyConversionError(new Error("soffice exited with code 1: boom")).message).toContain("boom");
+  });
+});
+
+describe("checkUploadFormat", () => {
+  const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0, 0, 0, 0]);
+
+  it("rejects other extensions and content that does not match the extension", () => {
+    expect(checkUploadFormat("notes.docx", zip)?.code).toBe("unsupported_format");
+    expect(checkUploadFormat("deck.pptx", Buffer.from("#!/bin/sh\nrm -rf /"))?.code).toBe("unsupported_format");
+    expect(checkUploadFormat("old.ppt", zip)?.code).toBe("unsupported_format");
+  });
+
+  it("accepts matching presentations and encrypted OOXML in its OLE container", () => {
+    expect(checkUploadFormat("deck.pptx", zip)).toBeUndefined();
+    const encrypted = buildCompoundFile({ EncryptionInfo: Buffer.alloc(8), EncryptedPackage: Buffer.alloc(64) });
+    expect(checkUploadFormat("locked.pptx", encrypted)).toBeUndefined();
+  });
+});
+
+describe("CONVERSION_ERROR_MESSAGES", () => {
+  it("has a Turkish and an English message for every code", () => {
+    for (const code of CONVERSION_ERROR_CODES) {
+      expect(CONVERSION_ERROR_MESSAGES[code].tr).not.toBe("");
+      expect(CONVERSION_ERROR_MESSAGES[code].en).not.toBe("");
+    }
+  });
+});
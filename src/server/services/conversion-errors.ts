@@ -0,0 +1,126 @@
+import type { ConversionErrorCode } from "../schema";
+import { isSupportedPresentation, matchesSignature } from "../formats";
+import { isEncryptedPresentation } from "./presentation";
+import { ConversionCancelledError, ConversionTimeoutError } from "./soffice";
+import { InvalidPdfError } from "./verify";
+
+// ---------------------------------------------------------------------------
+// conversion-errors.ts — Why a file could not be converted
+//
+// Every per-file failure is reduced to one stable code (see
+// CONVERSION_ERROR_CODES in schema.ts) that clients can switch on, with a
+// fixed Turkish and English explanation. The underlying error text is kept
+// as `detail` for the logs and is only ever exposed sanitised.
+// ---------------------------------------------------------------------------
+
+export interface LocalizedMessage {
+  tr: string;
+  en: string;
+}
+
+export const CONVERSION_ERROR_MESSAGES: Record<ConversionErrorCode, LocalizedMessage> = {
+  corrupt_file: {
+    tr: "Dosya bozuk veya LibreOffice tarafından açılamadı.",
+    en: "The file is damaged or could not be opened by LibreOffice.",
+  },
+  password_protected: {
+    tr: "Sunum parola korumalı; parola olmadan dönüştürülemez.",
+    en: "The presentation is password-protected and cannot be converted without its password.",
+  },
+  password_incorrect: {
+    tr: "Sunumun parolası yanlış.",
+    en: "The password for the presentation is incorrect.",
+  },
+  unsupported_format: {
+    tr: "Dosya içeriği desteklenen bir sunum biçimi değil.",
+    en: "The file content is not a supported presentation format.",
+  },
+  timeout: {
+    tr: "Dönüştürme zaman aşımına uğradı; sunum çok karmaşık veya hasarlı olabilir.",
+    en: "The conversion timed out; the presentation may be too complex or damaged.",
+  },
+  soffice_missing: {
+    tr: "Sunucuda LibreOffice kurulu değil.",
+    en: "LibreOffice is not installed on the server.",
+  },
+  soffice_crashed: {
+    tr: "LibreOffice dönüştürme sırasında çöktü.",
+    en: "LibreOffice crashed during the conversion.",
+  },
+  invalid_output: {
+    tr: "LibreOffice boş veya okunamayan bir PDF üretti.",
+    en: "LibreOffice produced an empty or unreadable PDF.",
+  },
+  output_too_large: {
+    tr: "Oluşan çıktı izin verilen boyutu aşıyor.",
+    en: "The output exceeds the maximum allowed size.",
+  },
+  cancelled: {
+    tr: "Dönüştürme kullanıcı tarafından iptal edildi.",
+    en: "The conversion was cancelled by the user.",
+  },
+  render_failed: {
+    tr: "Slayt görüntüleri oluşturulamadı.",
+    en: "The slide images could not be rendered.",
+  },
+  unknown: {
+    tr: "Dönüştürme beklenmeyen bir hatayla başarısız oldu.",
+    en: "The conversion failed with an unexpected error.",
+  },
+};
+
+/**
+ * Failures a second attempt usually fixes: a soffice process that died
+ * (stale profile lock, crash on a cold start) or a PDF cut short by it.
+ * Corrupt, protected or slow decks fail the same way every time.
+ */
+export const TRANSIENT_ERROR_CODES: ReadonlySet<ConversionErrorCode> = new Set<ConversionErrorCode>([
+  "soffice_crashed",
+  "invalid_output",
+]);
+
+/** A failure with its stable code; `message` is the internal detail */
+export class ConversionError extends Error {
+  constructor(
+    public readonly code: ConversionErrorCode,
+    detail?: string
+  ) {
+    super(detail ?? CONVERSION_ERROR_MESSAGES[code].en);
+    this.name = "ConversionError";
+  }
+}
+
+/**
+ * Upload-time check, before anything is queued: a file whose extension is
+ * not a presentation, or whose content does not match its extension (a
+ * renamed script), is "unsupported_format". An encrypted .pptx/.odp is an
+ * OLE container, not a ZIP — it is accepted as such.
+ */
+export function checkUploadFormat(fileName: string, buffer: Buffer): ConversionError | undefined {
+  if (!isSupportedPresentation(fileName)) {
+    return new ConversionError("unsupported_format", `Unsupported extension: ${fileName}`);
+  }
+  if (!isEncryptedPresentation(buffer) && !matchesSignature(fileName, buffer)) {
+    return new ConversionError("unsupported_format", `Content does not match the extension: ${fileName}`);
+  }
+  return undefined;
+}
+
+/** soffice could not load the source — it exits 0 without writing anything */
+const NO_OUTPUT = /soffice produced no output/;
+/** Non-zero exit or death by signal */
+const CRASHED = /soffice exited with code/;
+
+/** Maps anything thrown during a conversion onto the taxonomy */
+export function classifyConversionError(err: unknown): ConversionError {
+  if (err instanceof ConversionError) return err;
+  const detail = String((err as Error)?.message ?? err);
+  if (err instanceof ConversionTimeoutError) return new ConversionError("timeout", detail);
+  if (err instanceof ConversionCancelledError) return new ConversionError("cancelled", detail);
+  if (err instanceof InvalidPdfError) return new ConversionError("invalid_output", detail);
+  // spawn() failed: no soffice binary at the resolved path
+  if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return new ConversionError("soffice_missing", detail);
+  if (NO_OUTPUT.test(detail)) return new ConversionError("corrupt_file", detail);
+  if (CRASHED.test(detail)) return new ConversionError("soffice_crashed", detail);
+  return new ConversionError("unknown", detail);
+}
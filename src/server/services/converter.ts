@@ -1,8 +1,24 @@
 import * as fs from "fs";
 import * as path from "path";
 import os from "os";
-
-const libre = require("libreoffice-convert");
+import {
+  DEFAULT_SLIDES_PER_PAGE,
+  type ConversionErrorCode,
+  type ConversionOptions,
+  type FontSubstitutionReport,
+  type PdfExportProfile,
+} from "../schema";
+import { getFormat, isSupportedPresentation } from "../formats";
+import { buildPdfFilter, getPdfExportOptions } from "./pdf-profiles";
+import { imposeHandout } from "./handout";
+import { isEncryptedPresentation, readSlideInfo } from "./presentation";
+import { inspectPresentation } from "./inspect";
+import { checkFonts } from "./fonts";
+import { verifyPdf, type Verification } from "./verify";
+import { sofficeConvert, type SofficeConvertOptions } from "./soffice";
+import { ConversionError, classifyConversionError } from "./conversion-errors";
+import { getSofficePool } from "./soffice-pool";
+import { profileSlots } from "./soffice-profiles";
 
 // MacOS için varsayılan LibreOffice yolu (Eğer brew veya DMG ile kurulduysa ve PATH'te yoksa)
 if (os.platform() === 'darwin' && !process.env.SOFFICE) {
@@ -12,14 +28,32 @@ if (os.platform() === 'darwin' && !process.env.SOFFICE) {
   }
 }
 
-// Deprecation uyarılarını önlemek için convert fonksiyonunu kendimiz Promise'a çeviriyoruz
-const libreConvertAsync = (input: Buffer, format: string, filter: any): Promise<Buffer> => {
-  return new Promise((resolve, reject) => {
-    libre.convert(input, format, filter, (err: Error, done: Buffer) => {
-      if (err) reject(err);
-      else resolve(done);
-    });
-  });
+// soffice'i kendi çalıştırıcımızla başlatıyoruz (bkz. soffice.ts): zaman aşımında
+// yalnızca başlatıcı betik değil, tüm süreç ağacı (soffice.bin dahil) öldürülür.
+// "spawn" arka ucunda her eş zamanlı dönüştürme kendi kullanıcı profilini ödünç alır
+// (bkz. soffice-profiles.ts) — paralel soffice süreçleri profil kilidinde çakışmaz.
+// Girdi dosyasının adı, LibreOffice'e doğru içe aktarma filtresini (--infilter) seçtirmek için kullanılır.
+// Parolalı sunumlar havuzdan geçemez (komut satırı parola taşıyamaz): her zaman kendi profil yuvasında açılır.
+// `signal` iptal edildiğinde (iş iptali) soffice süreç ağacı zaman aşımındaki gibi öldürülür.
+const libreConvertAsync = (
+  input: Buffer,
+  format: string,
+  filter: string | undefined,
+  inputName: string,
+  password?: string,
+  signal?: AbortSignal
+): Promise<Buffer> => {
+  const options: SofficeConvertOptions = {
+    format: format.replace(/^\./, ""),
+    filter,
+    importFilter: getFormat(inputName)?.importFilter,
+    timeoutMs: conversionTimeoutMs(input.length),
+    password,
+    signal,
+  };
+  return CONVERSION_BACKEND === "pool" && password === undefined
+    ? getSofficePool().convert(input, inputName, options)
+    : profileSlots.run((profileDir) => sofficeConvert(input, inputName, options, profileDir));
 };
 
 // -----------------------------------------------------------
@@ -35,9 +69,6 @@ const INPUT_DIR = path.resolve(process.cwd(), "girdiler");
 /** Çıktı klasörü — PDF dosyaları buraya kaydedilir */
 const OUTPUT_DIR = path.resolve(process.cwd(), "ciktilar");
 
-/** Desteklenen uzantılar */
-const SUPPORTED_EXTENSIONS = [".ppt", ".pptx"];
-
 /** LibreOffice çıktı formatı */
 const OUTPUT_FORMAT = ".pdf";
 
@@ -49,6 +80,34 @@ const OUTPUT_FORMAT = ".pdf";
  */
 const BATCH_SIZE = parseInt(process.env.BATCH_SIZE ?? "3", 10);
 
+/**
+ * Dönüştürme arka ucu:
+ *  - "spawn" (varsayılan): her dosya için yeni bir soffice süreci başlatılır.
+ *  - "pool": sıcak tutulan soffice örnekleri yeniden kullanılır (bkz. soffice-pool.ts);
+ *    küçük dosyalarda açılış maliyeti ortadan kalkar. Havuz boyutu SOFFICE_POOL_SIZE ile,
+ *    işçi başına yeniden başlatma eşiği SOFFICE_POOL_MAX_CONVERSIONS ile ayarlanır.
+ * Örnek: CONVERSION_BACKEND=pool SOFFICE_POOL_SIZE=2 npm start
+ */
+const CONVERSION_BACKEND: "spawn" | "pool" =
+  process.env.CONVERSION_BACKEND === "pool" ? "pool" : "spawn";
+
+/**
+ * Dosya başına dönüştürme zaman aşımı = taban süre + MB başına ek süre,
+ * üst sınırla kırpılır. Süre dolunca soffice süreç ağacı öldürülür ve
+ * dosya "timeout" nedeniyle başarısız sayılır; kuyruk bir sonrakine geçer.
+ * Örnek: CONVERSION_TIMEOUT_BASE_MS=30000 CONVERSION_TIMEOUT_PER_MB_MS=2000 npm start
+ */
+const TIMEOUT_BASE_MS   = parseInt(process.env.CONVERSION_TIMEOUT_BASE_MS ?? "60000", 10);
+const TIMEOUT_PER_MB_MS = parseInt(process.env.CONVERSION_TIMEOUT_PER_MB_MS ?? "5000", 10);
+const TIMEOUT_MAX_MS    = parseInt(process.env.CONVERSION_TIMEOUT_MAX_MS ?? "600000", 10);
+
+/**
+ * Dosya başına üretilebilecek en büyük PDF (bayt). Aşan çıktı diske yazılmaz,
+ * dosya "output_too_large" koduyla başarısız sayılır.
+ * Örnek: CONVERSION_MAX_OUTPUT_BYTES=209715200 npm start
+ */
+const MAX_OUTPUT_BYTES = parseInt(process.env.CONVERSION_MAX_OUTPUT_BYTES ?? String(500 * 1024 * 1024), 10);
+
 // -----------------------------------------------------------
 // LOGGER
 // -----------------------------------------------------------
@@ -73,6 +132,12 @@ const log = {
 // YARDIMCI FONKSİYONLAR
 // -----------------------------------------------------------
 
+/** Girdi boyutuna göre ölçeklenen zaman aşımı (ms) */
+export function conversionTimeoutMs(sizeBytes: number): number {
+  const sizeMb = sizeBytes / (1024 * 1024);
+  return Math.min(TIMEOUT_MAX_MS, Math.round(TIMEOUT_BASE_MS + sizeMb * TIMEOUT_PER_MB_MS));
+}
+
 /** Klasör yoksa oluşturur */
 export function ensureDir(dirPath: string): void {
   if (!fs.existsSync(dirPath)) {
@@ -82,13 +147,13 @@ export function ensureDir(dirPath: string): void {
 }
 
 /**
- * Klasördeki PPT/PPTX dosyalarını doğal alfasayısal sıraya göre döndürür.
+ * Klasördeki sunum dosyalarını (bkz. formats.ts) doğal alfasayısal sıraya göre döndürür.
  * "Ders 2" → "Ders 10" gibi sayısal sıralama doğru çalışır.
  */
 function getSortedPPTFiles(dirPath: string): string[] {
   return fs
     .readdirSync(dirPath)
-    .filter((f) => SUPPORTED_EXTENSIONS.includes(path.extname(f).toLowerCase()))
+    .filter((f) => isSupportedPresentation(f))
     .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" }));
 }
 
@@ -104,8 +169,32 @@ function chunk<T>(arr: T[], size: number): T[][] {
   return chunks;
 }
 
+/**
+ * Dönüştürme seçeneklerini LibreOffice `--convert-to` filtre dizesine çevirir:
+ * profilin filtre seçenekleri + (varsa) slayt aralığı, gizli slaytlar ve
+ * "notes" düzeni için not sayfaları. Bunlar yalnızca istendiğinde eklenir;
+ * böylece varsayılan dönüştürme eskisi gibi filtresiz kalır.
+ */
+function pdfFilterFor(options: Partial<ConversionOptions> = {}): string | undefined {
+  return buildPdfFilter({
+    ...getPdfExportOptions(options.profile ?? "default"),
+    ...(options.pageRange ? { PageRange: options.pageRange } : {}),
+    ...(options.includeHiddenSlides ? { ExportHiddenSlides: true } : {}),
+    ...(options.layout === "notes" ? { ExportNotesPages: true, ExportOnlyNotesPages: true } : {}),
+  });
+}
+
+/**
+ * LibreOffice'in ürettiği PDF'e düzene göre son işlem uygular:
+ * "handout" düzeninde slaytlar A4 sayfalara N'li dizilir (bkz. handout.ts).
+ */
+async function applyLayout(pdf: Buffer, options: Partial<ConversionOptions>): Promise<Buffer> {
+  if (options.layout !== "handout") return pdf;
+  return imposeHandout(pdf, options.slidesPerPage ?? DEFAULT_SLIDES_PER_PAGE);
+}
+
 /** Tek bir PPT/PPTX dosyasını PDF'e dönüştürür ve kaydeder */
-async function convertFile(fileName: string): Promise<void> {
+async function convertFile(fileName: string, profile: PdfExportProfile): Promise<void> {
   const inputPath  = path.join(INPUT_DIR, fileName);
   const baseName   = path.basename(fileName, path.extname(fileName));
   const outputPath = path.join(OUTPUT_DIR, `${baseName}${OUTPUT_FORMAT}`);
@@ -113,25 +202,73 @@ async function convertFile(fileName: string): Promise<void> {
   log.info(`   🔄 Başladı : ${fileName}`);
 
   const inputBuffer   = fs.readFileSync(inputPath);
-  const outputBuffer: Buffer = await libreConvertAsync(inputBuffer, OUTPUT_FORMAT, undefined);
+  const outputBuffer: Buffer = await libreConvertAsync(inputBuffer, OUTPUT_FORMAT, pdfFilterFor({ profile }), fileName);
   fs.writeFileSync(outputPath, outputBuffer);
 
   log.info(`   ✅ Bitti   : ${path.basename(outputPath)}`);
 }
 
-/** Yeni Web Yükleme servisi için isteğe bağlı (arbitrary) konumlardan dönüştürme yapar */
-export async function convertFileDirect(inputPath: string, outputPath: string): Promise<boolean> {
+/**
+ * convertFileDirect sonucu. Başarılı dönüştürmeler, PDF sayfa sayısının
+ * slayt sayısıyla karşılaştırıldığı doğrulama sonucunu (bkz. verify.ts) ve
+ * sunucuda bulunmayıp başka bir yazı tipiyle çizilen fontları (bkz. fonts.ts;
+ * fontconfig sorgulanamazsa undefined) taşır. Başarısızlıklar sabit bir hata
+ * kodu (bkz. conversion-errors.ts) ve iç ayrıntı (`error`, temizlenmemiş) taşır.
+ */
+export type FileConversionResult =
+  | { ok: true; verification: Verification; fontSubstitutions?: FontSubstitutionReport[] }
+  | { ok: false; code: ConversionErrorCode; error: string };
+
+/**
+ * Yeni Web Yükleme servisi için isteğe bağlı (arbitrary) konumlardan dönüştürme yapar.
+ * `password` yalnızca şifreli sunumlar için kullanılır; asla loglanmaz.
+ * `signal` iptal edilirse dönüştürme durdurulur ve dosya "cancelled" koduyla döner.
+ */
+export async function convertFileDirect(
+  inputPath: string,
+  outputPath: string,
+  options: Partial<ConversionOptions> = {},
+  password?: string,
+  signal?: AbortSignal
+): Promise<FileConversionResult> {
   const fileName = path.basename(inputPath);
   log.info(`   🔄 Başladı : ${fileName}`);
+  let encrypted = false;
   try {
     const inputBuffer = fs.readFileSync(inputPath);
-    const outputBuffer: Buffer = await libreConvertAsync(inputBuffer, OUTPUT_FORMAT, undefined);
+    // Parolasız şifreli sunumda LibreOffice parola bekleyip zaman aşımına düşer — hiç başlatma
+    encrypted = isEncryptedPresentation(inputBuffer);
+    if (encrypted && password === undefined) throw new ConversionError("password_protected");
+    const fontSubstitutions = await checkFonts(inspectPresentation(inputBuffer, fileName).fonts ?? []);
+    if (fontSubstitutions?.length) {
+      log.info(`   🔤 Yazı tipi [${fileName}]: ${fontSubstitutions.map((f) => `${f.font} → ${f.replacement ?? "?"}`).join(", ")}`);
+    }
+    const pdfBuffer: Buffer = await libreConvertAsync(
+      inputBuffer,
+      OUTPUT_FORMAT,
+      pdfFilterFor(options),
+      fileName,
+      encrypted ? password : undefined,
+      signal
+    );
+    // Yerleşimden önce: LibreOffice'in ham çıktısı slayt (veya not sayfası) başına bir sayfadır
+    const verification = await verifyPdf(pdfBuffer, readSlideInfo(inputBuffer, fileName), options);
+    if (verification.status === "mismatch") {
+      log.warn(`   ⚠️ Doğrulama [${fileName}]: ${verification.warnings.join(" ")}`);
+    }
+    const outputBuffer = await applyLayout(pdfBuffer, options);
+    if (outputBuffer.length > MAX_OUTPUT_BYTES) {
+      throw new ConversionError("output_too_large", `PDF is ${outputBuffer.length} bytes (limit ${MAX_OUTPUT_BYTES})`);
+    }
     fs.writeFileSync(outputPath, outputBuffer);
     log.info(`   ✅ Bitti   : ${fileName}`);
-    return true;
+    return { ok: true, verification, fontSubstitutions };
   } catch (err) {
-    log.error(`   ❌ Hata [${fileName}]: ${err}`);
-    return false;
+    let failure = classifyConversionError(err);
+    // Şifreli sunum parolayla da açılamadıysa sebep neredeyse her zaman yanlış paroladır
+    if (encrypted && failure.code === "corrupt_file") failure = new ConversionError("password_incorrect", failure.message);
+    log.error(`   ${failure.code === "timeout" ? "⏱️" : "❌"} Hata [${fileName}] (${failure.code}): ${failure.message}`);
+    return { ok: false, code: failure.code, error: failure.message };
   }
 }
 
@@ -154,7 +291,10 @@ export async function getFilesStatus(): Promise<{
   return { inputFiles, outputFiles };
 }
 
-export async function runConversion(batchSize: number = BATCH_SIZE): Promise<{
+export async function runConversion(
+  batchSize: number = BATCH_SIZE,
+  profile: PdfExportProfile = "default"
+): Promise<{
   success: number;
   failed: number;
   total: number;
@@ -177,7 +317,7 @@ export async function runConversion(batchSize: number = BATCH_SIZE): Promise<{
     const batch = batches[batchIndex];
 
     const results = await Promise.allSettled(
-      batch.map((file) => convertFile(file))
+      batch.map((file) => convertFile(file, profile))
     );
 
     results.forEach((result, idx) => {
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { ConversionEstimator } from "./estimator";
+
+const MB = 1024 * 1024;
+
+function estimator(windowSize = 50) {
+  return new ConversionEstimator({ windowSize, defaultSeconds: 30, throughputWindowMs: 10 * 60 * 1_000 });
+}
+
+describe("ConversionEstimator", () => {
+  it("falls back to the default before anything was recorded", () => {
+    expect(estimator().estimateSeconds({ bytes: 5 * MB, slides: 20 })).toBe(30);
+    expect(estimator().getStats()).toEqual({ samples: 0, averageSeconds: undefined, throughputPerMinute: 0 });
+  });
+
+  it("fits seconds by slide count, and by size when the slide count is unknown", () => {
+    const e = estimator();
+    // 2 s startup + 0.5 s per slide, i.e. 5 s per MB
+    e.record({ bytes: 1 * MB, slides: 10, seconds: 7 });
+    e.record({ bytes: 2 * MB, slides: 20, seconds: 12 });
+    e.record({ bytes: 4 * MB, slides: 40, seconds: 22 });
+
+    expect(e.estimateSeconds({ bytes: 100 * MB, slides: 30 })).toBeCloseTo(17);
+    expect(e.estimateSeconds({ bytes: 3 * MB })).toBeCloseTo(17);
+  });
+
+  it("only learns from the last conversions", () => {
+    const e = estimator(2);
+    e.record({ bytes: MB, slides: 10, seconds: 100 });
+    e.record({ bytes: MB, slides: 10, seconds: 10 });
+    e.record({ bytes: MB, slides: 10, seconds: 20 });
+
+    expect(e.estimateSeconds({ bytes: MB, slides: 10 })).toBe(15);
+    expect(e.getStats().averageSeconds).toBe(15);
+  });
+
+  it("reports throughput over the last ten minutes", () => {
+    const e = estimator();
+    const now = Date.now();
+    e.record({ bytes: MB, seconds: 5 }, now - 11 * 60 * 1_000);
+    for (let i = 0; i < 5; i++) e.record({ bytes: MB, seconds: 5 }, now - i * 1_000);
+
+    expect(e.getStats(now).throughputPerMinute).toBe(0.5);
+    expect(e.getStats(now).samples).toBe(6);
+  });
+});
@@ -0,0 +1,141 @@
+// ---------------------------------------------------------------------------
+// estimator.ts — How long conversions take, learned from the last ones
+//
+// Every soffice conversion is recorded with its input size and slide count.
+// Two rolling least-squares lines — seconds by slide count and seconds by
+// MB — predict the next file: slides when the format tells them, MB
+// otherwise. The queue sums these predictions into wait and remaining
+// times. Cache hits are not recorded; they take no soffice time at all.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface ConversionEstimatorOptions {
+  /** Conversions kept per model; older ones fall out */
+  windowSize: number;
+  /** Prediction before anything was recorded */
+  defaultSeconds: number;
+  /** Span over which throughput is averaged */
+  throughputWindowMs: number;
+}
+
+function estimatorOptionsFromEnv(): ConversionEstimatorOptions {
+  return {
+    windowSize: parseInt(process.env.ESTIMATOR_WINDOW_SIZE ?? "50", 10),
+    defaultSeconds: parseInt(process.env.ESTIMATOR_DEFAULT_SECONDS ?? "30", 10),
+    throughputWindowMs: 10 * 60 * 1_000,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What is known about an input before it is converted */
+export interface ConversionInput {
+  bytes: number;
+  /** Slide count, hidden slides included; undefined when the format does not tell */
+  slides?: number;
+}
+
+export interface ConversionSample extends ConversionInput {
+  seconds: number;
+}
+
+export interface ConversionEstimatorStats {
+  /** Conversions in the window */
+  samples: number;
+  /** Mean seconds per conversion in the window; undefined before the first */
+  averageSeconds?: number;
+  /** Conversions finished per minute, averaged over the throughput window */
+  throughputPerMinute: number;
+}
+
+// ---------------------------------------------------------------------------
+// RollingLine — least-squares seconds = a + b·x over the last N points
+// ---------------------------------------------------------------------------
+
+class RollingLine {
+  private points: Array<{ x: number; seconds: number }> = [];
+
+  constructor(private readonly windowSize: number) {}
+
+  add(x: number, seconds: number): void {
+    this.points.push({ x, seconds });
+    if (this.points.length > this.windowSize) this.points.shift();
+  }
+
+  /** Undefined while empty; the mean alone while every x is the same */
+  predict(x: number): number | undefined {
+    const n = this.points.length;
+    if (n === 0) return undefined;
+    const meanX = this.points.reduce((sum, p) => sum + p.x, 0) / n;
+    const meanSeconds = this.points.reduce((sum, p) => sum + p.seconds, 0) / n;
+    let covariance = 0;
+    let variance = 0;
+    for (const p of this.points) {
+      covariance += (p.x - meanX) * (p.seconds - meanSeconds);
+      variance += (p.x - meanX) ** 2;
+    }
+    // Bigger decks never convert faster — a negative slope is noise
+    const slope = variance > 0 ? Math.max(0, covariance / variance) : 0;
+    return Math.max(0, meanSeconds + slope * (x - meanX));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// ConversionEstimator
+// ---------------------------------------------------------------------------
+
+export class ConversionEstimator {
+  private readonly bySlides: RollingLine;
+  private readonly byMegabytes: RollingLine;
+  /** Durations of the last conversions */
+  private recent: number[] = [];
+  /** Finish times within the throughput window */
+  private finishedAt: number[] = [];
+
+  constructor(private readonly options: ConversionEstimatorOptions) {
+    this.bySlides = new RollingLine(options.windowSize);
+    this.byMegabytes = new RollingLine(options.windowSize);
+  }
+
+  /** Records a finished conversion */
+  record(sample: ConversionSample, at = Date.now()): void {
+    this.byMegabytes.add(sample.bytes / (1024 * 1024), sample.seconds);
+    if (sample.slides !== undefined) this.bySlides.add(sample.slides, sample.seconds);
+    this.recent.push(sample.seconds);
+    if (this.recent.length > this.options.windowSize) this.recent.shift();
+    this.finishedAt.push(at);
+    this._prune(at);
+  }
+
+  /** Predicted seconds to convert `input` */
+  estimateSeconds(input: ConversionInput): number {
+    const bySlides = input.slides !== undefined ? this.bySlides.predict(input.slides) : undefined;
+    return bySlides ?? this.byMegabytes.predict(input.bytes / (1024 * 1024)) ?? this.options.defaultSeconds;
+  }
+
+  getStats(now = Date.now()): ConversionEstimatorStats {
+    this._prune(now);
+    return {
+      samples: this.recent.length,
+      averageSeconds:
+        this.recent.length > 0 ? this.recent.reduce((sum, s) => sum + s, 0) / this.recent.length : undefined,
+      throughputPerMinute: this.finishedAt.length / (this.options.throughputWindowMs / 60_000),
+    };
+  }
+
+  private _prune(now: number): void {
+    const since = now - this.options.throughputWindowMs;
+    while (this.finishedAt.length > 0 && this.finishedAt[0] < since) this.finishedAt.shift();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared instance
+// ---------------------------------------------------------------------------
+
+export const conversionEstimator = new ConversionEstimator(estimatorOptionsFromEnv());
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { applyFontReplacementTable, parseFcListFamilies, substitutionReport } from "./fonts";
+import { FontSubstitutionTableSchema } from "../schema";
+
+const TABLE = [
+  { font: "Calibri", replacement: "Carlito" },
+  { font: "Corporate Sans", replacement: "Noto Sans" },
+];
+
+describe("parseFcListFamilies", () => {
+  it("splits localized family lists and unescapes dashes", () => {
+    const families = parseFcListFamilies("DejaVu Sans,DejaVu Sans Condensed\nNoto Sans\\-Light\n\n");
+    expect(Array.from(families)).toEqual(["dejavu sans", "dejavu sans condensed", "noto sans-light"]);
+  });
+});
+
+describe("substitutionReport", () => {
+  const available = new Set(["carlito", "noto sans", "liberation sans"]);
+  const match = async (font: string) => (font === "Segoe UI" ? "DejaVu Sans" : undefined);
+
+  it("reports table replacements and fontconfig fallbacks, not installed fonts", async () => {
+    const report = await substitutionReport(["calibri", "Liberation Sans", "Segoe UI", "Wingdings"], TABLE, available, match);
+    expect(report).toEqual([
+      { font: "calibri", replacement: "Carlito", source: "table" },
+      { font: "Segoe UI", replacement: "DejaVu Sans", source: "fontconfig" },
+      { font: "Wingdings", replacement: undefined, source: "fontconfig" },
+    ]);
+  });
+});
+
+describe("FontSubstitutionTableSchema", () => {
+  it("rejects a font replaced twice and control characters", () => {
+    expect(FontSubstitutionTableSchema.safeParse(TABLE).success).toBe(true);
+    expect(FontSubstitutionTableSchema.safeParse([...TABLE, { font: "CALIBRI", replacement: "Arial" }]).success).toBe(false);
+    expect(FontSubstitutionTableSchema.safeParse([{ font: "A\nB", replacement: "C" }]).success).toBe(false);
+  });
+});
+
+describe("applyFontReplacementTable", () => {
+  let profile: string;
+  const xcu = () => fs.readFileSync(path.join(profile, "user", "registrymodifications.xcu"), "utf8");
+
+  beforeEach(() => {
+    profile = fs.mkdtempSync(path.join(os.tmpdir(), "fonts-test-"));
+  });
+  afterEach(() => {
+    fs.rmSync(profile, { recursive: true, force: true });
+  });
+
+  it("seeds a fresh profile with the replacement table", () => {
+    applyFontReplacementTable(profile, [{ font: "R&D <Sans>", replacement: "Noto Sans" }]);
+    const written = xcu();
+    expect(written).toContain('<prop oor:name="Replacement" oor:op="fuse"><value>true</value></prop>');
+    expect(written).toContain("<value>R&amp;D &lt;Sans&gt;</value>");
+    expect(written).toContain('<prop oor:name="OnScreenOnly" oor:op="fuse"><value>false</value></prop>');
+  });
+
+  it("replaces the previous table and keeps unrelated settings", () => {
+    const user = path.join(profile, "user");
+    fs.mkdirSync(user);
+    fs.writeFileSync(
+      path.join(user, "registrymodifications.xcu"),
+      '<?xml version="1.0" encoding="UTF-8"?>\n<oor:items xmlns:oor="http://openoffice.org/2001/registry">\n' +
+        '<item oor:path="/org.openoffice.Setup/L10N"><prop oor:name="ooLocale" oor:op="fuse"><value>tr</value></prop></item>\n' +
+        '<item oor:path="/org.openoffice.Office.Common/Font/Substitution/FontPairs"><node oor:name="_0" oor:op="replace">' +
+        '<prop oor:name="ReplaceFont" oor:op="fuse"><value>Old Font</value></prop></node></item>\n</oor:items>\n'
+    );
+
+    applyFontReplacementTable(profile, TABLE);
+    const written = xcu();
+    expect(written).toContain("<value>tr</value>");
+    expect(written).not.toContain("Old Font");
+    expect(written.match(/FontPairs/g)).toHaveLength(2);
+
+    applyFontReplacementTable(profile, []);
+    expect(xcu()).not.toContain("FontPairs");
+    expect(xcu()).toContain("<value>false</value>");
+  });
+});
@@ -0,0 +1,232 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execFile } from "child_process";
+import {
+  FontSubstitutionTableSchema,
+  type FontSubstitution,
+  type FontSubstitutionReport,
+} from "../schema";
+
+// ---------------------------------------------------------------------------
+// fonts.ts — Missing-font detection and the font replacement table
+//
+// The image only ships droid/noto/liberation/dejavu (+ Carlito/Caladea), so
+// decks set in Calibri, Segoe or a corporate face are rendered with another
+// family and different metrics — text reflows, titles wrap. This module
+// compares the fonts a deck references against what fontconfig (and
+// therefore LibreOffice) can see, and maintains an admin-editable
+// substitution table that is written into every soffice profile as
+// LibreOffice's own font replacement table (Tools ▸ Options ▸ Fonts).
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** fontconfig binaries (Alpine: `fontconfig`, a LibreOffice dependency) */
+const FC_LIST = process.env.FC_LIST ?? "fc-list";
+const FC_MATCH = process.env.FC_MATCH ?? "fc-match";
+
+/** Where the admin-maintained table is persisted (JSON array of {font, replacement}) */
+const SUBSTITUTIONS_FILE =
+  process.env.FONT_SUBSTITUTIONS_FILE ?? path.resolve(process.cwd(), "font-substitutions.json");
+
+/**
+ * Used until an admin saves a table: the metric-compatible Chrome OS
+ * replacements for the Office defaults (installed in the Dockerfile).
+ */
+export const DEFAULT_FONT_SUBSTITUTIONS: FontSubstitution[] = [
+  { font: "Calibri", replacement: "Carlito" },
+  { font: "Cambria", replacement: "Caladea" },
+];
+
+// ---------------------------------------------------------------------------
+// Substitution table
+// ---------------------------------------------------------------------------
+
+let table: FontSubstitution[] | undefined;
+
+/** Current table — read from SUBSTITUTIONS_FILE once, defaults if absent or invalid */
+export function getFontSubstitutions(): FontSubstitution[] {
+  if (!table) {
+    table = DEFAULT_FONT_SUBSTITUTIONS;
+    try {
+      if (fs.existsSync(SUBSTITUTIONS_FILE)) {
+        const parsed = FontSubstitutionTableSchema.safeParse(
+          JSON.parse(fs.readFileSync(SUBSTITUTIONS_FILE, "utf8"))
+        );
+        if (parsed.success) table = parsed.data;
+        else console.error(`[Fonts] Ignoring invalid ${SUBSTITUTIONS_FILE}: ${parsed.error.issues[0]?.message}`);
+      }
+    } catch (err) {
+      console.error(`[Fonts] Could not read ${SUBSTITUTIONS_FILE}: ${(err as Error).message}`);
+    }
+  }
+  return table;
+}
+
+/**
+ * Replaces and persists the table. Spawned conversions pick it up on their
+ * next run; warm pool workers when they are next restarted.
+ */
+export function setFontSubstitutions(next: FontSubstitution[]): FontSubstitution[] {
+  const validated = FontSubstitutionTableSchema.parse(next);
+  fs.writeFileSync(SUBSTITUTIONS_FILE, JSON.stringify(validated, null, 2));
+  table = validated;
+  return validated;
+}
+
+// ---------------------------------------------------------------------------
+// LibreOffice configuration
+// ---------------------------------------------------------------------------
+
+const SUBSTITUTION_PATH = "/org.openoffice.Office.Common/Font/Substitution";
+
+const XCU_HEADER =
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<oor:items xmlns:oor="http://openoffice.org/2001/registry" ' +
+  'xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">\n';
+const XCU_FOOTER = "</oor:items>\n";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function prop(name: string, value: string | boolean): string {
+  return `<prop oor:name="${name}" oor:op="fuse"><value>${typeof value === "string" ? escapeXml(value) : value}</value></prop>`;
+}
+
+/**
+ * `<item>` entries enabling the replacement table with one "always, also
+ * when printing" pair per substitution — what the Fonts options page saves.
+ */
+export function fontReplacementItems(substitutions: FontSubstitution[]): string[] {
+  return [
+    `<item oor:path="${SUBSTITUTION_PATH}">${prop("Replacement", substitutions.length > 0)}</item>`,
+    ...substitutions.map(
+      (s, i) =>
+        `<item oor:path="${SUBSTITUTION_PATH}/FontPairs"><node oor:name="_${i}" oor:op="replace">` +
+        prop("Always", true) +
+        prop("OnScreenOnly", false) +
+        prop("ReplaceFont", s.font) +
+        prop("SubstituteFont", s.replacement) +
+        "</node></item>"
+    ),
+  ];
+}
+
+/**
+ * Writes the substitution table into a profile's registrymodifications.xcu,
+ * replacing whatever table was there and keeping every other setting.
+ * Creates the file for a fresh profile — LibreOffice adopts it on first start.
+ * Must not run while a soffice instance is using the profile.
+ */
+export function applyFontReplacementTable(
+  profileDir: string,
+  substitutions: FontSubstitution[] = getFontSubstitutions()
+): void {
+  const file = path.join(profileDir, "user", "registrymodifications.xcu");
+  const current = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+
+  const kept = current.includes("</oor:items>")
+    ? (current.match(/<item\b[^>]*\boor:path="[^"]*"[^>]*>[\s\S]*?<\/item>/g) ?? []).filter(
+        (item) => !item.includes(`oor:path="${SUBSTITUTION_PATH}`)
+      )
+    : [];
+  const next = XCU_HEADER + [...kept, ...fontReplacementItems(substitutions)].join("\n") + "\n" + XCU_FOOTER;
+
+  if (next === current) return;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, next);
+}
+
+// ---------------------------------------------------------------------------
+// fontconfig
+// ---------------------------------------------------------------------------
+
+const execFileAsync = (file: string, args: string[]): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: 10_000 }, (err, stdout) => {
+      if (err) reject(err);
+      else resolve(stdout);
+    });
+  });
+};
+
+/** Lower-cased family names from `fc-list : family` ("DejaVu Sans,DejaVu Sans Condensed" per line) */
+export function parseFcListFamilies(stdout: string): Set<string> {
+  const families = new Set<string>();
+  for (const line of stdout.split("\n")) {
+    for (const family of line.split(",")) {
+      const name = family.replace(/\\-/g, "-").trim().toLowerCase();
+      if (name) families.add(name);
+    }
+  }
+  return families;
+}
+
+let installed: Promise<Set<string> | undefined> | undefined;
+
+/** Installed families, listed once per process; undefined when fontconfig is unavailable */
+export function installedFonts(): Promise<Set<string> | undefined> {
+  installed ??= execFileAsync(FC_LIST, [":", "family"]).then(parseFcListFamilies, () => {
+    console.warn("[Fonts] fc-list unavailable — missing-font detection disabled");
+    return undefined;
+  });
+  return installed;
+}
+
+const matches = new Map<string, Promise<string | undefined>>();
+
+/** Family fontconfig falls back to for `font` (what LibreOffice will render with) */
+function fontconfigMatch(font: string): Promise<string | undefined> {
+  const key = font.toLowerCase();
+  let match = matches.get(key);
+  if (!match) {
+    match = execFileAsync(FC_MATCH, ["-f", "%{family[0]}", font]).then(
+      (stdout) => stdout.trim() || undefined,
+      () => undefined
+    );
+    matches.set(key, match);
+  }
+  return match;
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+/**
+ * Which of `fonts` are not rendered as themselves. Table entries always
+ * apply (LibreOffice replaces them even when installed); any other font
+ * fontconfig does not know falls back to its closest match.
+ */
+export async function substitutionReport(
+  fonts: string[],
+  substitutions: FontSubstitution[],
+  available: Set<string>,
+  match: (font: string) => Promise<string | undefined> = fontconfigMatch
+): Promise<FontSubstitutionReport[]> {
+  const byFont = new Map(substitutions.map((s) => [s.font.toLowerCase(), s.replacement]));
+  const report: FontSubstitutionReport[] = [];
+  for (const font of fonts) {
+    const replacement = byFont.get(font.toLowerCase());
+    if (replacement !== undefined) {
+      report.push({ font, replacement, source: "table" });
+    } else if (!available.has(font.toLowerCase())) {
+      report.push({ font, replacement: await match(font), source: "fontconfig" });
+    }
+  }
+  return report;
+}
+
+/** Substitutions for a deck's fonts; undefined when fontconfig cannot be queried */
+export async function checkFonts(fonts: string[]): Promise<FontSubstitutionReport[] | undefined> {
+  const available = await installedFonts();
+  if (!available) return undefined;
+  return substitutionReport(fonts, getFontSubstitutions(), available);
+}
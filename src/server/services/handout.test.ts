@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { imposeHandout } from "./handout";
+
+/** A one-slide-per-page deck export with 16:9 pages */
+async function deckPdf(slides: number): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < slides; i++) {
+    // Pages need a content stream to be embeddable, as real exports have
+    doc.addPage([960, 540]).drawRectangle({ x: 40, y: 40, width: 100, height: 60 });
+  }
+  return Buffer.from(await doc.save());
+}
+
+describe("imposeHandout", () => {
+  it.each([
+    [2, 5, 3],
+    [3, 5, 2],
+    [4, 8, 2],
+    [6, 7, 2],
+    [9, 9, 1],
+  ] as const)("%i per page: %i slides → %i A4 pages", async (perPage, slides, pages) => {
+    const handout = await PDFDocument.load(await imposeHandout(await deckPdf(slides), perPage));
+    expect(handout.getPageCount()).toBe(pages);
+    const { width, height } = handout.getPage(0).getSize();
+    expect(Math.round(width)).toBe(595);
+    expect(Math.round(height)).toBe(842);
+  });
+
+  it("rejects input that is not a PDF", async () => {
+    await expect(imposeHandout(Buffer.from("not a pdf"), 4)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,87 @@
+import { PDFDocument, rgb, type PDFPage } from "pdf-lib";
+import type { SlidesPerPage } from "../schema";
+
+// ---------------------------------------------------------------------------
+// handout.ts — "N slides per page" handouts imposed onto an exported PDF
+//
+// LibreOffice's PDF export has no handout mode for Impress, so the deck is
+// exported one slide per page and the pages are then placed, scaled down,
+// onto A4 sheets here. Slides stay vector: each one is embedded as a form
+// XObject, not rasterised.
+// ---------------------------------------------------------------------------
+
+/** A4 portrait in PDF points */
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 36;
+const GUTTER = 18;
+
+interface Grid {
+  cols: number;
+  rows: number;
+  /** Ruled lines next to each slide for handwritten notes (PowerPoint's 3-up) */
+  noteLines: boolean;
+}
+
+const GRIDS: Record<SlidesPerPage, Grid> = {
+  2: { cols: 1, rows: 2, noteLines: false },
+  3: { cols: 1, rows: 3, noteLines: true },
+  4: { cols: 2, rows: 2, noteLines: false },
+  6: { cols: 2, rows: 3, noteLines: false },
+  9: { cols: 3, rows: 3, noteLines: false },
+};
+
+const FRAME_COLOR = rgb(0.7, 0.7, 0.7);
+const LINE_SPACING = 22;
+
+/**
+ * Re-lays a one-slide-per-page PDF as a handout with `slidesPerPage` slides
+ * on each A4 page, in reading order (left to right, top to bottom).
+ */
+export async function imposeHandout(pdf: Buffer, slidesPerPage: SlidesPerPage): Promise<Buffer> {
+  const source = await PDFDocument.load(pdf);
+  const handout = await PDFDocument.create();
+  const grid = GRIDS[slidesPerPage];
+
+  const slides = await handout.embedPdf(source, source.getPageIndices());
+
+  const cellWidth = (PAGE_WIDTH - 2 * MARGIN - (grid.cols - 1) * GUTTER) / grid.cols;
+  const cellHeight = (PAGE_HEIGHT - 2 * MARGIN - (grid.rows - 1) * GUTTER) / grid.rows;
+  // With note lines the slide takes the left half of its cell
+  const slideBoxWidth = grid.noteLines ? (cellWidth - GUTTER) / 2 : cellWidth;
+
+  let page: PDFPage | undefined;
+  slides.forEach((slide, i) => {
+    const slot = i % slidesPerPage;
+    if (slot === 0) page = handout.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+
+    const col = slot % grid.cols;
+    const row = Math.floor(slot / grid.cols);
+    const cellX = MARGIN + col * (cellWidth + GUTTER);
+    const cellTop = PAGE_HEIGHT - MARGIN - row * (cellHeight + GUTTER);
+
+    // Fit the slide into its box, keeping the aspect ratio, top-aligned
+    const scale = Math.min(slideBoxWidth / slide.width, cellHeight / slide.height);
+    const width = slide.width * scale;
+    const height = slide.height * scale;
+    const x = cellX + (slideBoxWidth - width) / 2;
+    const y = cellTop - height;
+
+    page!.drawPage(slide, { x, y, width, height });
+    page!.drawRectangle({ x, y, width, height, borderColor: FRAME_COLOR, borderWidth: 0.5 });
+
+    if (grid.noteLines) {
+      const lineStart = cellX + slideBoxWidth + GUTTER;
+      for (let lineY = cellTop - LINE_SPACING; lineY > y; lineY -= LINE_SPACING) {
+        page!.drawLine({
+          start: { x: lineStart, y: lineY },
+          end: { x: cellX + cellWidth, y: lineY },
+          thickness: 0.5,
+          color: FRAME_COLOR,
+        });
+      }
+    }
+  });
+
+  return Buffer.from(await handout.save());
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect } from "vitest";
+import AdmZip from "adm-zip";
+import { NextRequest } from "next/server";
+import { inspectPresentation } from "./inspect";
+import { POST } from "../../app/api/inspect/route";
+import { antigravityRouter } from "../router";
+import { InspectionReportSchema } from "../schema";
+import { buildCompoundFile } from "./__fixtures__/compound-file";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+/** 16:9 widescreen deck: 2 slides (the second hidden), one image, a macro project */
+function pptx(): Buffer {
+  const zip = new AdmZip();
+  zip.addFile("[Content_Types].xml", Buffer.from("<Types/>"));
+  zip.addFile(
+    "ppt/presentation.xml",
+    Buffer.from(
+      '<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId3"/></p:sldIdLst>' +
+        '<p:sldSz cx="12192000" cy="6858000"/></p:presentation>'
+    )
+  );
+  zip.addFile(
+    "ppt/_rels/presentation.xml.rels",
+    Buffer.from(
+      '<Relationships><Relationship Id="rId2" Target="slides/slide1.xml"/>' +
+        '<Relationship Id="rId3" Target="slides/slide2.xml"/></Relationships>'
+    )
+  );
+  zip.addFile(
+    "ppt/slides/slide1.xml",
+    Buffer.from('<p:sld><a:rPr><a:latin typeface="Segoe UI"/><a:latin typeface="+mn-lt"/></a:rPr></p:sld>')
+  );
+  zip.addFile("ppt/slides/slide2.xml", Buffer.from('<p:sld show="0"/>'));
+  zip.addFile(
+    "ppt/theme/theme1.xml",
+    Buffer.from('<a:theme><a:majorFont><a:latin typeface="Calibri Light"/><a:ea typeface=""/></a:majorFont></a:theme>')
+  );
+  zip.addFile("ppt/media/image1.png", Buffer.alloc(2048));
+  zip.addFile("ppt/vbaProject.bin", Buffer.alloc(16));
+  zip.addFile(
+    "docProps/core.xml",
+    Buffer.from("<cp:coreProperties><dc:title>Ders 1 &amp; Giriş</dc:title><dc:creator>A. Yılmaz</dc:creator></cp:coreProperties>")
+  );
+  return zip.toBuffer();
+}
+
+/** PowerPoint binary record header + body */
+function record(verInstance: number, type: number, body: Buffer = Buffer.alloc(0)): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt16LE(verInstance, 0);
+  header.writeUInt16LE(type, 2);
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+/** 4:3 .ppt with one slide, one font and a VBA project */
+function ppt(): Buffer {
+  const documentAtom = Buffer.alloc(40);
+  documentAtom.writeInt32LE(5760, 0); // 10 in
+  documentAtom.writeInt32LE(4320, 4); // 7.5 in
+  const face = Buffer.alloc(68);
+  face.write("Tahoma", 0, "utf16le");
+  const document = record(
+    0x000f,
+    0x03e8,
+    Buffer.concat([
+      record(0x0001, 0x03e9, documentAtom),
+      record(0x000f, 0x03f2, record(0x000f, 0x07d5, record(0x0000, 0x0fb7, face))),
+      record(0x000f, 0x0ff0, record(0x0000, 0x03f3, Buffer.alloc(20))),
+      record(0x000f, 0x03ff),
+    ])
+  );
+  return buildCompoundFile({ "PowerPoint Document": document });
+}
+
+// ---------------------------------------------------------------------------
+
+describe("inspectPresentation", () => {
+  it("reports OOXML structure, metadata, media, fonts and macros", () => {
+    const report = inspectPresentation(pptx(), "Ders1.pptx");
+    expect(report).toMatchObject({
+      format: ".pptx",
+      slideCount: 2,
+      hiddenSlides: [2],
+      slideSize: { widthMm: 338.7, heightMm: 190.5, orientation: "landscape" },
+      title: "Ders 1 & Giriş",
+      author: "A. Yılmaz",
+      media: [{ name: "image1.png", sizeBytes: 2048 }],
+      fonts: ["Calibri Light", "Segoe UI"],
+      encrypted: false,
+      macroEnabled: true,
+    });
+    expect(report.warnings.some((w) => /hidden slide/.test(w))).toBe(true);
+    expect(report.warnings.some((w) => /macros/.test(w))).toBe(true);
+    expect(InspectionReportSchema.safeParse(report).success).toBe(true);
+  });
+
+  it("reports ODP page size, metadata and font faces", () => {
+    const zip = new AdmZip();
+    zip.addFile(
+      "styles.xml",
+      Buffer.from(
+        '<office:document-styles><style:font-face style:name="Liberation Sans" svg:font-family="&apos;Liberation Sans&apos;"/>' +
+          '<style:page-layout-properties fo:page-width="21cm" fo:page-height="29.7cm"/></office:document-styles>'
+      )
+    );
+    zip.addFile(
+      "content.xml",
+      Buffer.from(
+        "<office:presentation><draw:page>" +
+          '<presentation:notes><draw:page-thumbnail draw:page-number="1"/></presentation:notes>' +
+          "</draw:page></office:presentation>"
+      )
+    );
+    zip.addFile("meta.xml", Buffer.from("<office:meta><meta:initial-creator>Ayşe</meta:initial-creator></office:meta>"));
+    zip.addFile("Pictures/photo.jpg", Buffer.alloc(100));
+
+    expect(inspectPresentation(zip.toBuffer(), "poster.odp")).toMatchObject({
+      slideCount: 1,
+      slideSize: { widthMm: 210, heightMm: 297, orientation: "portrait" },
+      author: "Ayşe",
+      fonts: ["Liberation Sans"],
+      media: [{ name: "photo.jpg", sizeBytes: 100 }],
+      macroEnabled: false,
+    });
+  });
+
+  it("reads legacy .ppt records", () => {
+    expect(inspectPresentation(ppt(), "old.ppt")).toMatchObject({
+      slideCount: 1,
+      slideSize: { widthMm: 254, heightMm: 190.5, orientation: "landscape" },
+      fonts: ["Tahoma"],
+      macroEnabled: true,
+    });
+  });
+
+  it("only reports encryption for password-protected decks", () => {
+    const encrypted = buildCompoundFile({ EncryptionInfo: Buffer.alloc(8), EncryptedPackage: Buffer.alloc(64) });
+    const report = inspectPresentation(encrypted, "secret.pptx");
+    expect(report.encrypted).toBe(true);
+    expect(report.slideCount).toBeUndefined();
+    expect(report.warnings[0]).toMatch(/password-protected/);
+  });
+
+  it("flags content that does not match the extension", () => {
+    const report = inspectPresentation(Buffer.from("#!/bin/sh\nrm -rf /"), "deck.pptx");
+    expect(report.encrypted).toBe(false);
+    expect(report.warnings[0]).toMatch(/not a valid \.pptx/);
+  });
+});
+
+describe("inspection uploads", () => {
+  const form = (...files: Array<[string, Buffer]>) => {
+    const data = new FormData();
+    for (const [name, buffer] of files) data.append("file", new File([new Uint8Array(buffer)], name));
+    return data;
+  };
+  const script = Buffer.from("#!/bin/sh\nrm -rf /");
+
+  it("rejects unsupported or misnamed files on /api/inspect like /api/convert", async () => {
+    for (const rejected of [["notes.txt", Buffer.from("hi")], ["deck.pptx", script]] as Array<[string, Buffer]>) {
+      const req = new NextRequest("http://localhost/api/inspect", {
+        method: "POST",
+        body: form(["Ders1.pptx", pptx()], rejected),
+      });
+      const res = await POST(req);
+      expect(res.status).toBe(415);
+      expect(await res.json()).toMatchObject({ code: "unsupported_format", file: rejected[0] });
+    }
+  });
+
+  it("rejects them in inspectPresentations too", async () => {
+    const caller = antigravityRouter.createCaller({ ip: "127.0.0.1", userAgent: "", isAuthenticated: false });
+    await expect(caller.inspectPresentations(form(["notes.txt", Buffer.from("hi")]))).rejects.toMatchObject({
+      code: "UNSUPPORTED_MEDIA_TYPE",
+      cause: { code: "unsupported_format" },
+    });
+    const { files } = await caller.inspectPresentations(form(["Ders1.pptx", pptx()]));
+    expect(files.map((f) => f.name)).toEqual(["Ders1.pptx"]);
+  });
+});
@@ -0,0 +1,298 @@
+import * as path from "path";
+import type AdmZip from "adm-zip";
+import { getFormat, matchesSignature } from "../formats";
+import type { InspectionReport, SlideSize } from "../schema";
+import { CompoundFile } from "./ole";
+import {
+  RT_DOCUMENT,
+  attr,
+  decodeXml,
+  isEncryptedPresentation,
+  openZip,
+  pptRecords,
+  readPart,
+  readPptStream,
+  readSlideInfo,
+} from "./presentation";
+
+// ---------------------------------------------------------------------------
+// inspect.ts — Dry-run report of an uploaded deck (POST /api/inspect)
+//
+// Everything here is read straight from the package (see presentation.ts);
+// no LibreOffice process is started, so inspecting costs no queue time.
+// ---------------------------------------------------------------------------
+
+/** Embedded media above this total gets a warning — it dominates conversion time */
+const LARGE_MEDIA_BYTES = 25 * 1024 * 1024;
+
+type Metadata = Omit<InspectionReport, "name" | "sizeBytes" | "format" | "encrypted" | "warnings">;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Text content of the first `<tag>…</tag>`, trimmed; undefined when absent or empty */
+function elementText(xml: string | undefined, tag: string): string | undefined {
+  const match = xml ? new RegExp(`<${tag}\\b[^>]*>([^<]*)</${tag}>`).exec(xml) : null;
+  const text = match ? decodeXml(match[1]).trim() : "";
+  return text || undefined;
+}
+
+function slideSize(widthMm: number, heightMm: number): SlideSize | undefined {
+  if (!(widthMm > 0 && heightMm > 0)) return undefined;
+  const round = (mm: number) => Math.round(mm * 10) / 10;
+  const orientation = widthMm > heightMm ? "landscape" : widthMm < heightMm ? "portrait" : "square";
+  return { widthMm: round(widthMm), heightMm: round(heightMm), orientation };
+}
+
+/** Sizes of package entries under any of `folders` (uncompressed) */
+function mediaEntries(zip: AdmZip, folders: string[]): NonNullable<Metadata["media"]> {
+  return zip
+    .getEntries()
+    .filter((e) => !e.isDirectory && folders.some((f) => e.entryName.startsWith(f)))
+    .map((e) => ({ name: path.posix.basename(e.entryName), sizeBytes: e.header.size }));
+}
+
+function sortedUnique(values: Iterable<string>): string[] {
+  return Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+}
+
+// ---------------------------------------------------------------------------
+// Per-format readers
+// ---------------------------------------------------------------------------
+
+/** 1 mm = 36 000 EMU (English Metric Units) */
+const EMU_PER_MM = 36_000;
+
+function inspectOoxml(zip: AdmZip): Metadata {
+  const presentation = readPart(zip, "ppt/presentation.xml");
+  const sldSz = presentation ? /<p:sldSz\b[^>]*>/.exec(presentation)?.[0] : undefined;
+  const core = readPart(zip, "docProps/core.xml");
+
+  // Theme fonts, master/layout overrides and direct formatting on slides.
+  // "+mj-lt" style names are references to the theme, not typefaces.
+  const fonts: string[] = [];
+  for (const entry of zip.getEntries()) {
+    if (!/^ppt\/(theme|slideMasters|slideLayouts|slides)\/[^/]+\.xml$/.test(entry.entryName)) continue;
+    const xml = entry.getData().toString("utf8");
+    for (const m of xml.matchAll(/<a:(?:latin|ea|cs|sym)\b[^>]*\btypeface="([^"]*)"/g)) {
+      const face = decodeXml(m[1]).trim();
+      if (face && !face.startsWith("+")) fonts.push(face);
+    }
+  }
+
+  const contentTypes = readPart(zip, "[Content_Types].xml") ?? "";
+  return {
+    slideSize: sldSz
+      ? slideSize(Number(attr(sldSz, "cx")) / EMU_PER_MM, Number(attr(sldSz, "cy")) / EMU_PER_MM)
+      : undefined,
+    title: elementText(core, "dc:title"),
+    author: elementText(core, "dc:creator"),
+    media: mediaEntries(zip, ["ppt/media/"]),
+    fonts: sortedUnique(fonts),
+    macroEnabled: !!zip.getEntry("ppt/vbaProject.bin") || /macroEnabled/i.test(contentTypes),
+  };
+}
+
+/** ODF length ("28cm", "11in", "792pt") in millimetres */
+function odfLengthMm(value: string | undefined): number {
+  const match = /^([\d.]+)(cm|mm|in|pt|pc)$/.exec(value ?? "");
+  if (!match) return NaN;
+  const mmPer: Record<string, number> = { mm: 1, cm: 10, in: 25.4, pt: 25.4 / 72, pc: 25.4 / 6 };
+  return parseFloat(match[1]) * mmPer[match[2]];
+}
+
+function inspectOdp(zip: AdmZip): Metadata {
+  const styles = readPart(zip, "styles.xml") ?? "";
+  const content = readPart(zip, "content.xml") ?? "";
+  const meta = readPart(zip, "meta.xml");
+  const layout = /<style:page-layout-properties\b[^>]*>/.exec(styles)?.[0];
+
+  const fonts: string[] = [];
+  for (const m of `${styles}${content}`.matchAll(/<style:font-face\b[^>]*\bsvg:font-family="([^"]*)"/g)) {
+    const face = decodeXml(m[1]).replace(/^'(.*)'$/, "$1").trim();
+    if (face) fonts.push(face);
+  }
+
+  return {
+    slideSize: layout
+      ? slideSize(odfLengthMm(attr(layout, "fo:page-width")), odfLengthMm(attr(layout, "fo:page-height")))
+      : undefined,
+    title: elementText(meta, "dc:title"),
+    author: elementText(meta, "meta:initial-creator") ?? elementText(meta, "dc:creator"),
+    media: mediaEntries(zip, ["Pictures/", "Media/"]),
+    fonts: sortedUnique(fonts),
+    // Basic library modules (script-lb.xml / script-lc.xml are just indexes)
+    macroEnabled: zip
+      .getEntries()
+      .some((e) => /^(Basic\/[^/]+\/(?!script-l[bc]\.xml)[^/]+\.xml|Scripts\/.+)$/.test(e.entryName)),
+  };
+}
+
+/** PowerPoint binary record types ([MS-PPT] 2.13.24) */
+const RT_DOCUMENT_ATOM = 0x03e9;
+const RT_ENVIRONMENT = 0x03f2;
+const RT_FONT_COLLECTION = 0x07d5;
+const RT_FONT_ENTITY_ATOM = 0x0fb7;
+const RT_VBA_INFO = 0x03ff;
+
+/** .ppt coordinates are "master units": 576 per inch */
+const MASTER_UNITS_PER_MM = 576 / 25.4;
+
+function inspectPpt(buffer: Buffer): Metadata {
+  const stream = readPptStream(buffer);
+  const result: Metadata = { macroEnabled: false };
+  if (!stream) return result;
+
+  const fonts: string[] = [];
+  for (const doc of pptRecords(stream, 0, stream.length)) {
+    if (doc.type !== RT_DOCUMENT) continue;
+    for (const child of pptRecords(stream, doc.bodyStart, doc.bodyEnd)) {
+      if (child.type === RT_DOCUMENT_ATOM && child.bodyEnd - child.bodyStart >= 8) {
+        result.slideSize = slideSize(
+          stream.readInt32LE(child.bodyStart) / MASTER_UNITS_PER_MM,
+          stream.readInt32LE(child.bodyStart + 4) / MASTER_UNITS_PER_MM
+        );
+      } else if (child.type === RT_VBA_INFO) {
+        result.macroEnabled = true;
+      } else if (child.type === RT_ENVIRONMENT) {
+        for (const collection of pptRecords(stream, child.bodyStart, child.bodyEnd)) {
+          if (collection.type !== RT_FONT_COLLECTION) continue;
+          for (const font of pptRecords(stream, collection.bodyStart, collection.bodyEnd)) {
+            if (font.type !== RT_FONT_ENTITY_ATOM) continue;
+            // lfFaceName: 32 UTF-16 code units, NUL-padded
+            const face = stream
+              .subarray(font.bodyStart, Math.min(font.bodyStart + 64, font.bodyEnd))
+              .toString("utf16le")
+              .replace(/\0[\s\S]*$/, "")
+              .trim();
+            if (face) fonts.push(face);
+          }
+        }
+      }
+    }
+  }
+  result.fonts = sortedUnique(fonts);
+
+  const summary = readSummaryInformation(buffer);
+  result.title = summary.title;
+  result.author = summary.author;
+  return result;
+}
+
+/** Property IDs and types of the OLE SummaryInformation property set */
+const PIDSI_CODEPAGE = 1;
+const PIDSI_TITLE = 2;
+const PIDSI_AUTHOR = 4;
+const VT_I2 = 0x02;
+const VT_LPSTR = 0x1e;
+
+/**
+ * Title and author from the "\x05SummaryInformation" stream ([MS-OLEPS]).
+ * Strings are stored in the file's ANSI code page (1254 for Turkish Office).
+ */
+function readSummaryInformation(buffer: Buffer): { title?: string; author?: string } {
+  try {
+    const stream = new CompoundFile(buffer).readStream("\u0005SummaryInformation");
+    if (!stream || stream.length < 48) return {};
+    const section = stream.readUInt32LE(44);
+    const count = stream.readUInt32LE(section + 4);
+
+    const props = new Map<number, number>();
+    for (let i = 0; i < count; i++) {
+      const entry = section + 8 + i * 8;
+      props.set(stream.readUInt32LE(entry), section + stream.readUInt32LE(entry + 4));
+    }
+
+    const codepageAt = props.get(PIDSI_CODEPAGE);
+    const codepage =
+      codepageAt !== undefined && stream.readUInt32LE(codepageAt) === VT_I2
+        ? stream.readUInt16LE(codepageAt + 4)
+        : 1252;
+    const decode = (bytes: Buffer): string => {
+      if (codepage === 1200) return bytes.toString("utf16le");
+      if (codepage === 65001) return bytes.toString("utf8");
+      try {
+        return new TextDecoder(`windows-${codepage}`).decode(bytes);
+      } catch {
+        return bytes.toString("latin1");
+      }
+    };
+    const text = (id: number): string | undefined => {
+      const at = props.get(id);
+      if (at === undefined || stream.readUInt32LE(at) !== VT_LPSTR) return undefined;
+      const length = stream.readUInt32LE(at + 4);
+      const value = decode(stream.subarray(at + 8, at + 8 + length)).replace(/\0[\s\S]*$/, "").trim();
+      return value || undefined;
+    };
+    return { title: text(PIDSI_TITLE), author: text(PIDSI_AUTHOR) };
+  } catch {
+    return {};
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Builds the inspection report for one uploaded file (extension already allow-listed) */
+export function inspectPresentation(buffer: Buffer, fileName: string): InspectionReport {
+  const format = getFormat(fileName);
+  const base = { name: fileName, sizeBytes: buffer.length, format: format?.extension ?? "" };
+
+  if (isEncryptedPresentation(buffer)) {
+    return {
+      ...base,
+      encrypted: true,
+      macroEnabled: false,
+      warnings: ["The presentation is password-protected; its contents cannot be inspected."],
+    };
+  }
+  if (!matchesSignature(fileName, buffer)) {
+    return {
+      ...base,
+      encrypted: false,
+      macroEnabled: false,
+      warnings: [`The file content is not a valid ${base.format} presentation.`],
+    };
+  }
+
+  let metadata: Metadata = { macroEnabled: false };
+  if (format?.signatures.includes("ole")) {
+    metadata = inspectPpt(buffer);
+  } else if (format?.extension !== ".key") {
+    const zip = openZip(buffer);
+    if (zip) metadata = format?.extension === ".odp" ? inspectOdp(zip) : inspectOoxml(zip);
+  }
+
+  const slides = readSlideInfo(buffer, fileName);
+  const report: InspectionReport = {
+    ...base,
+    ...metadata,
+    slideCount: slides?.count,
+    hiddenSlides: slides?.hidden,
+    encrypted: false,
+    warnings: [],
+  };
+
+  if (slides === undefined && format?.extension !== ".key") {
+    report.warnings.push("The slide list could not be read; the file may be damaged.");
+  } else if (slides?.count === 0) {
+    report.warnings.push("The presentation has no slides.");
+  }
+  if (report.hiddenSlides?.length) {
+    report.warnings.push(
+      `${report.hiddenSlides.length} hidden slide(s) are left out unless includeHiddenSlides is set.`
+    );
+  }
+  if (report.macroEnabled) {
+    report.warnings.push("The presentation contains macros; they are never run during conversion.");
+  }
+  const mediaBytes = (report.media ?? []).reduce((sum, m) => sum + m.sizeBytes, 0);
+  if (mediaBytes > LARGE_MEDIA_BYTES) {
+    report.warnings.push(
+      `Embedded media totals ${(mediaBytes / 1024 / 1024).toFixed(0)} MB and will slow conversion down.`
+    );
+  }
+  return report;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileJobStore, storedJob, type StoredJob } from "./job-store";
+import type { Job } from "./queue";
+
+function job(id: string, status: Job["status"] = "pending"): Job {
+  return {
+    id,
+    status,
+    client: "ip:127.0.0.1",
+    position: 1,
+    options: {},
+    inputs: ["Deck.pptx"],
+    cacheKeys: {},
+    encryptedInputs: ["Deck.pptx"],
+    sanitized: {},
+    unsanitized: {},
+    inputStats: {},
+    mediaBytes: 0,
+    _passwords: new Map([["Deck.pptx", "s3cret"]]),
+    tempDir: `/tmp/pptx-job-${id}`,
+    outputPaths: [],
+    files: [],
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("storedJob", () => {
+  it("leaves out passwords, timers and derived fields", () => {
+    const stored = storedJob({ ...job("a"), _cleanupTimer: setTimeout(() => {}, 0) });
+    expect(Object.keys(stored)).not.toContain("_passwords");
+    expect(Object.keys(stored)).not.toContain("_cleanupTimer");
+    expect(Object.keys(stored)).not.toContain("position");
+    expect(JSON.stringify(stored)).not.toContain("s3cret");
+  });
+
+  it("leaves out the slide text of converted files", () => {
+    const slides = [{ slide: 1, hidden: false, body: ["x".repeat(10_000)], tables: [], notes: [], hyperlinks: [] }];
+    const stored = storedJob({ ...job("a", "done"), files: [{ name: "Deck.pptx", status: "done", slides }] });
+    expect(stored.files).toEqual([{ name: "Deck.pptx", status: "done" }]);
+  });
+});
+
+describe("FileJobStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "job-store-test-"));
+    file = path.join(dir, "jobs.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const ids = (jobs: StoredJob[]) => jobs.map((j) => `${j.id}:${j.status}`);
+
+  it("replays puts and deletes in insertion order", () => {
+    const store = new FileJobStore(file);
+    expect(store.load()).toEqual([]);
+    store.put(storedJob(job("a")));
+    store.put(storedJob(job("b")));
+    store.put(storedJob(job("a", "running")));
+    store.put(storedJob(job("c")));
+    store.delete("b");
+
+    expect(ids(new FileJobStore(file).load())).toEqual(["a:running", "c:pending"]);
+  });
+
+  it("ignores a torn last line", () => {
+    const store = new FileJobStore(file);
+    store.put(storedJob(job("a")));
+    fs.appendFileSync(file, '{"op":"put","job":{"id":"b"');
+
+    expect(ids(new FileJobStore(file).load())).toEqual(["a:pending"]);
+  });
+
+  it("compacts the log to one record per live job", () => {
+    const store = new FileJobStore(file);
+    for (let i = 0; i < 70; i++) store.put(storedJob(job("a", i % 2 ? "running" : "pending")));
+    store.put(storedJob(job("b", "done")));
+
+    const lines = fs.readFileSync(file, "utf8").split("\n").filter(Boolean);
+    expect(lines.length).toBeLessThan(64);
+    expect(ids(new FileJobStore(file).load())).toEqual(["a:running", "b:done"]);
+  });
+});
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import type { Job, JobFileResult } from "./queue";
+
+// ---------------------------------------------------------------------------
+// job-store.ts — Where job metadata outlives the process
+//
+// The queue keeps its working set in memory and writes every state change
+// through a JobStore, so a deploy or crash can pick the jobs back up (see
+// ConversionQueue's constructor). The default store is an append-only JSON
+// Lines log: one `put` or `delete` record per change, replayed on startup
+// and compacted to one `put` per live job once it grows. Passwords, timers
+// and other in-memory-only fields are never written; neither is the slide
+// text of finished files, which would make every progress tick rewrite it
+// and is on disk as slides.json anyway.
+// ---------------------------------------------------------------------------
+
+/** A file's state as persisted — without its slide text */
+export type StoredFileResult = Omit<JobFileResult, "slides">;
+
+/** A job as persisted — everything but the in-memory-only fields and the slide text */
+export type StoredJob = Omit<Job, "_passwords" | "_cleanupTimer" | "_abort" | "position" | "retry" | "files"> & {
+  files: StoredFileResult[];
+};
+
+export interface JobStore {
+  /** Every stored job, in insertion order */
+  load(): StoredJob[];
+  /** Inserts or replaces the job */
+  put(job: StoredJob): void;
+  delete(id: string): void;
+}
+
+/** The persistable part of `job` */
+export function storedJob(job: Job): StoredJob {
+  const { _passwords, _cleanupTimer, _abort, position, retry, files, ...stored } = job;
+  return { ...stored, files: files.map(({ slides, ...file }) => file) };
+}
+
+// ---------------------------------------------------------------------------
+// Implementations
+// ---------------------------------------------------------------------------
+
+/** Keeps the jobs in a Map — they die with the process (JOB_STORE=memory) */
+export class MemoryJobStore implements JobStore {
+  private readonly jobs = new Map<string, StoredJob>();
+
+  load(): StoredJob[] {
+    return Array.from(this.jobs.values());
+  }
+
+  put(job: StoredJob): void {
+    // A copy, as if it had been written out: the queue keeps mutating its own
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  delete(id: string): void {
+    this.jobs.delete(id);
+  }
+}
+
+type LogRecord = { op: "put"; job: StoredJob } | { op: "delete"; id: string };
+
+/** Append-only JSON Lines log (JOB_STORE=file) */
+export class FileJobStore implements JobStore {
+  private readonly jobs = new Map<string, StoredJob>();
+  /** Records in the log file, live or superseded */
+  private records = 0;
+
+  constructor(
+    private readonly file: string,
+    /** Rewrite the log once it holds this many times more records than live jobs */
+    private readonly compactionRatio = 4
+  ) {}
+
+  load(): StoredJob[] {
+    this.jobs.clear();
+    let lines: string[] = [];
+    try {
+      lines = fs.readFileSync(this.file, "utf8").split("\n").filter(Boolean);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`[JobStore] Could not read ${this.file}: ${(err as Error).message}`);
+      }
+    }
+
+    for (const line of lines) {
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A crash mid-append leaves a torn last line — everything before it is intact
+        continue;
+      }
+      if (record.op === "put") this.jobs.set(record.job.id, record.job);
+      else if (record.op === "delete") this.jobs.delete(record.id);
+    }
+    this.records = lines.length;
+    this._compactIfNeeded();
+    return Array.from(this.jobs.values());
+  }
+
+  put(job: StoredJob): void {
+    // Re-inserting keeps the original position: Map order is queue order
+    this.jobs.set(job.id, job);
+    this._append({ op: "put", job });
+  }
+
+  delete(id: string): void {
+    if (!this.jobs.delete(id)) return;
+    this._append({ op: "delete", id });
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal
+  // -------------------------------------------------------------------------
+
+  private _append(record: LogRecord): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.appendFileSync(this.file, JSON.stringify(record) + "\n");
+    this.records++;
+    this._compactIfNeeded();
+  }
+
+  /** Replaces the log with one `put` per live job (write + rename, so a crash keeps the old log) */
+  private _compactIfNeeded(): void {
+    if (this.records < Math.max(64, this.jobs.size * this.compactionRatio)) return;
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    const lines = Array.from(this.jobs.values()).map((job) => JSON.stringify({ op: "put", job }) + "\n");
+    fs.writeFileSync(tmp, lines.join(""));
+    fs.renameSync(tmp, this.file);
+    this.records = lines.length;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * JOB_STORE=file (default) logs to JOB_STORE_FILE, next to the job temp
+ * dirs by default — the store is only useful while those survive too.
+ */
+export function jobStoreFromEnv(): JobStore {
+  if (process.env.JOB_STORE === "memory") return new MemoryJobStore();
+  return new FileJobStore(process.env.JOB_STORE_FILE ?? path.join(os.tmpdir(), "pptx-jobs.jsonl"));
+}
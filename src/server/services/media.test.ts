@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import AdmZip from "adm-zip";
+import { extractMedia } from "./media";
+
+// ---------------------------------------------------------------------------
+// Fixture — a picture used on slides 1 and 2, a video on slide 2 and a
+// logo only the master references
+// ---------------------------------------------------------------------------
+
+function deck(): Buffer {
+  const zip = new AdmZip();
+  zip.addFile(
+    "ppt/presentation.xml",
+    Buffer.from('<p:presentation><p:sldIdLst><p:sldId r:id="rId2"/><p:sldId r:id="rId3"/></p:sldIdLst></p:presentation>')
+  );
+  zip.addFile(
+    "ppt/_rels/presentation.xml.rels",
+    Buffer.from(
+      '<Relationships><Relationship Id="rId2" Target="slides/slide1.xml"/>' +
+        '<Relationship Id="rId3" Target="slides/slide2.xml"/></Relationships>'
+    )
+  );
+  zip.addFile("ppt/slides/slide1.xml", Buffer.from("<p:sld/>"));
+  zip.addFile("ppt/slides/slide2.xml", Buffer.from("<p:sld/>"));
+  zip.addFile(
+    "ppt/slides/_rels/slide1.xml.rels",
+    Buffer.from('<Relationships><Relationship Id="rId1" Type="image" Target="../media/image1.png"/></Relationships>')
+  );
+  zip.addFile(
+    "ppt/slides/_rels/slide2.xml.rels",
+    Buffer.from(
+      "<Relationships>" +
+        '<Relationship Id="rId1" Type="image" Target="../media/image1.png"/>' +
+        '<Relationship Id="rId2" Type="video" Target="../media/media1.mp4"/>' +
+        '<Relationship Id="rId3" Type="video" Target="https://example.com/clip.mp4" TargetMode="External"/>' +
+        "</Relationships>"
+    )
+  );
+  zip.addFile("ppt/media/image1.png", Buffer.alloc(100));
+  zip.addFile("ppt/media/media1.mp4", Buffer.alloc(1000));
+  zip.addFile("ppt/media/image2.emf", Buffer.alloc(50));
+  return zip.toBuffer();
+}
+
+/** Rewrites the uncompressed size of `entryName` in its local and central headers */
+function understate(zip: Buffer, entryName: string, size: number): Buffer {
+  const patched = Buffer.from(zip);
+  const name = Buffer.from(entryName);
+  for (const [signature, nameOffset, sizeOffset] of [
+    [0x04034b50, 30, 22],
+    [0x02014b50, 46, 24],
+  ]) {
+    for (let i = 0; i < patched.length - nameOffset; i++) {
+      if (patched.readUInt32LE(i) !== signature) continue;
+      if (!patched.subarray(i + nameOffset, i + nameOffset + name.length).equals(name)) continue;
+      patched.writeUInt32LE(size, i + sizeOffset);
+    }
+  }
+  return patched;
+}
+
+describe("extractMedia", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "media-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("copies every media part and links it to the slides that use it", () => {
+    const result = extractMedia(deck(), "Deck.pptx", dir, 10_000)!;
+    expect(result.manifest).toEqual({
+      deck: "Deck.pptx",
+      items: [
+        { file: "media/image1.png", kind: "image", sizeBytes: 100, slides: [1, 2] },
+        { file: "media/image2.emf", kind: "image", sizeBytes: 50, slides: [] },
+        { file: "media/media1.mp4", kind: "video", sizeBytes: 1000, slides: [2] },
+      ],
+      skipped: [],
+    });
+    expect(result.sizeBytes).toBe(1150);
+    expect(fs.statSync(path.join(dir, "media", "media1.mp4")).size).toBe(1000);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, "media", "manifest.json"), "utf8"))).toEqual(result.manifest);
+    expect(result.outputs.map((p) => path.relative(dir, p))).toEqual([
+      "media/image1.png",
+      "media/image2.emf",
+      "media/media1.mp4",
+      "media/manifest.json",
+    ]);
+  });
+
+  it("skips items beyond the byte budget without writing them", () => {
+    const result = extractMedia(deck(), "Deck.pptx", dir, 200)!;
+    expect(result.manifest.items.map((i) => i.file)).toEqual(["media/image1.png", "media/image2.emf"]);
+    expect(result.manifest.skipped).toEqual([{ file: "media/media1.mp4", kind: "video", sizeBytes: 1000, slides: [2] }]);
+    expect(fs.existsSync(path.join(dir, "media", "media1.mp4"))).toBe(false);
+  });
+
+  it("stops inflating a part that understates its size", () => {
+    const zip = new AdmZip(deck());
+    zip.addFile("ppt/media/media1.mp4", Buffer.alloc(1_000_000));
+    const crafted = understate(zip.toBuffer(), "ppt/media/media1.mp4", 10);
+
+    const result = extractMedia(crafted, "Deck.pptx", dir, 1000)!;
+    expect(result.manifest.skipped.map((i) => i.file)).toEqual(["media/media1.mp4"]);
+    expect(result.sizeBytes).toBeLessThanOrEqual(1000);
+    expect(fs.existsSync(path.join(dir, "media", "media1.mp4"))).toBe(false);
+  });
+
+  it("writes nothing for decks without media or without slide parts", () => {
+    const empty = new AdmZip();
+    empty.addFile("ppt/presentation.xml", Buffer.from("<p:presentation/>"));
+    expect(extractMedia(empty.toBuffer(), "Empty.pptx", dir, 1000)?.outputs).toEqual([]);
+    expect(extractMedia(Buffer.from("not a zip"), "x.ppt", dir, 1000)).toBeUndefined();
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
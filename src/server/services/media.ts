@@ -0,0 +1,141 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import type AdmZip from "adm-zip";
+import type { MediaItem, MediaKind, MediaManifest } from "../schema";
+import { ooxmlSlideParts, openZip, readRelationships } from "./presentation";
+
+// ---------------------------------------------------------------------------
+// media.ts — Embedded media bundle (artifact "media")
+//
+// Videos and audio do not survive the trip to PDF, and images are
+// downsampled by the export profile. This copies every part under
+// ppt/media/ into the deck's folder of the download ZIP and writes a
+// manifest naming the slides that reference each item. Sizes are read from
+// the ZIP directory before anything is inflated, and inflation stops where
+// the caller's byte budget ends, so a part that understates its size
+// cannot blow past the budget either.
+// ---------------------------------------------------------------------------
+
+export const MEDIA_FOLDER = "media";
+export const MEDIA_MANIFEST = "manifest.json";
+
+const MEDIA_PREFIX = "ppt/media/";
+
+/** ZIP compression methods found in OOXML packages */
+const STORED = 0;
+const DEFLATED = 8;
+
+const KINDS_BY_EXTENSION: Record<string, MediaKind> = {
+  ".png": "image", ".jpg": "image", ".jpeg": "image", ".gif": "image", ".bmp": "image",
+  ".tif": "image", ".tiff": "image", ".svg": "image", ".emf": "image", ".wmf": "image", ".webp": "image",
+  ".mp4": "video", ".m4v": "video", ".mov": "video", ".wmv": "video", ".avi": "video", ".mpg": "video",
+  ".mpeg": "video", ".webm": "video",
+  ".mp3": "audio", ".m4a": "audio", ".wav": "audio", ".wma": "audio", ".aac": "audio", ".ogg": "audio",
+};
+
+export interface MediaExtraction {
+  manifest: MediaManifest;
+  /** Extracted files followed by the manifest */
+  outputs: string[];
+  /** Bytes written for the extracted items (the manifest not counted) */
+  sizeBytes: number;
+}
+
+/**
+ * The entry's bytes, or undefined once they would exceed `limit` — the
+ * size in the ZIP directory is the uploader's claim, so it is not trusted
+ * for how much to inflate. Other compression methods count as not fitting.
+ */
+function inflateWithin(entry: AdmZip.IZipEntry, limit: number): Buffer | undefined {
+  const raw = entry.getCompressedData();
+  let data: Buffer;
+  if (entry.header.method === STORED) {
+    data = raw;
+  } else if (entry.header.method === DEFLATED) {
+    try {
+      data = zlib.inflateRawSync(raw, { maxOutputLength: Math.max(1, limit) });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") return undefined;
+      throw err;
+    }
+  } else {
+    return undefined;
+  }
+  return data.length <= limit ? data : undefined;
+}
+
+/**
+ * Copies the media of an OOXML deck into `<outDir>/media/` while the total
+ * stays within `budgetBytes`; items that do not fit are listed as skipped.
+ * Returns undefined for decks without OOXML slide parts (ODP, .ppt, encrypted).
+ */
+export function extractMedia(
+  buffer: Buffer,
+  deck: string,
+  outDir: string,
+  budgetBytes: number
+): MediaExtraction | undefined {
+  const zip = openZip(buffer);
+  const slideParts = zip && ooxmlSlideParts(zip);
+  if (!zip || !slideParts) return undefined;
+
+  // Media part → slide numbers referencing it (audio/video also carry a poster image)
+  const slidesByPart = new Map<string, number[]>();
+  slideParts.forEach((part, i) => {
+    if (!part) return;
+    for (const rel of Array.from(readRelationships(zip, part).values())) {
+      if (rel.external || !rel.target.startsWith(MEDIA_PREFIX)) continue;
+      const slides = slidesByPart.get(rel.target) ?? [];
+      if (!slides.includes(i + 1)) slides.push(i + 1);
+      slidesByPart.set(rel.target, slides);
+    }
+  });
+
+  const mediaDir = path.join(outDir, MEDIA_FOLDER);
+  const manifest: MediaManifest = { deck, items: [], skipped: [] };
+  const outputs: string[] = [];
+  let sizeBytes = 0;
+  const entries = zip
+    .getEntries()
+    .sort((a, b) => a.entryName.localeCompare(b.entryName, "en", { numeric: true }));
+  for (const entry of entries) {
+    const name = path.posix.basename(entry.entryName);
+    // ppt/media is flat; anything nested or oddly named stays in the package
+    if (entry.isDirectory || entry.entryName !== MEDIA_PREFIX + name) continue;
+    if (name.startsWith(".") || name === MEDIA_MANIFEST) continue;
+
+    const item: MediaItem = {
+      file: `${MEDIA_FOLDER}/${name}`,
+      kind: KINDS_BY_EXTENSION[path.posix.extname(name).toLowerCase()] ?? "other",
+      sizeBytes: entry.header.size,
+      slides: slidesByPart.get(entry.entryName) ?? [],
+    };
+    if (sizeBytes + item.sizeBytes > budgetBytes) {
+      manifest.skipped.push(item);
+      continue;
+    }
+
+    const data = inflateWithin(entry, budgetBytes - sizeBytes);
+    if (!data) {
+      manifest.skipped.push(item);
+      continue;
+    }
+
+    fs.mkdirSync(mediaDir, { recursive: true });
+    const target = path.join(mediaDir, name);
+    fs.writeFileSync(target, data);
+    // The directory may understate the size — count what was written
+    sizeBytes += data.length;
+    item.sizeBytes = data.length;
+    manifest.items.push(item);
+    outputs.push(target);
+  }
+
+  // A deck without media gets no media folder at all
+  if (manifest.items.length === 0 && manifest.skipped.length === 0) return { manifest, outputs, sizeBytes };
+  fs.mkdirSync(mediaDir, { recursive: true });
+  const manifestPath = path.join(mediaDir, MEDIA_MANIFEST);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  return { manifest, outputs: [...outputs, manifestPath], sizeBytes };
+}
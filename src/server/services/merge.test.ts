@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFRef } from "pdf-lib";
+import { mergePdfs } from "./merge";
+
+let dir: string;
+
+/** Writes a deck PDF with `pages` 16:9 pages and returns its path */
+async function deckPdf(name: string, pages: number): Promise<string> {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < pages; i++) {
+    doc.addPage([960, 540]).drawRectangle({ x: 40, y: 40, width: 100, height: 60 });
+  }
+  const pdfPath = path.join(dir, `${name}.pdf`);
+  fs.writeFileSync(pdfPath, await doc.save());
+  return pdfPath;
+}
+
+/** Titles and target page indices of the top-level outline entries */
+function outline(doc: PDFDocument): Array<{ title: string; page: number }> {
+  const root = doc.catalog.lookupMaybe(PDFName.of("Outlines"), PDFDict);
+  if (!root) return [];
+  const pageRefs = doc.getPages().map((p) => p.ref.toString());
+  const entries: Array<{ title: string; page: number }> = [];
+  let ref = root.get(PDFName.of("First")) as PDFRef | undefined;
+  while (ref) {
+    const item = doc.context.lookup(ref, PDFDict);
+    const dest = item.lookup(PDFName.of("Dest")) as unknown as { get(i: number): PDFRef };
+    entries.push({
+      title: item.lookup(PDFName.of("Title"), PDFHexString).decodeText(),
+      page: pageRefs.indexOf(dest.get(0).toString()),
+    });
+    ref = item.get(PDFName.of("Next")) as PDFRef | undefined;
+  }
+  return entries;
+}
+
+describe("mergePdfs", () => {
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "merge-test-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("concatenates decks in the given order with one bookmark each", async () => {
+    const parts = [
+      { title: "Hafta 2", pdfPath: await deckPdf("b", 3) },
+      { title: "Hafta 1", pdfPath: await deckPdf("a", 2) },
+    ];
+    const merged = await PDFDocument.load(await mergePdfs(parts));
+
+    expect(merged.getPageCount()).toBe(5);
+    expect(outline(merged)).toEqual([
+      { title: "Hafta 2", page: 0 },
+      { title: "Hafta 1", page: 3 },
+    ]);
+  });
+
+  it("puts a contents page in front and keeps bookmarks on the decks", async () => {
+    const parts = [
+      { title: "Giriş ve Özet", pdfPath: await deckPdf("c", 2) },
+      { title: "Değerlendirme Şablonu", pdfPath: await deckPdf("d", 1) },
+    ];
+    const merged = await PDFDocument.load(await mergePdfs(parts, { tableOfContents: true }));
+
+    expect(merged.getPageCount()).toBe(4);
+    expect(merged.getPage(0).getSize().width).toBeCloseTo(595.28);
+    expect(outline(merged)).toEqual([
+      { title: "Giriş ve Özet", page: 1 },
+      { title: "Değerlendirme Şablonu", page: 3 },
+    ]);
+  });
+
+  it("skips decks without pages", async () => {
+    const empty = path.join(dir, "empty.pdf");
+    fs.writeFileSync(empty, await (await PDFDocument.create()).save({ addDefaultPage: false }));
+    const merged = await PDFDocument.load(
+      await mergePdfs([
+        { title: "Empty", pdfPath: empty },
+        { title: "Deck", pdfPath: await deckPdf("e", 1) },
+      ])
+    );
+    expect(outline(merged)).toEqual([{ title: "Deck", page: 0 }]);
+  });
+});
@@ -0,0 +1,196 @@
+import * as fs from "fs";
+import {
+  PDFArray,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  StandardFonts,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+  type PDFRef,
+} from "pdf-lib";
+
+// ---------------------------------------------------------------------------
+// merge.ts — One combined PDF per job ("merge" output mode)
+//
+// The per-deck PDFs are concatenated in job order. Each deck gets a
+// top-level outline entry (bookmark) pointing at its first page; an optional
+// table-of-contents page in front lists the decks with page numbers and
+// links to them.
+// ---------------------------------------------------------------------------
+
+export interface MergePart {
+  /** Outline / table-of-contents label, usually the deck name */
+  title: string;
+  /** Absolute path of the deck's PDF */
+  pdfPath: string;
+}
+
+export interface MergeOptions {
+  tableOfContents?: boolean;
+}
+
+/** A4 portrait in PDF points — the table of contents page size */
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const TITLE_SIZE = 20;
+const ENTRY_SIZE = 12;
+const LINE_HEIGHT = 22;
+
+/**
+ * Concatenates `parts` into one PDF with a bookmark per part.
+ * Parts without pages (e.g. an empty slide range) get no bookmark.
+ */
+export async function mergePdfs(parts: MergePart[], options: MergeOptions = {}): Promise<Buffer> {
+  const merged = await PDFDocument.create();
+  const entries: Array<{ title: string; firstPage: PDFPage; pageNumber: number }> = [];
+
+  for (const part of parts) {
+    const source = await PDFDocument.load(fs.readFileSync(part.pdfPath));
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    if (pages.length === 0) continue;
+    entries.push({ title: part.title, firstPage: pages[0], pageNumber: merged.getPageCount() + 1 });
+    pages.forEach((page) => merged.addPage(page));
+  }
+
+  if (options.tableOfContents) await addTableOfContents(merged, entries);
+  addOutline(merged, entries.map((e) => ({ title: e.title, pageRef: e.firstPage.ref })));
+  // Open with the bookmarks panel visible
+  if (entries.length > 0) merged.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+
+  return Buffer.from(await merged.save());
+}
+
+// ---------------------------------------------------------------------------
+// Outline
+// ---------------------------------------------------------------------------
+
+/** `[page /Fit]` — show the whole page */
+function fitDestination(doc: PDFDocument, pageRef: PDFRef): PDFArray {
+  return doc.context.obj([pageRef, PDFName.of("Fit")]);
+}
+
+/**
+ * Writes a flat outline (one level) — pdf-lib has no outline API, so the
+ * dictionaries are built directly (PDF 32000-1, 12.3.3).
+ */
+function addOutline(doc: PDFDocument, items: Array<{ title: string; pageRef: PDFRef }>): void {
+  if (items.length === 0) return;
+
+  const outlineRef = doc.context.nextRef();
+  const itemRefs = items.map(() => doc.context.nextRef());
+
+  items.forEach((item, i) => {
+    const dict = doc.context.obj({
+      Title: PDFHexString.fromText(item.title),
+      Parent: outlineRef,
+      Dest: fitDestination(doc, item.pageRef),
+    });
+    if (i > 0) dict.set(PDFName.of("Prev"), itemRefs[i - 1]);
+    if (i < items.length - 1) dict.set(PDFName.of("Next"), itemRefs[i + 1]);
+    doc.context.assign(itemRefs[i], dict);
+  });
+
+  doc.context.assign(
+    outlineRef,
+    doc.context.obj({
+      Type: "Outlines",
+      First: itemRefs[0],
+      Last: itemRefs[itemRefs.length - 1],
+      Count: PDFNumber.of(items.length),
+    })
+  );
+  doc.catalog.set(PDFName.of("Outlines"), outlineRef);
+}
+
+// ---------------------------------------------------------------------------
+// Table of contents
+// ---------------------------------------------------------------------------
+
+/**
+ * The standard Helvetica font only covers WinAnsi: Turkish ğ/ş/ı and the
+ * like are reduced to their base letter, anything else becomes "?".
+ */
+function encodable(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map((ch) => {
+      if (supported.has(ch.codePointAt(0)!)) return ch;
+      const base = ch === "ı" ? "i" : ch.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+      return base.length === 1 && supported.has(base.codePointAt(0)!) ? base : "?";
+    })
+    .join("");
+}
+
+/** Shortens `text` with an ellipsis until it fits `maxWidth` */
+function fitText(font: PDFFont, text: string, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 1 && font.widthOfTextAtSize(`${cut}...`, size) > maxWidth) cut = cut.slice(0, -1);
+  return `${cut}...`;
+}
+
+/**
+ * Inserts table-of-contents pages at the front: one line per deck with its
+ * page number, each line a link to the deck. Page numbers account for the
+ * contents pages themselves.
+ */
+async function addTableOfContents(
+  doc: PDFDocument,
+  entries: Array<{ title: string; firstPage: PDFPage; pageNumber: number }>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  // The first page loses room to the heading
+  const headingSpace = 2 * TITLE_SIZE;
+  const linesPerPage = Math.floor((PAGE_HEIGHT - 2 * MARGIN - TITLE_SIZE) / LINE_HEIGHT) + 1;
+  const firstPageLines = linesPerPage - Math.ceil(headingSpace / LINE_HEIGHT);
+  const tocPageCount =
+    entries.length <= firstPageLines ? 1 : 1 + Math.ceil((entries.length - firstPageLines) / linesPerPage);
+
+  let page: PDFPage | undefined;
+  let y = 0;
+  let pageIndex = 0;
+  let linesLeft = 0;
+
+  entries.forEach((entry) => {
+    if (linesLeft === 0) {
+      page = doc.insertPage(pageIndex, [PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN - TITLE_SIZE;
+      linesLeft = linesPerPage;
+      if (pageIndex === 0) {
+        page.drawText("Contents", { x: MARGIN, y, size: TITLE_SIZE, font: bold });
+        y -= Math.ceil(headingSpace / LINE_HEIGHT) * LINE_HEIGHT;
+        linesLeft = firstPageLines;
+      }
+      pageIndex++;
+    }
+
+    const pageLabel = String(entry.pageNumber + tocPageCount);
+    const labelWidth = font.widthOfTextAtSize(pageLabel, ENTRY_SIZE);
+    const titleMax = PAGE_WIDTH - 2 * MARGIN - labelWidth - 24;
+    const title = fitText(font, encodable(font, entry.title), ENTRY_SIZE, titleMax);
+
+    page!.drawText(title, { x: MARGIN, y, size: ENTRY_SIZE, font, color: rgb(0.1, 0.1, 0.1) });
+    page!.drawText(pageLabel, { x: PAGE_WIDTH - MARGIN - labelWidth, y, size: ENTRY_SIZE, font });
+
+    // Whole line is clickable
+    const link = doc.context.obj({
+      Type: "Annot",
+      Subtype: "Link",
+      Rect: [MARGIN, y - 4, PAGE_WIDTH - MARGIN, y + ENTRY_SIZE],
+      Border: [0, 0, 0],
+      Dest: fitDestination(doc, entry.firstPage.ref),
+    });
+    page!.node.addAnnot(doc.context.register(link));
+
+    y -= LINE_HEIGHT;
+    linesLeft--;
+  });
+}
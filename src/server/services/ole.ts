@@ -0,0 +1,151 @@
+// ---------------------------------------------------------------------------
+// ole.ts — Minimal reader for OLE2 / Compound File Binary containers
+//
+// Legacy .ppt/.pps files (and encrypted OOXML decks) are CFB
+// containers: a tiny FAT file system inside one file. This reads named
+// streams out of one so their records can be inspected without soffice.
+// Read-only, and deliberately strict: anything that does not add up throws.
+// ---------------------------------------------------------------------------
+
+/** D0 CF 11 E0 A1 B1 1A E1 */
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const HEADER_DIFAT_ENTRIES = 109;
+const DIRECTORY_ENTRY_SIZE = 128;
+
+/** Directory entry object types */
+const STREAM_OBJECT = 2;
+const ROOT_OBJECT = 5;
+
+export function isCompoundFile(buffer: Buffer): boolean {
+  return buffer.length >= 512 && buffer.subarray(0, 8).equals(CFB_SIGNATURE);
+}
+
+interface DirectoryEntry {
+  name: string;
+  type: number;
+  startSector: number;
+  size: number;
+}
+
+export class CompoundFile {
+  private readonly sectorSize: number;
+  private readonly miniSectorSize: number;
+  private readonly miniStreamCutoff: number;
+  private readonly fat: number[];
+  private readonly miniFat: number[];
+  private readonly entries: DirectoryEntry[];
+  private miniStream?: Buffer;
+
+  constructor(private readonly buffer: Buffer) {
+    if (!isCompoundFile(buffer)) throw new Error("Not an OLE compound file");
+
+    this.sectorSize = 1 << buffer.readUInt16LE(0x1e);
+    this.miniSectorSize = 1 << buffer.readUInt16LE(0x20);
+    this.miniStreamCutoff = buffer.readUInt32LE(0x38);
+
+    this.fat = this._readFat();
+    this.miniFat = this._toUInt32s(this._readChain(buffer.readUInt32LE(0x3c)));
+    this.entries = this._readDirectory(buffer.readUInt32LE(0x30));
+  }
+
+  /** Names of all streams (not storages) in the container */
+  streamNames(): string[] {
+    return this.entries.filter((e) => e.type === STREAM_OBJECT).map((e) => e.name);
+  }
+
+  /** Contents of the first stream called `name`, or undefined */
+  readStream(name: string): Buffer | undefined {
+    const entry = this.entries.find((e) => e.type === STREAM_OBJECT && e.name === name);
+    if (!entry) return undefined;
+
+    if (entry.size < this.miniStreamCutoff) {
+      this.miniStream ??= this._rootMiniStream();
+      const data = this._readChain(entry.startSector, this.miniFat, this.miniStream, this.miniSectorSize);
+      return data.subarray(0, entry.size);
+    }
+    return this._readChain(entry.startSector).subarray(0, entry.size);
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal
+  // -------------------------------------------------------------------------
+
+  /** File offset of a regular sector (sector 0 follows the 512-byte header) */
+  private _sectorOffset(sector: number): number {
+    return (sector + 1) * this.sectorSize;
+  }
+
+  private _sector(sector: number): Buffer {
+    const offset = this._sectorOffset(sector);
+    if (offset + this.sectorSize > this.buffer.length) throw new Error("Sector outside the file");
+    return this.buffer.subarray(offset, offset + this.sectorSize);
+  }
+
+  private _toUInt32s(data: Buffer): number[] {
+    const values: number[] = [];
+    for (let i = 0; i + 4 <= data.length; i += 4) values.push(data.readUInt32LE(i));
+    return values;
+  }
+
+  /** FAT sector numbers come from the header DIFAT plus any DIFAT sectors */
+  private _readFat(): number[] {
+    const fatSectors: number[] = [];
+    for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+      const s = this.buffer.readUInt32LE(0x4c + i * 4);
+      if (s !== FREE_SECTOR) fatSectors.push(s);
+    }
+
+    let difat = this.buffer.readUInt32LE(0x44);
+    const perSector = this.sectorSize / 4 - 1; // last entry links to the next DIFAT sector
+    for (let guard = 0; difat !== END_OF_CHAIN && difat !== FREE_SECTOR; guard++) {
+      if (guard > this.buffer.length / this.sectorSize) throw new Error("DIFAT chain loops");
+      const values = this._toUInt32s(this._sector(difat));
+      fatSectors.push(...values.slice(0, perSector).filter((s) => s !== FREE_SECTOR));
+      difat = values[perSector];
+    }
+
+    return fatSectors.flatMap((s) => this._toUInt32s(this._sector(s)));
+  }
+
+  /** Concatenates a sector chain, from the file (default) or the mini stream */
+  private _readChain(start: number, table = this.fat, source?: Buffer, size = this.sectorSize): Buffer {
+    const parts: Buffer[] = [];
+    const limit = table.length;
+    for (let s = start, n = 0; s !== END_OF_CHAIN && s !== FREE_SECTOR; s = table[s], n++) {
+      if (s >= limit || n > limit) throw new Error("Broken sector chain");
+      if (source) {
+        if ((s + 1) * size > source.length) throw new Error("Mini sector outside the mini stream");
+        parts.push(source.subarray(s * size, (s + 1) * size));
+      } else {
+        parts.push(this._sector(s));
+      }
+    }
+    return Buffer.concat(parts);
+  }
+
+  private _readDirectory(start: number): DirectoryEntry[] {
+    const data = this._readChain(start);
+    const entries: DirectoryEntry[] = [];
+    for (let off = 0; off + DIRECTORY_ENTRY_SIZE <= data.length; off += DIRECTORY_ENTRY_SIZE) {
+      const nameLength = data.readUInt16LE(off + 0x40);
+      entries.push({
+        // UTF-16LE including the terminating NUL
+        name: data.subarray(off, off + Math.max(0, nameLength - 2)).toString("utf16le"),
+        type: data.readUInt8(off + 0x42),
+        startSector: data.readUInt32LE(off + 0x74),
+        size: data.readUInt32LE(off + 0x78),
+      });
+    }
+    return entries;
+  }
+
+  /** Small streams live in the root entry's stream, addressed by mini sectors */
+  private _rootMiniStream(): Buffer {
+    const root = this.entries.find((e) => e.type === ROOT_OBJECT);
+    if (!root) throw new Error("Compound file has no root entry");
+    return this._readChain(root.startSector).subarray(0, root.size);
+  }
+}
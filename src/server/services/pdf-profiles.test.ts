@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { buildPdfFilter, getPdfExportOptions } from "./pdf-profiles";
+import { PDF_EXPORT_PROFILES } from "../schema";
+
+describe("buildPdfFilter", () => {
+  it("returns undefined for the default profile (stock export)", () => {
+    expect(buildPdfFilter(getPdfExportOptions("default"))).toBeUndefined();
+  });
+
+  it("encodes PDF/A-2b for the archive profile", () => {
+    const filter = buildPdfFilter(getPdfExportOptions("archive"))!;
+    expect(filter.startsWith("impress_pdf_Export:")).toBe(true);
+    const json = JSON.parse(filter.slice("impress_pdf_Export:".length));
+    expect(json.SelectPdfVersion).toEqual({ type: "long", value: "2" });
+  });
+
+  it("types booleans and numbers the way LibreOffice expects", () => {
+    const filter = buildPdfFilter({ UseTaggedPDF: true, Quality: 80 })!;
+    const json = JSON.parse(filter.slice("impress_pdf_Export:".length));
+    expect(json.UseTaggedPDF).toEqual({ type: "boolean", value: "true" });
+    expect(json.Quality).toEqual({ type: "long", value: "80" });
+  });
+
+  it("passes slide ranges as strings", () => {
+    const filter = buildPdfFilter({ PageRange: "1-5,12", ExportHiddenSlides: true })!;
+    const json = JSON.parse(filter.slice("impress_pdf_Export:".length));
+    expect(json.PageRange).toEqual({ type: "string", value: "1-5,12" });
+    expect(json.ExportHiddenSlides).toEqual({ type: "boolean", value: "true" });
+  });
+
+  it("never produces whitespace (the filter is a single argv entry)", () => {
+    PDF_EXPORT_PROFILES.forEach((p) => {
+      expect(buildPdfFilter(getPdfExportOptions(p)) ?? "").not.toMatch(/\s/);
+    });
+  });
+});
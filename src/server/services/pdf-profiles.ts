@@ -0,0 +1,85 @@
+import {
+  PdfExportOptionsSchema,
+  type PdfExportOptions,
+  type PdfExportProfile,
+} from "../schema";
+
+// ---------------------------------------------------------------------------
+// Profile table
+// ---------------------------------------------------------------------------
+
+/**
+ * Filter options for every named profile. Parsed once at module load so a
+ * bad entry fails loudly at startup instead of producing a silently
+ * different PDF at conversion time.
+ */
+const PROFILES: Record<PdfExportProfile, PdfExportOptions> = {
+  /** LibreOffice's stock export — no filter options at all */
+  default: PdfExportOptionsSchema.parse({}),
+
+  /** Long-term archival: PDF/A-2b with bookmarks */
+  archive: PdfExportOptionsSchema.parse({
+    SelectPdfVersion: 2,
+    ExportBookmarks: true,
+  }),
+
+  /** Legacy archival systems that only accept PDF/A-1b */
+  "archive-1b": PdfExportOptionsSchema.parse({
+    SelectPdfVersion: 1,
+    ExportBookmarks: true,
+  }),
+
+  /** Print shop: lossless images, capped at 300 DPI */
+  print: PdfExportOptionsSchema.parse({
+    UseLosslessCompression: true,
+    ReduceImageResolution: true,
+    MaxImageResolution: 300,
+  }),
+
+  /** Small files for the intranet: JPEG q75 at 150 DPI */
+  web: PdfExportOptionsSchema.parse({
+    UseLosslessCompression: false,
+    Quality: 75,
+    ReduceImageResolution: true,
+    MaxImageResolution: 150,
+  }),
+
+  /** Screen readers: tagged PDF/UA with a navigable outline */
+  accessible: PdfExportOptionsSchema.parse({
+    UseTaggedPDF: true,
+    PDFUACompliance: true,
+    ExportBookmarks: true,
+  }),
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function getPdfExportOptions(profile: PdfExportProfile): PdfExportOptions {
+  return PROFILES[profile];
+}
+
+/**
+ * Builds the `--convert-to` filter string for a profile, e.g.
+ * `impress_pdf_Export:{"SelectPdfVersion":{"type":"long","value":"2"}}`.
+ *
+ * Returns undefined for an empty option set so soffice keeps its default
+ * filter — identical to the pre-profile behaviour.
+ *
+ * The JSON form is understood by LibreOffice 7.4+. It must not contain
+ * spaces: the value is passed as a single argv entry.
+ */
+export function buildPdfFilter(options: PdfExportOptions): string | undefined {
+  const entries = Object.entries(options).filter(([, v]) => v !== undefined);
+  if (entries.length === 0) return undefined;
+
+  const json: Record<string, { type: string; value: string }> = {};
+  for (const [key, value] of entries) {
+    json[key] = {
+      type: typeof value === "boolean" ? "boolean" : typeof value === "string" ? "string" : "long",
+      value: String(value),
+    };
+  }
+  return `impress_pdf_Export:${JSON.stringify(json)}`;
+}
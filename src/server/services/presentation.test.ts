@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import AdmZip from "adm-zip";
+import { countSlides, isEncryptedPresentation, readSlideInfo } from "./presentation";
+import { buildCompoundFile } from "./__fixtures__/compound-file";
+
+// ---------------------------------------------------------------------------
+// Fixture builders — minimal packages with only the parts under test
+// ---------------------------------------------------------------------------
+
+function pptx(slideIds: number, extraParts: Record<string, string> = {}): Buffer {
+  const zip = new AdmZip();
+  const ids = Array.from({ length: slideIds }, (_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 2}"/>`);
+  zip.addFile(
+    "ppt/presentation.xml",
+    Buffer.from(`<p:presentation><p:sldIdLst>${ids.join("")}</p:sldIdLst></p:presentation>`)
+  );
+  for (const [name, body] of Object.entries(extraParts)) zip.addFile(name, Buffer.from(body));
+  return zip.toBuffer();
+}
+
+/** ODP as LibreOffice saves it: every page carries a notes page with a thumbnail */
+function odp(pages: number): Buffer {
+  const zip = new AdmZip();
+  const body = Array.from(
+    { length: pages },
+    (_, i) =>
+      `<draw:page draw:name="p${i}"><presentation:notes draw:style-name="dp2">` +
+      `<draw:page-thumbnail draw:page-number="${i + 1}"/></presentation:notes></draw:page>`
+  ).join("");
+  zip.addFile("content.xml", Buffer.from(`<office:presentation>${body}</office:presentation>`));
+  return zip.toBuffer();
+}
+
+/** pptx whose slides listed in `hidden` (1-based) carry show="0" */
+function pptxWithHidden(count: number, hidden: number[]): Buffer {
+  const zip = new AdmZip(pptx(count));
+  const rels = Array.from(
+    { length: count },
+    (_, i) => `<Relationship Id="rId${i + 2}" Type="slide" Target="slides/slide${i + 1}.xml"/>`
+  );
+  zip.addFile("ppt/_rels/presentation.xml.rels", Buffer.from(`<Relationships>${rels.join("")}</Relationships>`));
+  for (let i = 1; i <= count; i++) {
+    const show = hidden.includes(i) ? ' show="0"' : "";
+    zip.addFile(`ppt/slides/slide${i}.xml`, Buffer.from(`<p:sld xmlns:p="p"${show}><p:cSld/></p:sld>`));
+  }
+  return zip.toBuffer();
+}
+
+/** PowerPoint binary record header + body */
+function record(verInstance: number, type: number, body: Buffer = Buffer.alloc(0)): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt16LE(verInstance, 0);
+  header.writeUInt16LE(type, 2);
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Minimal .ppt: a "PowerPoint Document" stream holding a DocumentContainer
+ * with a slide list of `slides` SlidePersistAtoms and a notes list that must
+ * not be counted.
+ */
+function ppt(slides: number): Buffer {
+  const persistAtoms = (n: number) =>
+    Buffer.concat(Array.from({ length: n }, () => record(0x0000, 0x03f3, Buffer.alloc(20))));
+  const document = record(
+    0x000f,
+    0x03e8,
+    Buffer.concat([record(0x000f, 0x0ff0, persistAtoms(slides)), record(0x002f, 0x0ff0, persistAtoms(2))])
+  );
+  return buildCompoundFile({ "PowerPoint Document": document });
+}
+
+// ---------------------------------------------------------------------------
+
+describe("readSlideInfo", () => {
+  it("finds hidden slides in OOXML decks", () => {
+    expect(readSlideInfo(pptxWithHidden(5, [2, 5]), "deck.pptx")).toEqual({ count: 5, hidden: [2, 5] });
+  });
+
+  it("finds hidden pages in ODP through their drawing-page style", () => {
+    const zip = new AdmZip();
+    zip.addFile(
+      "content.xml",
+      Buffer.from(
+        '<office:document-content><office:automatic-styles>' +
+          '<style:style style:name="dp1" style:family="drawing-page"><style:drawing-page-properties/></style:style>' +
+          '<style:style style:name="dp2" style:family="drawing-page"><style:drawing-page-properties presentation:visibility="hidden"/></style:style>' +
+          "</office:automatic-styles><office:presentation>" +
+          '<draw:page draw:style-name="dp1"/><draw:page draw:style-name="dp2"/><draw:page draw:style-name="dp1"/>' +
+          "</office:presentation></office:document-content>"
+      )
+    );
+    expect(readSlideInfo(zip.toBuffer(), "talk.odp")).toEqual({ count: 3, hidden: [2] });
+  });
+
+  it("counts slides of legacy .ppt files from the OLE stream", () => {
+    expect(readSlideInfo(ppt(6), "old.ppt")).toEqual({ count: 6 });
+    expect(countSlides(ppt(6), "old.pps")).toBe(6);
+  });
+});
+
+describe("countSlides", () => {
+  it("counts sldId entries in OOXML decks", () => {
+    expect(countSlides(pptx(7), "deck.pptx")).toBe(7);
+    expect(countSlides(pptx(3), "show.ppsx")).toBe(3);
+  });
+
+  it("counts draw:page elements in ODP", () => {
+    expect(countSlides(odp(4), "lecture.odp")).toBe(4);
+  });
+
+  it("does not count the page thumbnails of ODP notes pages", () => {
+    expect(readSlideInfo(odp(1), "notes.odp")).toEqual({ count: 1, hidden: [] });
+  });
+
+  it("returns undefined when the count cannot be read", () => {
+    expect(countSlides(Buffer.from([0xd0, 0xcf, 0x11, 0xe0]), "old.ppt")).toBeUndefined();
+    expect(countSlides(Buffer.from("not a zip"), "broken.pptx")).toBeUndefined();
+    expect(countSlides(new AdmZip().toBuffer(), "empty.pptx")).toBeUndefined();
+  });
+});
+
+describe("isEncryptedPresentation", () => {
+  it("recognises encrypted OOXML and .ppt containers", () => {
+    expect(isEncryptedPresentation(buildCompoundFile({ EncryptionInfo: Buffer.alloc(8), EncryptedPackage: Buffer.alloc(64) }))).toBe(true);
+    expect(isEncryptedPresentation(buildCompoundFile({ EncryptedSummary: Buffer.alloc(8) }))).toBe(true);
+  });
+
+  it("treats ordinary decks as unencrypted", () => {
+    expect(isEncryptedPresentation(ppt(2))).toBe(false);
+    expect(isEncryptedPresentation(pptx(2))).toBe(false);
+  });
+});
@@ -0,0 +1,240 @@
+import * as path from "path";
+import AdmZip from "adm-zip";
+import { getFormat } from "../formats";
+import { CompoundFile, isCompoundFile } from "./ole";
+
+// ---------------------------------------------------------------------------
+// presentation.ts — Lightweight reads of presentation packages (no soffice)
+//
+// OOXML decks (.pptx/.ppsx/.potx/.pptm) and ODP are ZIP packages, so
+// structural facts like the slide count can be read with adm-zip in
+// milliseconds — before a file ever takes a queue slot. Legacy binary decks
+// (.ppt/.pps) are read through their OLE "PowerPoint Document" stream.
+// ---------------------------------------------------------------------------
+
+export interface SlideInfo {
+  /** Number of slides, hidden ones included */
+  count: number;
+  /** 1-based numbers of hidden slides; undefined when the format does not tell */
+  hidden?: number[];
+}
+
+/** Opens a ZIP package, or returns undefined for non-ZIP / damaged input */
+export function openZip(buffer: Buffer): AdmZip | undefined {
+  try {
+    return new AdmZip(buffer);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Reads a package part as UTF-8, or undefined when it is missing */
+export function readPart(zip: AdmZip, partName: string): string | undefined {
+  const entry = zip.getEntry(partName);
+  return entry ? entry.getData().toString("utf8") : undefined;
+}
+
+/** Attribute value of `name` inside a single start tag, or undefined */
+export function attr(tag: string, name: string): string | undefined {
+  return new RegExp(`\\s${name}="([^"]*)"`).exec(tag)?.[1];
+}
+
+/** Resolves the five predefined XML entities and numeric character references */
+export function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export interface Relationship {
+  type: string;
+  /** Package part name for internal targets, the URL for external ones */
+  target: string;
+  external: boolean;
+}
+
+/**
+ * Relationships of `partName` by id, read from its `_rels/<name>.rels`
+ * part; internal targets are resolved to package part names.
+ */
+export function readRelationships(zip: AdmZip, partName: string): Map<string, Relationship> {
+  const dir = path.posix.dirname(partName);
+  const rels = readPart(zip, path.posix.join(dir, "_rels", `${path.posix.basename(partName)}.rels`)) ?? "";
+  const byId = new Map<string, Relationship>();
+  for (const tag of rels.match(/<Relationship\b[^>]*>/g) ?? []) {
+    const id = attr(tag, "Id");
+    const target = attr(tag, "Target");
+    if (!id || target === undefined) continue;
+    const external = attr(tag, "TargetMode") === "External";
+    byId.set(id, {
+      type: attr(tag, "Type") ?? "",
+      target: external
+        ? decodeXml(target)
+        : target.startsWith("/")
+          ? target.slice(1)
+          : path.posix.join(dir, target),
+      external,
+    });
+  }
+  return byId;
+}
+
+/** OOXML slide part names in presentation order (`<p:sldIdLst>`); undefined without ppt/presentation.xml */
+export function ooxmlSlideParts(zip: AdmZip): Array<string | undefined> | undefined {
+  const presentation = readPart(zip, "ppt/presentation.xml");
+  if (presentation === undefined) return undefined;
+  const targets = readRelationships(zip, "ppt/presentation.xml");
+  return (presentation.match(/<p:sldId\b[^>]*>/g) ?? []).map((tag) => targets.get(attr(tag, "r:id") ?? "")?.target);
+}
+
+/**
+ * OOXML: slides are the entries of `<p:sldIdLst>` in ppt/presentation.xml;
+ * a slide is hidden when its part's root element has `show="0"`.
+ */
+function ooxmlSlideInfo(zip: AdmZip): SlideInfo | undefined {
+  const slideParts = ooxmlSlideParts(zip);
+  if (slideParts === undefined) return undefined;
+
+  const hidden: number[] = [];
+  slideParts.forEach((target, i) => {
+    const slide = target ? readPart(zip, target) : undefined;
+    const root = slide ? /<p:sld\b[^>]*>/.exec(slide)?.[0] : undefined;
+    if (root && attr(root, "show") === "0") hidden.push(i + 1);
+  });
+  return { count: slideParts.length, hidden };
+}
+
+/**
+ * ODP: slides are `<draw:page>` elements; a page is hidden through its
+ * drawing-page style (`presentation:visibility="hidden"`).
+ */
+function odpSlideInfo(zip: AdmZip): SlideInfo | undefined {
+  const content = readPart(zip, "content.xml");
+  if (content === undefined) return undefined;
+
+  const hiddenStyles = new Set<string>();
+  const styleBlocks = content.match(/<style:style\b[^>]*>[\s\S]*?<\/style:style>/g) ?? [];
+  for (const block of styleBlocks) {
+    const name = attr(block.slice(0, block.indexOf(">") + 1), "style:name");
+    if (name && /presentation:visibility="hidden"/.test(block)) hiddenStyles.add(name);
+  }
+
+  // Not `\b`: notes pages carry a <draw:page-thumbnail> per slide
+  const pages = content.match(/<draw:page(?=[\s>/])[^>]*>/g) ?? [];
+  const hidden: number[] = [];
+  pages.forEach((tag, i) => {
+    if (hiddenStyles.has(attr(tag, "draw:style-name") ?? "")) hidden.push(i + 1);
+  });
+  return { count: pages.length, hidden };
+}
+
+/** PowerPoint binary record types ([MS-PPT] 2.13.24) */
+export const RT_DOCUMENT = 0x03e8;
+const RT_SLIDE_LIST_WITH_TEXT = 0x0ff0;
+const RT_SLIDE_PERSIST_ATOM = 0x03f3;
+
+export interface PptRecord {
+  instance: number;
+  type: number;
+  bodyStart: number;
+  bodyEnd: number;
+}
+
+/** Iterates the records laid out back to back in data[start, end) */
+export function* pptRecords(data: Buffer, start: number, end: number): Generator<PptRecord> {
+  for (let off = start; off + 8 <= end; ) {
+    const verInstance = data.readUInt16LE(off);
+    const type = data.readUInt16LE(off + 2);
+    const length = data.readUInt32LE(off + 4);
+    const bodyEnd = off + 8 + length;
+    if (bodyEnd > end) return; // truncated record
+    yield { instance: verInstance >> 4, type, bodyStart: off + 8, bodyEnd };
+    off = bodyEnd;
+  }
+}
+
+/** The "PowerPoint Document" stream of a .ppt, or undefined */
+export function readPptStream(buffer: Buffer): Buffer | undefined {
+  try {
+    return new CompoundFile(buffer).readStream("PowerPoint Document");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * .ppt: the slide list of the DocumentContainer holds one SlidePersistAtom
+ * per slide. Incrementally saved files append newer DocumentContainers, so
+ * the last one wins. Hidden flags live deep in each slide's show info and
+ * are not read.
+ */
+function pptSlideInfo(buffer: Buffer): SlideInfo | undefined {
+  const stream = readPptStream(buffer);
+  if (!stream) return undefined;
+
+  let count: number | undefined;
+  for (const doc of pptRecords(stream, 0, stream.length)) {
+    if (doc.type !== RT_DOCUMENT) continue;
+    for (const child of pptRecords(stream, doc.bodyStart, doc.bodyEnd)) {
+      // Instance 0 is the slide list; 1 = master slides, 2 = notes
+      if (child.type !== RT_SLIDE_LIST_WITH_TEXT || child.instance !== 0) continue;
+      count = 0;
+      for (const atom of pptRecords(stream, child.bodyStart, child.bodyEnd)) {
+        if (atom.type === RT_SLIDE_PERSIST_ATOM) count++;
+      }
+    }
+  }
+  return count === undefined ? undefined : { count };
+}
+
+/**
+ * Slide count (and hidden slides where the format records them), or
+ * undefined when it cannot be determined without LibreOffice (Keynote,
+ * damaged files).
+ */
+export function readSlideInfo(buffer: Buffer, fileName: string): SlideInfo | undefined {
+  const format = getFormat(fileName);
+  if (!format) return undefined;
+
+  if (format.signatures.includes("ole")) {
+    return isCompoundFile(buffer) ? pptSlideInfo(buffer) : undefined;
+  }
+  if (!format.signatures.includes("zip")) return undefined;
+
+  const zip = openZip(buffer);
+  if (!zip) return undefined;
+  return format.extension === ".odp" ? odpSlideInfo(zip) : ooxmlSlideInfo(zip);
+}
+
+/**
+ * Number of slides in the deck (hidden slides included — they are still
+ * numbered), or undefined when it cannot be determined without LibreOffice.
+ */
+export function countSlides(buffer: Buffer, fileName: string): number | undefined {
+  return readSlideInfo(buffer, fileName)?.count;
+}
+
+/**
+ * Password-protected decks. Encrypted OOXML is not a ZIP at all but an OLE
+ * container with an "EncryptedPackage" stream; encrypted .ppt files carry an
+ * "EncryptedSummary" stream; encrypted ODP lists encryption data in its
+ * manifest.
+ */
+export function isEncryptedPresentation(buffer: Buffer): boolean {
+  if (isCompoundFile(buffer)) {
+    try {
+      const streams = new CompoundFile(buffer).streamNames();
+      return streams.includes("EncryptedPackage") || streams.includes("EncryptedSummary");
+    } catch {
+      return false;
+    }
+  }
+  const zip = openZip(buffer);
+  const manifest = zip ? readPart(zip, "META-INF/manifest.xml") : undefined;
+  return !!manifest && /<manifest:encryption-data\b/.test(manifest);
+}
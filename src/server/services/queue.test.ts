@@ -1,194 +1,504 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  ConversionQueue,
+  orderedNames,
+  outputStems,
+  passwordsMissing,
+  retryDelayMs,
+  type Job,
+  type JobStatus,
+} from "./queue";
+import { MemoryJobStore, storedJob } from "./job-store";
+import { convertFileDirect, type FileConversionResult } from "./converter";
+import { renderSlides } from "./rasterizer";
+import { ConversionTimeoutError } from "./soffice";
+import { buildCompoundFile } from "./__fixtures__/compound-file";
+
+// No cache, so every test really reaches the converter
+vi.hoisted(() => {
+  process.env.CONVERSION_CACHE_MAX_BYTES = "0";
+});
 
 // ---------------------------------------------------------------------------
-// Mock converter so tests don't actually spawn LibreOffice
+// Mock converter and rasterizer so tests don't actually spawn LibreOffice
 // ---------------------------------------------------------------------------
-vi.mock("../services/converter", () => ({
-  ensureDir: vi.fn(),
-  convertFileDirect: vi.fn(async () => true), // succeeds by default
-}));
-
-// Mock fs calls used in the queue
-vi.mock("fs", async (importOriginal) => {
-  const actual = await importOriginal<typeof import("fs")>();
+vi.mock("./converter", async () => {
+  const fs = await import("fs");
   return {
-    ...actual,
-    writeFileSync: vi.fn(),
-    readdirSync: vi.fn(() => ["test.pptx"]),
-    existsSync: vi.fn(() => true),
-    rmSync: vi.fn(),
+    ensureDir: (dir: string) => fs.mkdirSync(dir, { recursive: true }),
+    convertFileDirect: vi.fn(),
   };
 });
 
-// ---------------------------------------------------------------------------
-// We need to expose the class for testing (see note below about the test-internal file)
-// For now, test via public interface of the singleton factory. We re-implement a
-// lightweight test double of ConversionQueue inline to avoid coupling to singleton state.
-// ---------------------------------------------------------------------------
+vi.mock("./rasterizer", () => ({
+  renderThumbnail: vi.fn(async () => {}),
+  renderSlides: vi.fn(async () => []),
+}));
 
-class TestableQueue {
-  maxConcurrent: number;
-  running = 0;
-  private jobs = new Map<string, any>();
-  private waiters: Array<() => void> = [];
-  private idCounter = 0;
+const convert = vi.mocked(convertFileDirect);
 
-  constructor(maxConcurrent = 1) {
-    this.maxConcurrent = maxConcurrent;
-  }
-
-  enqueue(shouldSucceed = true, durationMs = 0): string {
-    const id = String(++this.idCounter);
-    const job = { id, status: "pending" as const, position: 0, outputPaths: [] as string[] };
-    this.jobs.set(id, job);
-    this._updatePositions();
-    this._tryRun(id, shouldSucceed, durationMs);
-    return id;
-  }
+/** What convertFileDirect does by default here: writes a stand-in PDF */
+async function converted(_input: string, outputPath: string): Promise<FileConversionResult> {
+  fs.writeFileSync(outputPath, "%PDF-1.4 test");
+  return { ok: true, verification: { status: "verified", actualPages: 1, warnings: [] } };
+}
 
-  private _updatePositions() {
-    let pos = 1;
-    Array.from(this.jobs.values()).forEach((j) => {
-      if (j.status === "pending") j.position = pos++;
-    });
-  }
+const failed = (code: "soffice_crashed" | "corrupt_file"): FileConversionResult => ({ ok: false, code, error: code });
 
-  private _tryRun(id: string, shouldSucceed: boolean, durationMs: number) {
-    if (this.running >= this.maxConcurrent) {
-      this.waiters.push(() => this._tryRun(id, shouldSucceed, durationMs));
-      return;
-    }
-
-    const job = this.jobs.get(id)!;
-    this.running++;
-    job.status = "running";
-    this._updatePositions();
-
-    Promise.resolve().then(() =>
-      new Promise<void>((res) => setTimeout(res, durationMs)).then(() => {
-        job.status = shouldSucceed ? "done" : "error";
-        if (shouldSucceed) job.outputPaths.push("/fake/output.pdf");
-        this.running--;
-        const next = this.waiters.shift();
-        if (next) next();
-        this._updatePositions();
-      })
-    );
-  }
+/** A conversion that runs until `finish` is called */
+function blocking(): { finish: () => void } {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  convert.mockImplementationOnce(async (input, output) => {
+    await done;
+    return converted(input, output);
+  });
+  return { finish };
+}
 
-  getJob(id: string) {
-    return this.jobs.get(id);
-  }
+const TERMINAL: JobStatus[] = ["done", "partial", "error", "timeout", "cancelled"];
 
-  getStats() {
-    let pending = 0;
-    Array.from(this.jobs.values()).forEach((j) => { if (j.status === "pending") pending++; });
-    return { running: this.running, pending, maxConcurrent: this.maxConcurrent };
-  }
+async function finished(queue: ConversionQueue, id: string): Promise<Job> {
+  await vi.waitFor(() => expect(TERMINAL).toContain(queue.getJob(id)?.status));
+  return queue.getJob(id)!;
 }
 
+const deck = (name: string) => ({ name, buffer: Buffer.from(`deck ${name}`) });
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
 
 describe("ConversionQueue", () => {
-  let queue: TestableQueue;
+  let cleanups: Array<() => void> = [];
+
+  /** A queue on its own store; its jobs (enqueued or restored) are cleaned up after the test */
+  function createQueue(store = new MemoryJobStore()): ConversionQueue {
+    const restored = store.load().map((job) => job.id);
+    const queue = new ConversionQueue(store);
+    const enqueue = vi.spyOn(queue, "enqueue");
+    cleanups.push(() => {
+      const ids = [...restored, ...enqueue.mock.results.map((r) => r.value as string)];
+      for (const id of ids) queue.cleanup(id);
+    });
+    return queue;
+  }
 
   beforeEach(() => {
-    queue = new TestableQueue(1);
+    convert.mockImplementation(converted);
   });
 
   afterEach(() => {
+    for (const cleanup of cleanups) cleanup();
+    cleanups = [];
+    vi.unstubAllEnvs();
     vi.clearAllMocks();
   });
 
   // ---- 1. Basic enqueue ----
   it("starts a job immediately when a slot is available", () => {
-    const id = queue.enqueue();
-    const job = queue.getJob(id);
-    expect(job).toBeDefined();
-    // Should be running straight away (slot was free)
-    expect(job!.status).toBe("running");
-    expect(queue.getStats().running).toBe(1);
-    expect(queue.getStats().pending).toBe(0);
+    const queue = createQueue();
+    blocking();
+    const id = queue.enqueue([deck("a.pptx")]);
+
+    expect(queue.getJob(id)!.status).toBe("running");
+    expect(queue.getStats()).toMatchObject({ running: 1, pending: 0 });
   });
 
-  // ---- 2. Concurrency limit ----
-  it("queues a second job when at max concurrency", () => {
-    queue.enqueue(); // fills the 1 slot
-    const id2 = queue.enqueue();
-    const job2 = queue.getJob(id2);
+  // ---- 2. Concurrency limit and positions ----
+  it("queues further jobs with sequential positions when at max concurrency", () => {
+    const queue = createQueue();
+    blocking();
+    queue.enqueue([deck("a.pptx")]);
+    const id2 = queue.enqueue([deck("b.pptx")]);
+    const id3 = queue.enqueue([deck("c.pptx")]);
+
+    expect(queue.getJob(id2)).toMatchObject({ status: "pending", position: 1 });
+    expect(queue.getJob(id3)).toMatchObject({ status: "pending", position: 2 });
+    expect(queue.getStats()).toMatchObject({ running: 1, pending: 2, maxConcurrent: 1 });
+  });
 
-    expect(job2!.status).toBe("pending");
-    expect(queue.getStats().running).toBe(1);
-    expect(queue.getStats().pending).toBe(1);
+  // ---- 3. Sequential drain ----
+  it("starts the next pending job after the first finishes", async () => {
+    const queue = createQueue();
+    const first = blocking();
+    const id1 = queue.enqueue([deck("a.pptx")]);
+    const id2 = queue.enqueue([deck("b.pptx")]);
+    expect(queue.getJob(id2)!.status).toBe("pending");
+
+    first.finish();
+    expect((await finished(queue, id1)).status).toBe("done");
+    expect((await finished(queue, id2)).status).toBe("done");
+    expect(queue.getStats()).toMatchObject({ running: 0, pending: 0 });
   });
 
-  // ---- 3. Queue position ----
-  it("assigns sequential positions to pending jobs", () => {
-    queue.enqueue(); // running
-    const id2 = queue.enqueue(); // pending pos 1
-    const id3 = queue.enqueue(); // pending pos 2
+  // ---- 4. Error isolation ----
+  it("continues draining the queue even when one job errors", async () => {
+    const queue = createQueue();
+    convert.mockResolvedValueOnce(failed("corrupt_file"));
+    const id1 = queue.enqueue([deck("a.pptx")]);
+    const id2 = queue.enqueue([deck("b.pptx")]);
 
-    expect(queue.getJob(id2)!.position).toBe(1);
-    expect(queue.getJob(id3)!.position).toBe(2);
+    expect(await finished(queue, id1)).toMatchObject({ status: "error", files: [{ code: "corrupt_file" }] });
+    expect((await finished(queue, id2)).status).toBe("done");
   });
 
-  // ---- 4. Sequential drain ----
-  it("starts the next pending job after the first finishes", async () => {
-    const id1 = queue.enqueue(true, 10); // runs for 10ms
-    const id2 = queue.enqueue(true, 0);  // waits
+  // ---- 5. maxConcurrent=2 ----
+  it("allows 2 jobs to run in parallel when MAX_CONCURRENT_JOBS=2", () => {
+    vi.stubEnv("MAX_CONCURRENT_JOBS", "2");
+    const queue = createQueue();
+    blocking();
+    blocking();
+    const ids = [deck("a.pptx"), deck("b.pptx"), deck("c.pptx")].map((f) => queue.enqueue([f]));
 
-    // Initially job2 is pending
-    expect(queue.getJob(id2)!.status).toBe("pending");
+    expect(ids.map((id) => queue.getJob(id)!.status)).toEqual(["running", "running", "pending"]);
+    expect(queue.getStats().running).toBe(2);
+  });
+
+  // ---- 6. Per-file progress ----
+  it("tracks each file and ends partial when only some files fail", async () => {
+    const queue = createQueue();
+    const first = blocking();
+    convert.mockResolvedValueOnce(failed("corrupt_file"));
+    const id = queue.enqueue([deck("a.pptx"), deck("b.pptx"), deck("c.pptx")]);
+    await vi.waitFor(() => expect(convert).toHaveBeenCalledTimes(1));
+    expect(queue.getJob(id)!.files.map((f) => f.status)).toEqual(["running", "pending", "pending"]);
+
+    first.finish();
+    const job = await finished(queue, id);
+    expect(job.status).toBe("partial");
+    expect(job.files.map((f) => [f.status, f.code])).toEqual([
+      ["done", undefined],
+      ["failed", "corrupt_file"],
+      ["done", undefined],
+    ]);
+    expect(job.files[0]).toMatchObject({ outputBytes: "%PDF-1.4 test".length });
+    expect(job.files.every((f) => f.startedAt && f.finishedAt)).toBe(true);
+    expect(job.outputPaths.map((p) => path.basename(p))).toEqual(["a.pdf", "c.pdf"]);
+  });
 
-    // Wait for job1 to complete
-    await new Promise((r) => setTimeout(r, 30));
+  it("ends in error when every file fails", async () => {
+    const queue = createQueue();
+    convert.mockResolvedValue(failed("corrupt_file"));
+    const id = queue.enqueue([deck("a.pptx"), deck("b.pptx")]);
 
-    expect(queue.getJob(id1)!.status).toBe("done");
-    // job2 should have been picked up
-    expect(["running", "done"]).toContain(queue.getJob(id2)!.status);
+    const job = await finished(queue, id);
+    expect(job.status).toBe("error");
+    expect(job.outputPaths).toEqual([]);
   });
 
-  // ---- 5. Error isolation ----
-  it("continues draining the queue even when one job errors", async () => {
-    const id1 = queue.enqueue(false, 10); // will error
-    const id2 = queue.enqueue(true, 0);   // should still run
+  it("gives inputs that differ only in extension their own output files", async () => {
+    const queue = createQueue();
+    const job = await finished(queue, queue.enqueue([deck("deck.pptx"), deck("deck.odp")]));
+    expect(job.status).toBe("done");
+    expect(job.outputPaths.map((p) => path.basename(p))).toEqual(["deck.pdf", "deck (2).pdf"]);
+    expect(job.outputPaths.every((p) => fs.existsSync(p))).toBe(true);
+  });
+
+  it("converts decks the sanitizer cannot clean and flags them", async () => {
+    const queue = createQueue();
+    const ppt = { name: "Old.ppt", buffer: buildCompoundFile({ "PowerPoint Document": Buffer.alloc(16) }) };
+    const sanitized = await finished(queue, queue.enqueue([ppt, deck("a.pptx")], { sanitize: true }));
+    expect(sanitized.status).toBe("done");
+    expect(sanitized.files.map((f) => f.unsanitized)).toEqual(["binary", undefined]);
 
-    await new Promise((r) => setTimeout(r, 30));
+    const plain = await finished(queue, queue.enqueue([ppt]));
+    expect(plain.files[0].unsanitized).toBeUndefined();
+  });
+
+  it("reports slide rendering that was killed as a timeout", async () => {
+    const queue = createQueue();
+    vi.mocked(renderSlides).mockRejectedValueOnce(new ConversionTimeoutError(120_000));
+    const id = queue.enqueue([deck("a.pptx")], { outputFormat: "png" });
 
-    expect(queue.getJob(id1)!.status).toBe("error");
-    expect(["running", "done"]).toContain(queue.getJob(id2)!.status);
+    const job = await finished(queue, id);
+    expect(job.status).toBe("timeout");
+    expect(job.files[0]).toMatchObject({ status: "failed", code: "timeout" });
   });
 
-  // ---- 6. getStats accuracy ----
-  it("reports correct stats throughout the lifecycle", async () => {
-    expect(queue.getStats()).toEqual({ running: 0, pending: 0, maxConcurrent: 1 });
+  // ---- 7. Cancellation ----
+  describe("cancel", () => {
+    /** Cancelling marks the job at once; _run arms the cleanup once the conversion has stopped */
+    async function stopped(queue: ConversionQueue, id: string): Promise<Job> {
+      await vi.waitFor(() => expect(queue.getJob(id)!.expiresAt).toBeDefined());
+      return queue.getJob(id)!;
+    }
+
+    /** A conversion that only ends when the job's abort signal fires, like a killed soffice */
+    function untilAborted(): void {
+      convert.mockImplementationOnce(
+        (_input, _output, _options, _password, signal) =>
+          new Promise((resolve) =>
+            signal!.addEventListener("abort", () => resolve({ ok: false, code: "cancelled", error: "killed" }))
+          )
+      );
+    }
+
+    it("takes a waiting job out of the queue without converting it", async () => {
+      const queue = createQueue();
+      const first = blocking();
+      const id1 = queue.enqueue([deck("a.pptx")]);
+      const id2 = queue.enqueue([deck("b.pptx")]);
+      const id3 = queue.enqueue([deck("c.pptx")]);
+
+      expect(queue.cancel(id2)).toBe("cancelled");
+      expect(queue.getJob(id2)).toMatchObject({ status: "cancelled", position: undefined });
+      expect(queue.getJob(id2)!.expiresAt).toBeDefined();
+      expect(queue.getJob(id3)!.position).toBe(1);
+
+      first.finish();
+      await finished(queue, id3);
+      expect((await finished(queue, id1)).status).toBe("done");
+      expect(queue.getJob(id2)!.status).toBe("cancelled");
+      expect(convert).toHaveBeenCalledTimes(2);
+    });
 
-    const id1 = queue.enqueue(true, 20);
-    const id2 = queue.enqueue(true, 0);
+    it("aborts the running conversion, skips the rest and frees the slot", async () => {
+      const queue = createQueue();
+      untilAborted();
+      const id = queue.enqueue([deck("a.pptx"), deck("b.pptx")]);
+      const next = queue.enqueue([deck("c.pptx")]);
+      await vi.waitFor(() => expect(convert).toHaveBeenCalledTimes(1));
+
+      expect(queue.cancel(id)).toBe("cancelled");
+      const job = await stopped(queue, id);
+      expect(job.files.map((f) => [f.status, f.code])).toEqual([
+        ["failed", "cancelled"],
+        ["failed", "cancelled"],
+      ]);
+      expect((await finished(queue, next)).status).toBe("done");
+      expect(queue.getStats().running).toBe(0);
+    });
 
-    expect(queue.getStats().running).toBe(1);
-    expect(queue.getStats().pending).toBe(1);
+    it("deletes what the job converted before it was cancelled", async () => {
+      const queue = createQueue();
+      convert.mockImplementationOnce(converted);
+      untilAborted();
+      const id = queue.enqueue([deck("a.pptx"), deck("b.pptx")]);
+      await vi.waitFor(() => expect(convert).toHaveBeenCalledTimes(2));
+      const firstPdf = path.join(queue.getJob(id)!.tempDir, "a.pdf");
+      expect(fs.existsSync(firstPdf)).toBe(true);
+
+      queue.cancel(id);
+      const job = await stopped(queue, id);
+      expect(job.status).toBe("cancelled");
+      expect(job.files.map((f) => f.status)).toEqual(["done", "failed"]);
+      expect(job.outputPaths).toEqual([]);
+      expect(fs.existsSync(firstPdf)).toBe(false);
+    });
 
-    await new Promise((r) => setTimeout(r, 50));
+    it("reports finished and unknown jobs", async () => {
+      const queue = createQueue();
+      const id = queue.enqueue([deck("a.pptx")]);
+      await finished(queue, id);
 
-    expect(queue.getStats().running).toBe(0);
-    expect(queue.getStats().pending).toBe(0);
-    expect(queue.getJob(id1)!.status).toBe("done");
-    expect(queue.getJob(id2)!.status).toBe("done");
+      expect(queue.cancel(id)).toBe("finished");
+      expect(queue.cancel("no-such-job")).toBe("not_found");
+      expect(queue.getJob(id)!.status).toBe("done");
+    });
   });
 
-  // ---- 7. maxConcurrent=2 ----
-  it("allows 2 jobs to run in parallel when maxConcurrent=2", () => {
-    queue = new TestableQueue(2);
-    const id1 = queue.enqueue(true, 50);
-    const id2 = queue.enqueue(true, 50);
-    const id3 = queue.enqueue(true, 0);
+  // ---- 8. Transient failures (default backoff: 1 s, then 2 s; 3 attempts) ----
+  describe("retries", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
 
-    expect(queue.getJob(id1)!.status).toBe("running");
-    expect(queue.getJob(id2)!.status).toBe("running");
-    expect(queue.getJob(id3)!.status).toBe("pending");
-    expect(queue.getStats().running).toBe(2);
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("retries a crashed conversion after a backoff and records the attempts", async () => {
+      const queue = createQueue();
+      convert.mockResolvedValueOnce(failed("soffice_crashed"));
+      const id = queue.enqueue([deck("a.pptx")]);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(queue.getJob(id)).toMatchObject({ status: "running", retry: { attempt: 2, maxAttempts: 3 } });
+      expect(convert).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(500);
+      const job = await finished(queue, id);
+      expect(job.status).toBe("done");
+      expect(job.retry).toBeUndefined();
+      expect(job.files[0]).toMatchObject({ status: "done", attempts: 2, lastError: "soffice_crashed" });
+    });
+
+    it("gives up after the last attempt and does not retry permanent failures", async () => {
+      const queue = createQueue();
+      convert.mockResolvedValue(failed("soffice_crashed"));
+      const crashed = queue.enqueue([deck("a.pptx")]);
+      await vi.advanceTimersByTimeAsync(3_000);
+      expect((await finished(queue, crashed)).files[0]).toMatchObject({ code: "soffice_crashed", attempts: 3 });
+
+      convert.mockResolvedValue(failed("corrupt_file"));
+      const corrupt = queue.enqueue([deck("b.pptx")]);
+      expect((await finished(queue, corrupt)).files[0]).toMatchObject({ code: "corrupt_file", attempts: 1 });
+      expect(convert).toHaveBeenCalledTimes(4);
+    });
+
+    it("stops waiting for the retry when the job is cancelled", async () => {
+      const queue = createQueue();
+      convert.mockResolvedValueOnce(failed("soffice_crashed"));
+      const id = queue.enqueue([deck("a.pptx")]);
+      await vi.advanceTimersByTimeAsync(500);
+      expect(queue.getJob(id)!.retry).toBeDefined();
+
+      expect(queue.cancel(id)).toBe("cancelled");
+      await vi.advanceTimersByTimeAsync(0);
+      const job = queue.getJob(id)!;
+      expect(job.files[0]).toMatchObject({ status: "failed", code: "cancelled", attempts: 1 });
+      expect(job.expiresAt).toBeDefined();
+
+      await vi.advanceTimersByTimeAsync(5_000);
+      expect(convert).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ---- 9. Restart ----
+  describe("restore", () => {
+    let dirs: string[] = [];
+
+    /** A stored job of the previous process, with its input on disk */
+    function previousJob(id: string, status: JobStatus, extra: Partial<Job> = {}): Job {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), `pptx-job-${id}-`));
+      dirs.push(tempDir);
+      fs.writeFileSync(path.join(tempDir, "Deck.pptx"), "deck");
+      return {
+        id,
+        status,
+        client: "ip:127.0.0.1",
+        options: {},
+        inputs: ["Deck.pptx"],
+        cacheKeys: {},
+        encryptedInputs: [],
+        sanitized: {},
+        unsanitized: {},
+        inputStats: { "Deck.pptx": { bytes: 4 } },
+        mediaBytes: 0,
+        _passwords: new Map(),
+        tempDir,
+        outputPaths: [],
+        files: [{ name: "Deck.pptx", status: "pending" }],
+        createdAt: new Date().toISOString(),
+        ...extra,
+      };
+    }
+
+    function storeWith(...jobs: Job[]): MemoryJobStore {
+      const store = new MemoryJobStore();
+      for (const job of jobs) store.put(storedJob(job));
+      return store;
+    }
+
+    afterEach(() => {
+      for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true });
+      dirs = [];
+    });
+
+    it("re-queues pending jobs and converts them", async () => {
+      const queue = createQueue(storeWith(previousJob("a", "pending")));
+
+      expect((await finished(queue, "a")).status).toBe("done");
+      expect(convert).toHaveBeenCalledTimes(1);
+    });
+
+    it("starts interrupted jobs over from their first file", async () => {
+      const interrupted = previousJob("a", "running", {
+        files: [{ name: "Deck.pptx", status: "running", startedAt: new Date().toISOString() }],
+        outputPaths: ["/gone/Deck.pdf"],
+      });
+      const queue = createQueue(storeWith(interrupted));
+
+      const job = await finished(queue, "a");
+      expect(job.status).toBe("done");
+      expect(job.outputPaths).toEqual([path.join(interrupted.tempDir, "Deck.pdf")]);
+    });
+
+    it("asks again for the passwords of encrypted inputs", () => {
+      const locked = previousJob("a", "pending", { encryptedInputs: ["Deck.pptx"] });
+      const queue = createQueue(storeWith(locked));
+
+      expect(queue.getJob("a")!.status).toBe("password_required");
+      expect(queue.getJob("a")!.expiresAt).toBeDefined();
+      expect(convert).not.toHaveBeenCalled();
+    });
+
+    it("keeps finished jobs until their original deadline", () => {
+      const expiresAt = new Date(Date.now() + 60_000).toISOString();
+      const queue = createQueue(storeWith(previousJob("a", "done", { expiresAt })));
+
+      expect(queue.getJob("a")).toMatchObject({ status: "done", expiresAt });
+    });
+
+    it("reads the slide text of finished jobs back from slides.json", () => {
+      const slides = [{ slide: 1, hidden: false, body: ["Giriş"], tables: [], notes: [], hyperlinks: [] }];
+      const done = previousJob("a", "done", {
+        options: { artifacts: ["text"] },
+        files: [{ name: "Deck.pptx", status: "done", slides }],
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      });
+      fs.mkdirSync(path.join(done.tempDir, "Deck"));
+      fs.writeFileSync(path.join(done.tempDir, "Deck", "slides.json"), JSON.stringify({ name: "Deck.pptx", slides }));
+      const store = storeWith(done);
+      expect(store.load()[0].files[0]).not.toHaveProperty("slides");
+
+      expect(createQueue(store).getJob("a")!.files[0].slides).toEqual(slides);
+    });
+
+    it("drops expired jobs and jobs whose temp dir is gone", () => {
+      const expired = previousJob("a", "done", { expiresAt: new Date(Date.now() - 1_000).toISOString() });
+      const orphan = previousJob("b", "pending");
+      fs.rmSync(orphan.tempDir, { recursive: true });
+      const store = storeWith(expired, orphan);
+      const queue = createQueue(store);
+
+      expect(queue.getJob("a")).toBeUndefined();
+      expect(queue.getJob("b")).toBeUndefined();
+      expect(fs.existsSync(expired.tempDir)).toBe(false);
+      expect(store.load()).toEqual([]);
+    });
+  });
+});
+
+describe("orderedNames", () => {
+  const uploaded = ["a.pptx", "b.pptx", "c.pptx"];
+
+  it("keeps upload order by default", () => {
+    expect(orderedNames(uploaded)).toEqual(uploaded);
+  });
+
+  it("puts listed files first and the rest in upload order", () => {
+    expect(orderedNames(uploaded, ["c.pptx", "a.pptx"])).toEqual(["c.pptx", "a.pptx", "b.pptx"]);
+  });
+
+  it("ignores unknown and repeated names", () => {
+    expect(orderedNames(uploaded, ["x.pptx", "b.pptx", "b.pptx"])).toEqual(["b.pptx", "a.pptx", "c.pptx"]);
+  });
+});
+
+describe("outputStems", () => {
+  it("numbers base names that are already taken, ignoring case", () => {
+    const stems = outputStems(["deck (2).pptx", "deck.pptx", "Deck.odp", "deck.ppt", "other.pptx"]);
+    expect(Array.from(stems.values())).toEqual(["deck (2)", "deck", "Deck (3)", "deck (4)", "other"]);
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("doubles per retry and stops at the cap", () => {
+    expect([1, 2, 3, 4].map((n) => retryDelayMs(n, 1000, 5000))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe("passwordsMissing", () => {
+  it("lists encrypted inputs that have no password yet", () => {
+    const job = {
+      encryptedInputs: ["a.pptx", "b.pptx"],
+      _passwords: new Map([["b.pptx", "secret"]]),
+    } as unknown as Job;
+    expect(passwordsMissing(job)).toEqual(["a.pptx"]);
   });
 });
@@ -3,35 +3,249 @@ import * as path from "path";
 import * as os from "os";
 import { v4 as uuidv4 } from "uuid";
 import { convertFileDirect, ensureDir } from "./converter";
+import {
+  DEFAULT_IMAGE_WIDTH,
+  optionsForFile,
+  type ConversionErrorCode,
+  type ConversionOptions,
+  type FileResult,
+  type FontSubstitutionReport,
+  type MediaSummary,
+  type SlideText,
+  type StrippedPart,
+  type UnsanitizedReason,
+} from "../schema";
+import { renderSlides, renderThumbnail } from "./rasterizer";
+import { mergePdfs } from "./merge";
+import type { Verification } from "./verify";
+import { cacheKey, conversionCache, type ConversionCacheStats } from "./cache";
+import { CONVERSION_ERROR_MESSAGES, TRANSIENT_ERROR_CODES } from "./conversion-errors";
+import { isEncryptedPresentation, readSlideInfo } from "./presentation";
+import { sanitizePresentation, unsanitizableReason } from "./sanitize";
+import { ConversionTimeoutError } from "./soffice";
+import { SLIDE_TEXT_JSON, SLIDE_TEXT_MARKDOWN, extractSlideText, slideTextMarkdown } from "./slide-text";
+import { extractMedia } from "./media";
+import { conversionEstimator, type ConversionInput } from "./estimator";
+import { JobScheduler, PendingLimitError, schedulerOptionsFromEnv } from "./scheduler";
+import { jobStoreFromEnv, storedJob, type JobStore, type StoredJob } from "./job-store";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export type JobStatus = "pending" | "running" | "done" | "error";
+/**
+ * "timeout" is a terminal failure like "error", but tells the UI that the
+ * deck hung LibreOffice or poppler (and was killed) rather than being
+ * unreadable.
+ * "password_required" jobs are not queued until every encrypted input has
+ * a password (see providePassword). "cancelled" is final as well: the job
+ * was stopped by its owner (see cancel) and has nothing to download.
+ * "partial" is "done" with some files failed — only the rest is downloadable.
+ */
+export type JobStatus =
+  | "password_required"
+  | "pending"
+  | "running"
+  | "done"
+  | "partial"
+  | "error"
+  | "timeout"
+  | "cancelled";
 
 export interface JobFile {
   /** Original file name (e.g. "Sunum.pptx") */
   name: string;
   /** Buffer of the uploaded file (held in memory until written to disk) */
   buffer: Buffer;
+  /** Document password supplied with the upload (encrypted decks only) */
+  password?: string;
+}
+
+/** State, then outcome, of one input file within a job */
+export interface JobFileResult {
+  /** Input file name (e.g. "Sunum.pptx") */
+  name: string;
+  status: "pending" | "running" | "done" | "failed";
+  /** ISO timestamps of the conversion (first attempt to last, retries included) */
+  startedAt?: string;
+  finishedAt?: string;
+  /** Bytes of the converted output — the PDF or the slide images, artifacts not counted */
+  outputBytes?: number;
+  /** Why the file failed (see conversion-errors.ts) — "timeout" means soffice or poppler was killed */
+  code?: ConversionErrorCode;
+  /** Internal error detail; sanitise before exposing */
+  error?: string;
+  /** First-slide PNG preview inside tempDir (`<deck>.thumb.png`), if rendered */
+  thumbnailPath?: string;
+  /** Slide count vs. PDF page count check (done files only) */
+  verification?: Verification;
+  /** Fonts rendered with another family (done files only; absent without fontconfig) */
+  fontSubstitutions?: FontSubstitutionReport[];
+  /** Conversion attempts made, including transient-failure retries (set by the retry loop) */
+  attempts?: number;
+  /** Detail of the most recent failed attempt, even if a retry then succeeded */
+  lastError?: string;
+  /** Active content the sanitizer removed before conversion */
+  stripped?: StrippedPart[];
+  /** Sanitizing was on but this input could not be cleaned — converted as uploaded */
+  unsanitized?: UnsanitizedReason;
+  /** Per-slide text (artifact "text", OOXML decks only) — also written as slides.json */
+  slides?: SlideText[];
+  /** What the "media" artifact extracted (OOXML decks only) */
+  media?: MediaSummary;
 }
 
 export interface Job {
   id: string;
   status: JobStatus;
-  /** Position in the waiting queue (1-indexed, undefined when not pending) */
+  /** Submitter for fair scheduling: "api-key" or "ip:<address>" (see scheduler.ts) */
+  client: string;
+  /** Position in the scheduling order (1-indexed, undefined when not pending) */
   position?: number;
+  /** Conversion options chosen at upload time (export profile, …) */
+  options: Partial<ConversionOptions>;
+  /** Input file names in processing order (upload order unless `options.order` says otherwise) */
+  inputs: string[];
+  /** Conversion cache key per input name (see cache.ts); encrypted inputs have none */
+  cacheKeys: Record<string, string>;
+  /** Inputs that are password-protected */
+  encryptedInputs: string[];
+  /** Parts removed per input by the sanitizer (options.sanitize); inputs with nothing removed are absent */
+  sanitized: Record<string, StrippedPart[]>;
+  /** Inputs sanitizing was on for but could not clean (.ppt/.pps, encrypted), converted as uploaded */
+  unsanitized: Record<string, UnsanitizedReason>;
+  /** Size and slide count per input, for conversionEstimator */
+  inputStats: Record<string, ConversionInput>;
+  /** Bytes of embedded media extracted so far, against MEDIA_MAX_BYTES */
+  mediaBytes: number;
+  /**
+   * Passwords of encrypted inputs by file name. In memory only: never
+   * logged, written to disk or exposed; dropped once the file is converted.
+   */
+  _passwords: Map<string, string>;
   /** Absolute path of the temp working directory for this job */
   tempDir: string;
-  /** Paths of the converted PDF files (populated on done) */
+  /**
+   * Absolute paths of every produced artifact (populated on done), all inside
+   * tempDir: `<deck>.pdf` for PDF output, `<deck>/slide-NNN.<ext>` for slide
+   * images, `merged/<name>.pdf` in merge mode. The path relative to tempDir
+   * is the artifact's name in downloads.
+   */
   outputPaths: string[];
-  /** Error message if status === "error" */
+  /** Per-input state, in processing order — one entry per input from enqueue on */
+  files: JobFileResult[];
+  /** Error message if status === "error" or "timeout" */
   error?: string;
+  /** Set while a file waits for / runs a retry after a transient failure */
+  retry?: { fileName: string; attempt: number; maxAttempts: number };
   /** ISO timestamp of when the job was created */
   createdAt: string;
+  /** ISO timestamp of the scheduled cleanup, so a restart can re-arm it */
+  expiresAt?: string;
   /** Timer handle for automatic cleanup */
   _cleanupTimer?: ReturnType<typeof setTimeout>;
+  /** Aborts the running conversion when the job is cancelled (set while running) */
+  _abort?: AbortController;
+}
+
+/** Names of inputs killed by the conversion timeout, or undefined if none */
+export function timedOutFiles(job: Job): string[] | undefined {
+  const names = job.files.filter((f) => f.code === "timeout").map((f) => f.name);
+  return names.length > 0 ? names : undefined;
+}
+
+/** Inputs converted successfully — not outputPaths, which also holds slide images and artifacts */
+export function convertedFileCount(job: Job): number {
+  return job.files.filter((f) => f.status === "done").length;
+}
+
+/**
+ * Names listed in `order` first (in that order), then the rest in upload
+ * order. Unknown names in `order` are ignored here — the route rejects them.
+ */
+export function orderedNames(uploaded: string[], order: string[] = []): string[] {
+  const listed = order.filter((name, i) => uploaded.includes(name) && order.indexOf(name) === i);
+  return [...listed, ...uploaded.filter((name) => !listed.includes(name))];
+}
+
+/**
+ * Name stem of each input's outputs (`<stem>.pdf`, `<stem>/slide-001.png`):
+ * its base name, with " (2)", " (3)", … appended when inputs that differ
+ * only in extension (deck.pptx, deck.odp) would write the same files.
+ * Compared case-insensitively, as the ZIP may be unpacked on such a system.
+ */
+export function outputStems(inputs: string[]): Map<string, string> {
+  const stems = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const name of inputs) {
+    const base = path.basename(name, path.extname(name));
+    let stem = base;
+    for (let n = 2; taken.has(stem.toLowerCase()); n++) stem = `${base} (${n})`;
+    taken.add(stem.toLowerCase());
+    stems.set(name, stem);
+  }
+  return stems;
+}
+
+/**
+ * Preview thumbnails of the converted files. `index` is the file's position
+ * in job.files and addresses /api/job/:jobId/thumbnail/:index.
+ */
+export function thumbnailList(job: Job): Array<{ name: string; url: string }> {
+  return job.files.flatMap((f, index) =>
+    f.thumbnailPath ? [{ name: f.name, url: `/api/job/${job.id}/thumbnail/${index}` }] : []
+  );
+}
+
+/**
+ * Per-file outcome as exposed by the status APIs (see FileResultSchema —
+ * it sanitises names, warnings and error details).
+ */
+export function fileResults(job: Job): FileResult[] {
+  return job.files.map((f) => ({
+    name: f.name,
+    status: f.status,
+    verification: f.verification?.status,
+    warnings: f.verification?.warnings ?? [],
+    fontSubstitutions: f.fontSubstitutions ?? [],
+    startedAt: f.startedAt,
+    finishedAt: f.finishedAt,
+    outputBytes: f.outputBytes,
+    attempts: f.attempts,
+    stripped: f.stripped ?? [],
+    unsanitized: f.unsanitized,
+    media: f.media,
+    error: f.code ? { code: f.code, message: CONVERSION_ERROR_MESSAGES[f.code], detail: f.error } : undefined,
+  }));
+}
+
+/** Encrypted inputs still waiting for their password */
+export function passwordsMissing(job: Job): string[] {
+  return job.encryptedInputs.filter((name) => !job._passwords.has(name));
+}
+
+/** A "pending" entry per input, the initial job.files */
+function pendingFiles(inputs: string[]): JobFileResult[] {
+  return inputs.map((name) => ({ name, status: "pending" }));
+}
+
+/** The file being converted, as "file `index` of `total`" (1-based) */
+export function currentFile(job: Job): { index: number; total: number; name: string } | undefined {
+  const index = job.files.findIndex((f) => f.status === "running");
+  if (index < 0) return undefined;
+  return { index: index + 1, total: job.files.length, name: job.files[index].name };
+}
+
+/** Running-status fields: "retrying (2/3)" while a transient failure is retried */
+export function retryStatus(job: Job): { message?: string; retry?: Job["retry"] } {
+  if (!job.retry) return {};
+  return { message: `retrying (${job.retry.attempt}/${job.retry.maxAttempts})`, retry: job.retry };
+}
+
+/** The error code every failed file shares, or undefined when they differ (or none failed) */
+export function commonErrorCode(job: Job): ConversionErrorCode | undefined {
+  const codes = new Set(job.files.flatMap((f) => (f.code ? [f.code] : [])));
+  return codes.size === 1 ? Array.from(codes)[0] : undefined;
 }
 
 // ---------------------------------------------------------------------------
@@ -39,21 +253,73 @@ export interface Job {
 // ---------------------------------------------------------------------------
 
 const JOB_TTL_MS = 10 * 60 * 1_000; // 10 minutes
-const DEFAULT_MAX_CONCURRENT = 1; // safe default — LibreOffice uses a shared lock
+/** File name of the combined PDF in merge mode */
+const MERGED_PDF_NAME = "Birlestirilmis_Sunumlar.pdf";
+/**
+ * Retry policy for transient failures (see TRANSIENT_ERROR_CODES): up to
+ * CONVERSION_MAX_ATTEMPTS tries per file, waiting base · 2^(n-1) ms before
+ * retry n, capped at CONVERSION_RETRY_MAX_MS.
+ */
+const MAX_ATTEMPTS = Math.max(1, parseInt(process.env.CONVERSION_MAX_ATTEMPTS ?? "3", 10));
+const RETRY_BASE_MS = parseInt(process.env.CONVERSION_RETRY_BASE_MS ?? "1000", 10);
+const RETRY_MAX_MS = parseInt(process.env.CONVERSION_RETRY_MAX_MS ?? "30000", 10);
+
+/** Cap on the embedded media one job extracts (artifact "media"), across all its decks */
+const MEDIA_MAX_BYTES = parseInt(process.env.MEDIA_EXTRACTION_MAX_BYTES ?? String(256 * 1024 * 1024), 10);
 
-class ConversionQueue {
+/** Combined size of `paths` in bytes; files that vanished count as 0 */
+function totalSize(paths: string[]): number {
+  return paths.reduce((sum, p) => {
+    try {
+      return sum + fs.statSync(p).size;
+    } catch {
+      return sum;
+    }
+  }, 0);
+}
+
+/** Backoff before retry number `retry` (1 = the first retry) */
+export function retryDelayMs(retry: number, baseMs = RETRY_BASE_MS, maxMs = RETRY_MAX_MS): number {
+  return Math.min(maxMs, baseMs * 2 ** (retry - 1));
+}
+
+/** Resolves after `ms`, or as soon as `signal` aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const wake = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    signal?.addEventListener("abort", wake);
+  });
+}
+
+/**
+ * Resource default, not a correctness limit: every concurrent conversion
+ * gets its own LibreOffice profile (soffice-profiles.ts / soffice-pool.ts),
+ * so MAX_CONCURRENT_JOBS > 1 only needs the CPU and RAM to back it.
+ */
+const DEFAULT_MAX_CONCURRENT = 1;
+
+export class ConversionQueue {
   private readonly maxConcurrent: number;
   private running = 0;
   /** FIFO queue of callbacks that start the next job */
   private waitQueue: Array<() => void> = [];
   /** All known jobs */
   private readonly jobs = new Map<string, Job>();
+  /** Picks the next pending job — fair across clients or FIFO */
+  private readonly scheduler = new JobScheduler(schedulerOptionsFromEnv());
 
-  constructor() {
+  constructor(private readonly store: JobStore = jobStoreFromEnv()) {
     this.maxConcurrent = parseInt(
       process.env.MAX_CONCURRENT_JOBS ?? String(DEFAULT_MAX_CONCURRENT),
       10
     );
+    this._restore();
   }
 
   // -------------------------------------------------------------------------
@@ -63,26 +329,81 @@ class ConversionQueue {
   /**
    * Accepts uploaded file buffers, creates a Job, and schedules it.
    * Returns the jobId immediately — the caller does NOT wait for conversion.
+   * Throws PendingLimitError when `client` already has the maximum number
+   * of jobs waiting.
    */
-  enqueue(files: JobFile[]): string {
+  enqueue(files: JobFile[], options: Partial<ConversionOptions> = {}, client = "anonymous"): string {
+    const limit = this.scheduler.options.maxPendingPerClient;
+    if (limit > 0 && this._waitingJobs(client) >= limit) throw new PendingLimitError(limit);
+
     const id = uuidv4();
     const tempDir = path.join(os.tmpdir(), `pptx-job-${id}`);
     ensureDir(tempDir);
 
     // Write uploaded buffers to the temp dir right away so HTTP response is instant
+    const cacheKeys: Record<string, string> = {};
+    const encryptedInputs: string[] = [];
+    const passwords = new Map<string, string>();
+    const sanitized: Record<string, StrippedPart[]> = {};
+    const unsanitized: Record<string, UnsanitizedReason> = {};
+    const inputStats: Record<string, ConversionInput> = {};
     for (const f of files) {
-      fs.writeFileSync(path.join(tempDir, f.name), f.buffer);
+      const reason = options.sanitize ? unsanitizableReason(f.buffer) : undefined;
+      if (reason) unsanitized[f.name] = reason;
+      if (isEncryptedPresentation(f.buffer)) {
+        fs.writeFileSync(path.join(tempDir, f.name), f.buffer);
+        inputStats[f.name] = { bytes: f.buffer.length };
+        // Never cached: a hit would hand the PDF out without the password
+        encryptedInputs.push(f.name);
+        if (f.password !== undefined) passwords.set(f.name, f.password);
+        continue;
+      }
+      // Sanitised in memory, so the original package never reaches the disk (or soffice)
+      const { buffer, stripped } = options.sanitize
+        ? sanitizePresentation(f.buffer)
+        : { buffer: f.buffer, stripped: [] };
+      fs.writeFileSync(path.join(tempDir, f.name), buffer);
+      if (stripped.length > 0) sanitized[f.name] = stripped;
+      inputStats[f.name] = { bytes: buffer.length, slides: readSlideInfo(buffer, f.name)?.count };
+      cacheKeys[f.name] = cacheKey(buffer, optionsForFile(options, f.name));
     }
 
+    // Same-name uploads overwrite each other on disk — convert once
+    const inputs = orderedNames(Array.from(new Set(files.map((f) => f.name))), options.order);
     const job: Job = {
       id,
       status: "pending",
+      client,
+      options,
+      inputs,
+      cacheKeys,
+      encryptedInputs: Array.from(new Set(encryptedInputs)),
+      sanitized,
+      unsanitized,
+      inputStats,
+      mediaBytes: 0,
+      _passwords: passwords,
       tempDir,
       outputPaths: [],
+      files: pendingFiles(inputs),
       createdAt: new Date().toISOString(),
     };
 
     this.jobs.set(id, job);
+    if (passwordsMissing(job).length > 0) {
+      // Parked until providePassword() — expires like a finished job if nobody answers
+      job.status = "password_required";
+      this._armCleanup(job);
+      return id;
+    }
+    if (this._fullyCached(job)) {
+      // Nothing for soffice to do — finish without waiting for a slot
+      job.status = "running";
+      this._persist(job);
+      void this._run(job);
+      return id;
+    }
+    this._persist(job);
     this._updatePositions();
     this._scheduleNext();
     return id;
@@ -92,12 +413,101 @@ class ConversionQueue {
     return this.jobs.get(id);
   }
 
-  getStats(): { running: number; pending: number; maxConcurrent: number } {
+  /**
+   * Supplies the password of one encrypted input of a "password_required"
+   * job. Once none is missing the job joins the queue. The password is not
+   * checked here — a wrong one fails that file with "password_incorrect".
+   */
+  providePassword(
+    id: string,
+    fileName: string,
+    password: string
+  ): "accepted" | "not_found" | "not_waiting" | "unknown_file" {
+    const job = this.jobs.get(id);
+    if (!job) return "not_found";
+    if (job.status !== "password_required") return "not_waiting";
+    if (!job.encryptedInputs.includes(fileName)) return "unknown_file";
+
+    job._passwords.set(fileName, password);
+    if (passwordsMissing(job).length === 0) {
+      if (job._cleanupTimer) clearTimeout(job._cleanupTimer);
+      job._cleanupTimer = undefined;
+      job.expiresAt = undefined;
+      job.status = "pending";
+      this._persist(job);
+      this._updatePositions();
+      this._scheduleNext();
+    }
+    return "accepted";
+  }
+
+  /**
+   * Stops a job. A waiting job simply leaves the queue; a running one has
+   * its soffice process killed and its remaining files skipped. Either way
+   * the job ends "cancelled" and is cleaned up like a finished one.
+   */
+  cancel(id: string): "cancelled" | "not_found" | "finished" {
+    const job = this.jobs.get(id);
+    if (!job) return "not_found";
+    if (job.status !== "pending" && job.status !== "password_required" && job.status !== "running") {
+      return "finished";
+    }
+
+    const wasRunning = job.status === "running";
+    job.status = "cancelled";
+    job.retry = undefined;
+    job._passwords.clear();
+    this._updatePositions();
+    if (wasRunning) {
+      // _run sees the status, records the skipped files and arms the cleanup
+      job._abort?.abort();
+      this._persist(job);
+    } else {
+      this._armCleanup(job);
+    }
+    return "cancelled";
+  }
+
+  /**
+   * Seconds until a pending job starts or a running one finishes, predicted
+   * from the durations of recent conversions (see estimator.ts).
+   */
+  estimate(id: string): { estimatedWaitSeconds?: number; estimatedRemainingSeconds?: number } {
+    const job = this.jobs.get(id);
+    const now = Date.now();
+    if (job?.status === "running") {
+      return { estimatedRemainingSeconds: Math.round(this._remainingSeconds(job, now)) };
+    }
+    const wait = job?.status === "pending" ? this._forecast(now).starts.get(id) : undefined;
+    return wait !== undefined ? { estimatedWaitSeconds: Math.round(wait) } : {};
+  }
+
+  getStats(): {
+    running: number;
+    pending: number;
+    maxConcurrent: number;
+    /** Seconds a job enqueued now would wait for a slot */
+    estimatedWaitSeconds: number;
+    /** Mean seconds per conversion recently; undefined before the first */
+    averageSeconds?: number;
+    throughputPerMinute: number;
+    cache: ConversionCacheStats;
+  } {
     let pending = 0;
     Array.from(this.jobs.values()).forEach((job) => {
       if (job.status === "pending") pending++;
     });
-    return { running: this.running, pending, maxConcurrent: this.maxConcurrent };
+    const conversions = conversionEstimator.getStats();
+    const round = (n: number) => Math.round(n * 10) / 10;
+    return {
+      running: this.running,
+      pending,
+      maxConcurrent: this.maxConcurrent,
+      estimatedWaitSeconds: Math.round(this._forecast(Date.now()).nextSlot),
+      averageSeconds: conversions.averageSeconds !== undefined ? round(conversions.averageSeconds) : undefined,
+      throughputPerMinute: round(conversions.throughputPerMinute),
+      cache: conversionCache.getStats(),
+    };
   }
 
   /**
@@ -108,8 +518,10 @@ class ConversionQueue {
     const job = this.jobs.get(id);
     if (!job) return;
     if (job._cleanupTimer) clearTimeout(job._cleanupTimer);
+    job._passwords.clear();
     this._removeTempDir(job.tempDir);
     this.jobs.delete(id);
+    this._unpersist(id);
   }
 
   // -------------------------------------------------------------------------
@@ -127,8 +539,10 @@ class ConversionQueue {
     if (!next) return;
 
     this.running++;
+    this.scheduler.started(next.client);
     next.status = "running";
     next.position = undefined;
+    this._persist(next);
     this._updatePositions();
 
     this._run(next).finally(() => {
@@ -137,54 +551,483 @@ class ConversionQueue {
     });
   }
 
+  /**
+   * Every input is in the conversion cache and the output is PDF, so the
+   * job is file copies (plus merging) only. Image output still rasterises
+   * and takes a slot.
+   */
+  private _fullyCached(job: Job): boolean {
+    return (
+      (job.options.outputFormat ?? "pdf") === "pdf" &&
+      job.inputs.every((name) => name in job.cacheKeys && conversionCache.has(job.cacheKeys[name]))
+    );
+  }
+
   private async _run(job: Job): Promise<void> {
+    job._abort = new AbortController();
     try {
-      const inputFiles = fs
-        .readdirSync(job.tempDir)
-        .filter((f) => [".ppt", ".pptx"].includes(path.extname(f).toLowerCase()));
-
-      for (const fileName of inputFiles) {
-        const inputPath = path.join(job.tempDir, fileName);
-        const baseName = path.basename(fileName, path.extname(fileName));
-        const outputPath = path.join(job.tempDir, `${baseName}.pdf`);
-
-        const ok = await convertFileDirect(inputPath, outputPath);
-        if (ok) {
-          job.outputPaths.push(outputPath);
+      for (let i = 0; i < job.inputs.length; i++) {
+        const fileName = job.inputs[i];
+        if (job.status === "cancelled") {
+          job.files[i] = { name: fileName, status: "failed", code: "cancelled", error: "Skipped: job cancelled" };
+          continue;
         }
+        const startedAt = new Date().toISOString();
+        job.files[i] = { name: fileName, status: "running", startedAt };
+        this._persist(job);
+
+        const { result, outputs } = await this._convertWithRetry(job, fileName);
+        job._passwords.delete(fileName);
+        const outputBytes = result.status === "done" ? totalSize(outputs) : undefined;
+        if (result.status === "done" && job.options.artifacts?.includes("text")) {
+          const text = this._writeSlideText(job, fileName);
+          result.slides = text.slides;
+          outputs.push(...text.outputs);
+        }
+        if (result.status === "done" && job.options.artifacts?.includes("media")) {
+          const media = this._writeMedia(job, fileName);
+          result.media = media.summary;
+          outputs.push(...media.outputs);
+        }
+        job.files[i] = {
+          ...result,
+          stripped: job.sanitized[fileName],
+          unsanitized: job.unsanitized[fileName],
+          startedAt,
+          finishedAt: new Date().toISOString(),
+          outputBytes,
+        };
+        job.outputPaths.push(...outputs);
+        this._persist(job);
       }
 
-      if (job.outputPaths.length === 0) {
-        job.status = "error";
-        job.error = "All conversions failed.";
+      if (job.status !== "cancelled" && job.options.outputMode === "merge" && job.outputPaths.length > 0) {
+        await this._merge(job);
+      }
+
+      if (job.status === "cancelled") {
+        // Partial output is not downloadable — drop it now rather than at cleanup
+        for (const output of job.outputPaths) fs.rmSync(output, { force: true });
+        job.outputPaths = [];
+      } else if (job.outputPaths.length === 0) {
+        const timedOut = job.files.some((f) => f.code === "timeout");
+        const code = commonErrorCode(job);
+        job.status = timedOut ? "timeout" : "error";
+        job.error = timedOut
+          ? "Conversion timed out — the presentation may be damaged or too complex."
+          : code
+            ? CONVERSION_ERROR_MESSAGES[code].en
+            : "All conversions failed.";
       } else {
-        job.status = "done";
+        job.status = job.files.some((f) => f.status === "failed") ? "partial" : "done";
       }
     } catch (err: any) {
-      job.status = "error";
-      job.error = err?.message ?? "Unknown error";
+      if (job.status !== "cancelled") {
+        job.status = "error";
+        job.error = err?.message ?? "Unknown error";
+      }
     }
+    job._abort = undefined;
+    job._passwords.clear();
 
     // Schedule automatic cleanup after TTL
-    job._cleanupTimer = setTimeout(() => this.cleanup(job.id), JOB_TTL_MS);
+    this._armCleanup(job);
   }
 
-  private _nextPendingJob(): Job | undefined {
+  /**
+   * _convertOne, repeated with exponential backoff while the failure is
+   * transient. `job.retry` tells the status API which attempt is running.
+   * Cancelling the job cuts the backoff short and starts no further attempt.
+   */
+  private async _convertWithRetry(
+    job: Job,
+    fileName: string
+  ): Promise<{ result: JobFileResult; outputs: string[] }> {
+    let lastError: string | undefined;
+    for (let attempt = 1; ; attempt++) {
+      if (job._abort?.signal.aborted) {
+        job.retry = undefined;
+        return {
+          result: {
+            name: fileName,
+            status: "failed",
+            code: "cancelled",
+            error: "Cancelled before retry",
+            attempts: attempt - 1,
+            lastError,
+          },
+          outputs: [],
+        };
+      }
+      const converted = await this._convertOne(job, fileName);
+      const { result } = converted;
+      if (result.status === "failed") lastError = result.error;
+
+      const transient = result.code !== undefined && TRANSIENT_ERROR_CODES.has(result.code);
+      if (!transient || attempt >= MAX_ATTEMPTS || job.status === "cancelled") {
+        job.retry = undefined;
+        return { ...converted, result: { ...result, attempts: attempt, lastError } };
+      }
+
+      console.warn(`[Queue] ${fileName} failed (${result.code}), retrying (${attempt + 1}/${MAX_ATTEMPTS})`);
+      job.retry = { fileName, attempt: attempt + 1, maxAttempts: MAX_ATTEMPTS };
+      await sleep(retryDelayMs(attempt), job._abort?.signal);
+    }
+  }
+
+  /**
+   * Converts one input file and returns its outcome plus its artifacts
+   * (empty on failure). Slide images are rendered from an intermediate PDF,
+   * which is then removed.
+   */
+  private async _convertOne(
+    job: Job,
+    fileName: string
+  ): Promise<{ result: JobFileResult; outputs: string[] }> {
+    const inputPath = path.join(job.tempDir, fileName);
+    const baseName = outputStems(job.inputs).get(fileName)!;
+    const pdfPath = path.join(job.tempDir, `${baseName}.pdf`);
+
+    const thumbnailTarget = path.join(job.tempDir, `${baseName}.thumb.png`);
+    const key: string | undefined = job.cacheKeys[fileName];
+
+    let done: JobFileResult;
+    let thumbnailPath: string | undefined;
+    const cached = key !== undefined ? conversionCache.get(key) : undefined;
+    if (cached) {
+      fs.copyFileSync(cached.pdfPath, pdfPath);
+      if (cached.thumbnailPath) {
+        fs.copyFileSync(cached.thumbnailPath, thumbnailTarget);
+        thumbnailPath = thumbnailTarget;
+      }
+      done = {
+        name: fileName,
+        status: "done",
+        verification: cached.verification,
+        fontSubstitutions: cached.fontSubstitutions,
+      };
+    } else {
+      // Rare for cache-only jobs: the entry was evicted after enqueue — convert normally
+      const startedAt = Date.now();
+      const converted = await convertFileDirect(
+        inputPath,
+        pdfPath,
+        optionsForFile(job.options, fileName),
+        job._passwords.get(fileName),
+        job._abort?.signal
+      );
+      if (!converted.ok) {
+        return {
+          result: { name: fileName, status: "failed", code: converted.code, error: converted.error },
+          outputs: [],
+        };
+      }
+      conversionEstimator.record({ ...job.inputStats[fileName], seconds: (Date.now() - startedAt) / 1000 });
+      done = {
+        name: fileName,
+        status: "done",
+        verification: converted.verification,
+        fontSubstitutions: converted.fontSubstitutions,
+      };
+      thumbnailPath = await this._thumbnail(pdfPath, thumbnailTarget);
+      if (key !== undefined) this._cachePut(key, pdfPath, thumbnailPath, done);
+    }
+
+    const format = job.options.outputFormat ?? "pdf";
+    if (format === "pdf") {
+      return { result: { ...done, thumbnailPath }, outputs: [pdfPath] };
+    }
+
+    try {
+      const slides = await renderSlides(
+        pdfPath,
+        path.join(job.tempDir, baseName),
+        format,
+        job.options.imageWidth ?? DEFAULT_IMAGE_WIDTH
+      );
+      return { result: { ...done, thumbnailPath }, outputs: slides };
+    } catch (err) {
+      console.error(`[Queue] Slide rendering failed for ${fileName}: ${err}`);
+      const code = err instanceof ConversionTimeoutError ? "timeout" : "render_failed";
+      return {
+        result: { name: fileName, status: "failed", code, error: String(err) },
+        outputs: [],
+      };
+    } finally {
+      fs.rmSync(pdfPath, { force: true });
+    }
+  }
+
+  /** Caching is an optimisation — a full disk must not fail the conversion */
+  private _cachePut(key: string, pdfPath: string, thumbnailPath: string | undefined, done: JobFileResult): void {
+    try {
+      conversionCache.put(key, pdfPath, thumbnailPath, {
+        verification: done.verification!,
+        fontSubstitutions: done.fontSubstitutions,
+      });
+    } catch (err) {
+      console.error(`[Queue] Could not cache ${done.name}: ${err}`);
+    }
+  }
+
+  /**
+   * Best-effort first-slide preview: a missing poppler or an odd PDF must
+   * not fail a conversion that already succeeded.
+   */
+  private async _thumbnail(pdfPath: string, targetPath: string): Promise<string | undefined> {
+    try {
+      await renderThumbnail(pdfPath, targetPath);
+      return targetPath;
+    } catch (err) {
+      console.error(`[Queue] Thumbnail rendering failed for ${path.basename(pdfPath)}: ${err}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * slides.json and slides.md in the deck's folder. Best effort like the
+   * thumbnail: decks without OOXML slide parts (ODP, .ppt, encrypted) get none.
+   */
+  private _writeSlideText(job: Job, fileName: string): { slides?: SlideText[]; outputs: string[] } {
+    try {
+      const slides = extractSlideText(fs.readFileSync(path.join(job.tempDir, fileName)));
+      if (!slides) return { outputs: [] };
+
+      const baseName = outputStems(job.inputs).get(fileName)!;
+      const dir = path.join(job.tempDir, baseName);
+      ensureDir(dir);
+      const jsonPath = path.join(dir, SLIDE_TEXT_JSON);
+      const markdownPath = path.join(dir, SLIDE_TEXT_MARKDOWN);
+      fs.writeFileSync(jsonPath, JSON.stringify({ name: fileName, slides }, null, 2));
+      fs.writeFileSync(markdownPath, slideTextMarkdown(baseName, slides));
+      return { slides, outputs: [jsonPath, markdownPath] };
+    } catch (err) {
+      console.error(`[Queue] Text extraction failed for ${fileName}: ${err}`);
+      return { outputs: [] };
+    }
+  }
+
+  /**
+   * `<deck>/media/` with the embedded media and its manifest, within what
+   * is left of the job's MEDIA_MAX_BYTES. Best effort, like the text.
+   */
+  private _writeMedia(job: Job, fileName: string): { summary?: MediaSummary; outputs: string[] } {
+    try {
+      const baseName = outputStems(job.inputs).get(fileName)!;
+      const extracted = extractMedia(
+        fs.readFileSync(path.join(job.tempDir, fileName)),
+        fileName,
+        path.join(job.tempDir, baseName),
+        Math.max(0, MEDIA_MAX_BYTES - job.mediaBytes)
+      );
+      if (!extracted) return { outputs: [] };
+
+      job.mediaBytes += extracted.sizeBytes;
+      if (extracted.manifest.skipped.length > 0) {
+        const skipped = extracted.manifest.skipped.length;
+        console.warn(`[Queue] Media size cap reached for ${fileName}: ${skipped} item(s) skipped`);
+      }
+      const summary = {
+        items: extracted.manifest.items.length,
+        sizeBytes: extracted.sizeBytes,
+        skipped: extracted.manifest.skipped.length,
+      };
+      return { summary, outputs: extracted.outputs };
+    } catch (err) {
+      console.error(`[Queue] Media extraction failed for ${fileName}: ${err}`);
+      return { outputs: [] };
+    }
+  }
+
+  /**
+   * Replaces the per-deck PDFs with one combined PDF, in job order. The
+   * parts are deleted afterwards — only the merged file (and any
+   * artifacts) is downloadable.
+   */
+  private async _merge(job: Job): Promise<void> {
+    // Per-deck PDFs sit at the top of tempDir; artifacts live in the deck folders
+    const isDeckPdf = (p: string) => path.dirname(p) === job.tempDir && path.extname(p).toLowerCase() === ".pdf";
+    const others = job.outputPaths.filter((p) => !isDeckPdf(p));
+    const parts = job.outputPaths
+      .filter(isDeckPdf)
+      .map((pdfPath) => ({
+        title: path.basename(pdfPath, ".pdf"),
+        pdfPath,
+      }));
+    const mergedPath = path.join(job.tempDir, "merged", MERGED_PDF_NAME);
+    ensureDir(path.dirname(mergedPath));
+    fs.writeFileSync(
+      mergedPath,
+      await mergePdfs(parts, { tableOfContents: job.options.tableOfContents })
+    );
+    for (const part of parts) fs.rmSync(part.pdfPath, { force: true });
+    job.outputPaths = [mergedPath, ...others];
+  }
+
+  /** Predicted seconds of conversion work left in `job`; the running file counts what remains of it */
+  private _remainingSeconds(job: Job, now: number): number {
+    const pdf = (job.options.outputFormat ?? "pdf") === "pdf";
+    return job.files.reduce((sum, f) => {
+      if (f.status === "done" || f.status === "failed") return sum;
+      const key: string | undefined = job.cacheKeys[f.name];
+      if (pdf && key !== undefined && conversionCache.has(key)) return sum;
+      const seconds = conversionEstimator.estimateSeconds(job.inputStats[f.name] ?? { bytes: 0 });
+      const elapsed = f.status === "running" && f.startedAt ? (now - Date.parse(f.startedAt)) / 1000 : 0;
+      return sum + Math.max(0, seconds - elapsed);
+    }, 0);
+  }
+
+  /**
+   * Plays the queue forward: running jobs hold their slots for their
+   * remaining time, then each pending job takes the slot that frees up
+   * first, in queue order. Returns each pending job's predicted start and
+   * when a slot frees up after all of them (seconds from now).
+   */
+  private _forecast(now: number): { starts: Map<string, number>; nextSlot: number } {
+    const jobs = Array.from(this.jobs.values());
+    // Cache-only jobs run without a slot; they finish almost at once anyway
+    const slots = jobs
+      .filter((job) => job.status === "running")
+      .map((job) => this._remainingSeconds(job, now))
+      .sort((a, b) => b - a)
+      .slice(0, this.maxConcurrent);
+    while (slots.length < this.maxConcurrent) slots.push(0);
+
+    const starts = new Map<string, number>();
+    jobs
+      .filter((job) => job.status === "pending")
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .forEach((job) => {
+        const slot = slots.indexOf(Math.min(...slots));
+        starts.set(job.id, slots[slot]);
+        slots[slot] += this._remainingSeconds(job, now);
+      });
+    return { starts, nextSlot: Math.min(...slots) };
+  }
+
+  /** Deletes the job at `deadline` (epoch ms, default JOB_TTL_MS from now) and persists it */
+  private _armCleanup(job: Job, deadline = Date.now() + JOB_TTL_MS): void {
+    if (job._cleanupTimer) clearTimeout(job._cleanupTimer);
+    job._cleanupTimer = setTimeout(() => this.cleanup(job.id), deadline - Date.now());
+    job.expiresAt = new Date(deadline).toISOString();
+    this._persist(job);
+  }
+
+  /** Writes the job through to the store; the in-memory queue stays authoritative */
+  private _persist(job: Job): void {
+    try {
+      this.store.put(storedJob(job));
+    } catch (err) {
+      console.error(`[Queue] Could not persist job ${job.id}: ${err}`);
+    }
+  }
+
+  private _unpersist(id: string): void {
+    try {
+      this.store.delete(id);
+    } catch (err) {
+      console.error(`[Queue] Could not remove job ${id} from the job store: ${err}`);
+    }
+  }
+
+  /**
+   * Re-hydrates the jobs of a previous process. Interrupted "running" jobs
+   * start over as pending; passwords were never stored, so jobs with
+   * encrypted inputs wait for them again. Jobs whose temp dir is gone, or
+   * whose cleanup fell due while the process was down, are dropped.
+   */
+  private _restore(): void {
+    let stored: StoredJob[] = [];
+    try {
+      stored = this.store.load();
+    } catch (err) {
+      console.error(`[Queue] Could not load the job store: ${err}`);
+    }
+
+    for (const s of stored) {
+      if (!fs.existsSync(s.tempDir)) {
+        this._unpersist(s.id);
+        continue;
+      }
+      // Older logs lack the client (fair scheduling) and the unsanitized inputs
+      const job: Job = {
+        ...s,
+        client: s.client ?? "anonymous",
+        unsanitized: s.unsanitized ?? {},
+        _passwords: new Map(),
+      };
+      this.jobs.set(job.id, job);
+
+      if (job.status === "running") {
+        job.status = "pending";
+        job.files = pendingFiles(job.inputs);
+        job.outputPaths = [];
+        job.mediaBytes = 0;
+      }
+      if (job.status === "pending" || job.status === "password_required") {
+        if (passwordsMissing(job).length > 0) {
+          job.status = "password_required";
+          this._armCleanup(job);
+        } else {
+          this._persist(job);
+        }
+        continue;
+      }
+      // Finished: keep the original deadline — one that passed while we were down is due now
+      const deadline = job.expiresAt ? Date.parse(job.expiresAt) : Date.now() + JOB_TTL_MS;
+      if (deadline <= Date.now()) {
+        this.cleanup(job.id);
+        continue;
+      }
+      // The slide text was not stored (see storedJob), its slides.json was
+      if (job.options.artifacts?.includes("text")) this._reloadSlideText(job);
+      this._armCleanup(job, deadline);
+    }
+    if (stored.length > 0) console.log(`[Queue] Restored ${this.jobs.size} job(s) from the job store`);
+    this._updatePositions();
+    for (let i = 0; i < this.maxConcurrent; i++) this._scheduleNext();
+  }
+
+  /** Reads back what _writeSlideText wrote for each converted file of a restored job */
+  private _reloadSlideText(job: Job): void {
+    const stems = outputStems(job.inputs);
+    for (const file of job.files) {
+      if (file.status !== "done") continue;
+      try {
+        const jsonPath = path.join(job.tempDir, stems.get(file.name)!, SLIDE_TEXT_JSON);
+        file.slides = JSON.parse(fs.readFileSync(jsonPath, "utf8")).slides;
+      } catch {
+        // Decks without slide parts never had a slides.json
+      }
+    }
+  }
+
+  /** Pending jobs in the order the scheduler will start them */
+  private _pendingOrder(): Job[] {
     // Jobs are iterated in insertion order (Map preserves insertion order)
-    return Array.from(this.jobs.values()).find((job) => job.status === "pending");
+    return this.scheduler.order(Array.from(this.jobs.values()).filter((job) => job.status === "pending"));
+  }
+
+  private _nextPendingJob(): Job | undefined {
+    return this._pendingOrder()[0];
   }
 
   private _updatePositions(): void {
-    let pos = 1;
     Array.from(this.jobs.values()).forEach((job) => {
-      if (job.status === "pending") {
-        job.position = pos++;
-      } else {
-        job.position = undefined;
-      }
+      job.position = undefined;
+    });
+    this._pendingOrder().forEach((job, i) => {
+      job.position = i + 1;
     });
   }
 
+  /** Jobs of `client` not yet started — the ones PendingLimitError counts */
+  private _waitingJobs(client: string): number {
+    return Array.from(this.jobs.values()).filter(
+      (job) => job.client === client && (job.status === "pending" || job.status === "password_required")
+    ).length;
+  }
+
   private _removeTempDir(tempDir: string): void {
     try {
       if (fs.existsSync(tempDir)) {
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterAll, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pageNumberOf, parsePdfInfoPages, slideFileName } from "./rasterizer";
+
+describe("slideFileName", () => {
+  it("zero-pads to three digits with the format's extension", () => {
+    expect(slideFileName(1, "png")).toBe("slide-001.png");
+    expect(slideFileName(42, "jpeg")).toBe("slide-042.jpg");
+    expect(slideFileName(120, "svg")).toBe("slide-120.svg");
+  });
+});
+
+describe("pageNumberOf", () => {
+  it("reads pdftocairo's variable-width page numbers", () => {
+    expect(pageNumberOf("page-1.png", "page", ".png")).toBe(1);
+    expect(pageNumberOf("page-07.png", "page", ".png")).toBe(7);
+    expect(pageNumberOf("page-112.jpg", "page", ".jpg")).toBe(112);
+  });
+
+  it("ignores unrelated files", () => {
+    expect(pageNumberOf("slide-001.png", "page", ".png")).toBeUndefined();
+    expect(pageNumberOf("page-1.jpg", "page", ".png")).toBeUndefined();
+    expect(pageNumberOf("page-x.png", "page", ".png")).toBeUndefined();
+  });
+});
+
+describe("parsePdfInfoPages", () => {
+  it("extracts the page count", () => {
+    const out = "Producer:       LibreOffice 7.6\nPages:          12\nEncrypted:      no\n";
+    expect(parsePdfInfoPages(out)).toBe(12);
+  });
+
+  it("throws when pdfinfo output has no page count", () => {
+    expect(() => parsePdfInfoPages("Syntax Error")).toThrow();
+  });
+});
+
+describe("renderSlides", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rasterizer-test-"));
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("kills a hung poppler call and reports a timeout", async () => {
+    const hang = path.join(dir, "pdfinfo");
+    fs.writeFileSync(hang, "#!/bin/sh\nexec sleep 30\n", { mode: 0o755 });
+    vi.stubEnv("PDFINFO", hang);
+    vi.stubEnv("RENDER_TIMEOUT_MS", "200");
+    // Configuration is read at import
+    vi.resetModules();
+    const { renderSlides } = await import("./rasterizer");
+    const { ConversionTimeoutError } = await import("./soffice");
+
+    const started = Date.now();
+    await expect(renderSlides(path.join(dir, "deck.pdf"), path.join(dir, "out"), "png", 640)).rejects.toThrow(
+      ConversionTimeoutError
+    );
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+});
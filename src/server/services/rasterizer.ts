@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execFile } from "child_process";
+import type { OutputFormat } from "../schema";
+import { ensureDir } from "./converter";
+import { ConversionTimeoutError } from "./soffice";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Poppler binaries (Alpine: `poppler-utils`). LibreOffice itself can only
+ * export the FIRST slide to an image, so every slide is rendered from the
+ * intermediate PDF instead.
+ */
+const PDFTOCAIRO = process.env.PDFTOCAIRO ?? "pdftocairo";
+const PDFINFO = process.env.PDFINFO ?? "pdfinfo";
+
+/**
+ * Upper bound for a single poppler invocation. A malformed or huge PDF can
+ * keep pdftocairo busy indefinitely, holding the job's queue slot.
+ */
+const RENDER_TIMEOUT_MS = parseInt(process.env.RENDER_TIMEOUT_MS ?? "120000", 10);
+
+export type ImageFormat = Exclude<OutputFormat, "pdf">;
+
+/** Width of first-slide preview thumbnails (see renderThumbnail) */
+export const THUMBNAIL_WIDTH = 320;
+
+/** File extension written for each image format */
+const IMAGE_EXTENSIONS: Record<ImageFormat, string> = {
+  png: ".png",
+  jpeg: ".jpg",
+  svg: ".svg",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Rejects with ConversionTimeoutError once the process had to be killed */
+const execFileAsync = (file: string, args: string[]): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: RENDER_TIMEOUT_MS }, (err, stdout) => {
+      if (err?.killed) reject(new ConversionTimeoutError(RENDER_TIMEOUT_MS));
+      else if (err) reject(err);
+      else resolve(stdout);
+    });
+  });
+};
+
+/** Predictable artifact name: slide-001.png, slide-002.png, … */
+export function slideFileName(index: number, format: ImageFormat): string {
+  return `slide-${String(index).padStart(3, "0")}${IMAGE_EXTENSIONS[format]}`;
+}
+
+/** Reads the page count from `pdfinfo` output ("Pages:          12") */
+export function parsePdfInfoPages(stdout: string): number {
+  const match = /^Pages:\s+(\d+)/m.exec(stdout);
+  if (!match) throw new Error("pdfinfo did not report a page count");
+  return parseInt(match[1], 10);
+}
+
+/**
+ * pdftocairo names raster pages `<prefix>-<n>.png`, zero-padding <n> to the
+ * width of the page count (slide-1 … slide-9, or slide-01 … slide-12).
+ * Returns the page number, or undefined for unrelated files.
+ */
+export function pageNumberOf(fileName: string, prefix: string, ext: string): number | undefined {
+  if (!fileName.startsWith(`${prefix}-`) || !fileName.endsWith(ext)) return undefined;
+  const digits = fileName.slice(prefix.length + 1, fileName.length - ext.length);
+  return /^\d+$/.test(digits) ? parseInt(digits, 10) : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders every page of `pdfPath` into `outDir` as slide-NNN.<ext>.
+ * `width` applies to raster formats only; SVG is resolution-independent.
+ * Returns the absolute paths in slide order.
+ */
+export async function renderSlides(
+  pdfPath: string,
+  outDir: string,
+  format: ImageFormat,
+  width: number
+): Promise<string[]> {
+  ensureDir(outDir);
+  const pageCount = parsePdfInfoPages(await execFileAsync(PDFINFO, [pdfPath]));
+  const outputs: string[] = [];
+
+  if (format === "svg") {
+    // -svg writes a single page per invocation
+    for (let page = 1; page <= pageCount; page++) {
+      const target = path.join(outDir, slideFileName(page, format));
+      await execFileAsync(PDFTOCAIRO, ["-svg", "-f", String(page), "-l", String(page), pdfPath, target]);
+      outputs.push(target);
+    }
+    return outputs;
+  }
+
+  const prefix = "page";
+  const cairoExt = format === "png" ? ".png" : ".jpg";
+  await execFileAsync(PDFTOCAIRO, [
+    `-${format}`,
+    "-scale-to-x", String(width),
+    "-scale-to-y", "-1",
+    pdfPath,
+    path.join(outDir, prefix),
+  ]);
+
+  // Normalise pdftocairo's variable padding to slide-NNN
+  for (const fileName of fs.readdirSync(outDir)) {
+    const page = pageNumberOf(fileName, prefix, cairoExt);
+    if (page === undefined) continue;
+    const target = path.join(outDir, slideFileName(page, format));
+    fs.renameSync(path.join(outDir, fileName), target);
+    outputs[page - 1] = target;
+  }
+
+  if (outputs.filter(Boolean).length !== pageCount) {
+    throw new Error(`Rendered ${outputs.filter(Boolean).length} of ${pageCount} slides`);
+  }
+  return outputs;
+}
+
+/**
+ * Renders the first page of `pdfPath` as a small PNG at `targetPath`
+ * (which must end in .png) for previews in the UI.
+ */
+export async function renderThumbnail(pdfPath: string, targetPath: string): Promise<void> {
+  ensureDir(path.dirname(targetPath));
+  // -singlefile appends ".png" to the output root itself
+  await execFileAsync(PDFTOCAIRO, [
+    "-png",
+    "-singlefile",
+    "-f", "1",
+    "-l", "1",
+    "-scale-to-x", String(THUMBNAIL_WIDTH),
+    "-scale-to-y", "-1",
+    pdfPath,
+    targetPath.replace(/\.png$/, ""),
+  ]);
+  if (!fs.existsSync(targetPath)) throw new Error("pdftocairo produced no thumbnail");
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import AdmZip from "adm-zip";
+import { sanitizePresentation, unsanitizableReason } from "./sanitize";
+import { buildCompoundFile } from "./__fixtures__/compound-file";
+
+// ---------------------------------------------------------------------------
+// Fixture — a .pptm with a VBA project, an ActiveX control, an OLE-wrapped
+// executable, a loose .exe and an embedded workbook that must survive
+// ---------------------------------------------------------------------------
+
+const CONTENT_TYPES =
+  "<Types>" +
+  '<Default Extension="bin" ContentType="application/vnd.openxmlformats-officedocument.oleObject"/>' +
+  '<Override PartName="/ppt/presentation.xml" ContentType="application/vnd.ms-powerpoint.presentation.macroEnabled.main+xml"/>' +
+  '<Override PartName="/ppt/vbaProject.bin" ContentType="application/vnd.ms-office.vbaProject"/>' +
+  '<Override PartName="/ppt/activeX/activeX1.xml" ContentType="application/vnd.ms-office.activeX+xml"/>' +
+  "</Types>";
+
+function pptm(): Buffer {
+  const zip = new AdmZip();
+  zip.addFile("[Content_Types].xml", Buffer.from(CONTENT_TYPES));
+  zip.addFile("ppt/presentation.xml", Buffer.from("<p:presentation/>"));
+  zip.addFile(
+    "ppt/_rels/presentation.xml.rels",
+    Buffer.from(
+      "<Relationships>" +
+        '<Relationship Id="rId1" Type="slide" Target="slides/slide1.xml"/>' +
+        '<Relationship Id="rId9" Type="vbaProject" Target="vbaProject.bin"/>' +
+        "</Relationships>"
+    )
+  );
+  zip.addFile("ppt/vbaProject.bin", buildCompoundFile({ PROJECT: Buffer.from("ID=") }));
+  zip.addFile("ppt/slides/slide1.xml", Buffer.from("<p:sld/>"));
+  zip.addFile(
+    "ppt/slides/_rels/slide1.xml.rels",
+    Buffer.from(
+      "<Relationships>" +
+        '<Relationship Id="rId2" Type="control" Target="../activeX/activeX1.xml"/>' +
+        '<Relationship Id="rId3" Type="oleObject" Target="../embeddings/oleObject1.bin"/>' +
+        '<Relationship Id="rId4" Type="package" Target="../embeddings/Microsoft_Excel_Worksheet.xlsx"/>' +
+        '<Relationship Id="rId5" Type="hyperlink" Target="../embeddings/oleObject1.bin" TargetMode="External"/>' +
+        "</Relationships>"
+    )
+  );
+  zip.addFile("ppt/activeX/activeX1.xml", Buffer.from("<ax:ocx/>"));
+  zip.addFile(
+    "ppt/activeX/_rels/activeX1.xml.rels",
+    Buffer.from('<Relationships><Relationship Id="rId1" Target="activeX1.bin"/></Relationships>')
+  );
+  zip.addFile("ppt/activeX/activeX1.bin", Buffer.from("control"));
+  zip.addFile("ppt/embeddings/oleObject1.bin", buildCompoundFile({ "\u0001Ole10Native": Buffer.from("MZ") }));
+  zip.addFile("ppt/embeddings/setup.exe", Buffer.from("MZ"));
+  zip.addFile("ppt/embeddings/Microsoft_Excel_Worksheet.xlsx", Buffer.from("PK"));
+  return zip.toBuffer();
+}
+
+describe("sanitizePresentation", () => {
+  it("strips VBA, ActiveX and OLE-wrapped executables and records them", () => {
+    const { stripped } = sanitizePresentation(pptm());
+    expect(stripped).toEqual(
+      expect.arrayContaining([
+        { path: "ppt/vbaProject.bin", kind: "vba" },
+        { path: "ppt/activeX/activeX1.xml", kind: "activex" },
+        { path: "ppt/activeX/activeX1.bin", kind: "activex" },
+        { path: "ppt/embeddings/oleObject1.bin", kind: "ole_executable" },
+        { path: "ppt/embeddings/setup.exe", kind: "ole_executable" },
+      ])
+    );
+    expect(stripped).toHaveLength(5);
+  });
+
+  it("removes the parts with their content types and relationships", () => {
+    const zip = new AdmZip(sanitizePresentation(pptm()).buffer);
+    const names = zip.getEntries().map((e) => e.entryName);
+    expect(names).not.toContain("ppt/vbaProject.bin");
+    expect(names.some((n) => n.startsWith("ppt/activeX/"))).toBe(false);
+    expect(names).toContain("ppt/embeddings/Microsoft_Excel_Worksheet.xlsx");
+
+    const contentTypes = zip.readAsText("[Content_Types].xml");
+    expect(contentTypes).not.toContain("vbaProject");
+    expect(contentTypes).not.toContain("activeX");
+    expect(contentTypes).toContain("/ppt/presentation.xml");
+
+    expect(zip.readAsText("ppt/_rels/presentation.xml.rels")).not.toContain("rId9");
+    const slideRels = zip.readAsText("ppt/slides/_rels/slide1.xml.rels");
+    expect(slideRels).not.toContain('Id="rId2"');
+    expect(slideRels).not.toContain('Id="rId3"');
+    expect(slideRels).toContain('Id="rId4"');
+    // External targets are URLs, not parts of this package
+    expect(slideRels).toContain('Id="rId5"');
+  });
+
+  it("returns clean packages and non-OOXML input unchanged", () => {
+    const clean = new AdmZip();
+    clean.addFile("[Content_Types].xml", Buffer.from("<Types/>"));
+    clean.addFile("ppt/presentation.xml", Buffer.from("<p:presentation/>"));
+    const buffer = clean.toBuffer();
+    expect(sanitizePresentation(buffer)).toEqual({ buffer, stripped: [] });
+
+    const ppt = buildCompoundFile({ "PowerPoint Document": Buffer.alloc(16) });
+    expect(sanitizePresentation(ppt).buffer).toBe(ppt);
+  });
+});
+
+describe("unsanitizableReason", () => {
+  it("refuses legacy binary decks and encrypted decks", () => {
+    expect(unsanitizableReason(buildCompoundFile({ "PowerPoint Document": Buffer.alloc(16) }))).toBe("binary");
+    expect(
+      unsanitizableReason(buildCompoundFile({ EncryptionInfo: Buffer.alloc(8), EncryptedPackage: Buffer.alloc(64) }))
+    ).toBe("encrypted");
+    expect(unsanitizableReason(buildCompoundFile({ EncryptedSummary: Buffer.alloc(8) }))).toBe("encrypted");
+  });
+
+  it("accepts packages sanitizePresentation can rewrite", () => {
+    expect(unsanitizableReason(pptm())).toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+import * as path from "path";
+import type { StrippedPart, StrippedPartKind, UnsanitizedReason } from "../schema";
+import { CompoundFile, isCompoundFile } from "./ole";
+import { attr, isEncryptedPresentation, openZip, readPart } from "./presentation";
+
+// ---------------------------------------------------------------------------
+// sanitize.ts — Removing active content before a deck reaches LibreOffice
+//
+// Public uploads may be .pptm decks or carry ActiveX controls and OLE
+// "Package" objects (an arbitrary file, usually an executable, wrapped for
+// double-click). None of it changes how the slides render, so the OOXML
+// package is rewritten without those parts — and without the content-type
+// overrides and relationships that point at them — before it is written
+// into the job directory.
+//
+// Binary .ppt/.pps files keep their VBA and OLE storages inside the
+// "PowerPoint Document" stream (ole.ts is a reader, not a writer), and
+// encrypted decks cannot be opened at upload time. Neither can be cleaned:
+// they are converted as uploaded and the job says so per file (see
+// unsanitizableReason).
+// ---------------------------------------------------------------------------
+
+/** Extensions of embedded files that are programs or scripts, not documents */
+const EXECUTABLE_EXTENSIONS = new Set([
+  ".exe", ".com", ".scr", ".pif", ".bat", ".cmd", ".msi", ".dll", ".cpl",
+  ".js", ".jse", ".vbs", ".vbe", ".wsf", ".wsh", ".hta", ".ps1", ".jar", ".lnk",
+]);
+
+/** Stream of an OLE "Package" object: the wrapped file itself */
+const OLE_PACKAGE_STREAM = "\u0001Ole10Native";
+
+export interface SanitizeResult {
+  /** The rewritten package, or the input unchanged when nothing was stripped */
+  buffer: Buffer;
+  stripped: StrippedPart[];
+}
+
+/**
+ * Why sanitizePresentation cannot clean `buffer` (a legacy binary or an
+ * encrypted deck), or undefined when it can
+ */
+export function unsanitizableReason(buffer: Buffer): UnsanitizedReason | undefined {
+  // Encrypted OOXML is an OLE container too — check it first for the better message
+  if (isEncryptedPresentation(buffer)) return "encrypted";
+  if (isCompoundFile(buffer)) return "binary";
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Classification
+// ---------------------------------------------------------------------------
+
+/** An embedded OLE object that only wraps a file (see OLE_PACKAGE_STREAM) */
+function isOlePackage(data: Buffer): boolean {
+  if (!isCompoundFile(data)) return false;
+  try {
+    return new CompoundFile(data).streamNames().includes(OLE_PACKAGE_STREAM);
+  } catch {
+    return false;
+  }
+}
+
+/** Why `partName` must go, or undefined when it stays */
+function classifyPart(
+  partName: string,
+  contentType: string | undefined,
+  data: () => Buffer
+): StrippedPartKind | undefined {
+  const lower = partName.toLowerCase();
+  if (/(^|\/)vba(project(signature\w*)?\.bin|data\.xml)$/.test(lower) || /vbaProject/i.test(contentType ?? "")) {
+    return "vba";
+  }
+  if (lower.startsWith("ppt/activex/") || /activeX/i.test(contentType ?? "")) return "activex";
+  if (lower.startsWith("ppt/embeddings/")) {
+    if (EXECUTABLE_EXTENSIONS.has(path.posix.extname(lower))) return "ole_executable";
+    if (lower.endsWith(".bin") && isOlePackage(data())) return "ole_executable";
+  }
+  return undefined;
+}
+
+/** Part name an internal relationship target points at */
+function resolveTarget(relsName: string, target: string): string {
+  // ppt/slides/_rels/slide1.xml.rels describes ppt/slides/slide1.xml
+  const sourceDir = path.posix.dirname(path.posix.dirname(relsName));
+  const resolved = target.startsWith("/") ? target.slice(1) : path.posix.join(sourceDir, target);
+  return path.posix.normalize(resolved).replace(/^(\.\/)+/, "");
+}
+
+/** Relationship part describing `partName` (ppt/x.bin → ppt/_rels/x.bin.rels) */
+function relsPartOf(partName: string): string {
+  return path.posix.join(path.posix.dirname(partName), "_rels", `${path.posix.basename(partName)}.rels`);
+}
+
+// ---------------------------------------------------------------------------
+// Rewrite
+// ---------------------------------------------------------------------------
+
+/**
+ * Strips VBA projects, ActiveX controls and OLE-wrapped executables from an
+ * OOXML presentation. Anything that is not an OOXML package comes back
+ * unchanged with nothing stripped.
+ */
+export function sanitizePresentation(buffer: Buffer): SanitizeResult {
+  const zip = openZip(buffer);
+  const contentTypes = zip && readPart(zip, "[Content_Types].xml");
+  if (!zip || contentTypes === undefined) return { buffer, stripped: [] };
+
+  const overrides = new Map<string, string>();
+  for (const tag of contentTypes.match(/<Override\b[^>]*>/g) ?? []) {
+    const partName = attr(tag, "PartName");
+    const contentType = attr(tag, "ContentType");
+    if (partName && contentType) overrides.set(partName.replace(/^\//, "").toLowerCase(), contentType);
+  }
+
+  const stripped: StrippedPart[] = [];
+  const removed = new Set<string>();
+  for (const entry of zip.getEntries()) {
+    if (entry.isDirectory) continue;
+    const kind = classifyPart(entry.entryName, overrides.get(entry.entryName.toLowerCase()), () => entry.getData());
+    if (!kind) continue;
+    // A removed control's own relationships go with it, unreported
+    if (!entry.entryName.includes("/_rels/")) stripped.push({ path: entry.entryName, kind });
+    removed.add(entry.entryName.toLowerCase());
+  }
+  if (removed.size === 0) return { buffer, stripped };
+
+  Array.from(removed).forEach((name) => removed.add(relsPartOf(name)));
+  zip
+    .getEntries()
+    .map((entry) => entry.entryName)
+    .filter((name) => removed.has(name.toLowerCase()))
+    .forEach((name) => zip.deleteFile(name));
+
+  // Drop the content-type overrides and every relationship pointing at a removed part
+  zip.updateFile(
+    "[Content_Types].xml",
+    Buffer.from(
+      contentTypes.replace(/<Override\b[^>]*\/>/g, (tag) =>
+        removed.has((attr(tag, "PartName") ?? "").replace(/^\//, "").toLowerCase()) ? "" : tag
+      )
+    )
+  );
+  for (const entry of zip.getEntries()) {
+    if (!entry.entryName.endsWith(".rels")) continue;
+    const rels = entry.getData().toString("utf8");
+    const kept = rels.replace(/<Relationship\b[^>]*\/>/g, (tag) =>
+      attr(tag, "TargetMode") !== "External" &&
+      removed.has(resolveTarget(entry.entryName, attr(tag, "Target") ?? "").toLowerCase())
+        ? ""
+        : tag
+    );
+    if (kept !== rels) zip.updateFile(entry.entryName, Buffer.from(kept));
+  }
+
+  return { buffer: zip.toBuffer(), stripped };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { JobScheduler, parseWeights, type SchedulerOptions } from "./scheduler";
+
+function scheduler(options: Partial<SchedulerOptions> = {}) {
+  return new JobScheduler({ mode: "fair", weights: {}, maxPendingPerClient: 0, ...options });
+}
+
+/** Jobs "a1", "a2", ... for client "a", in the given submission order */
+function jobs(...ids: string[]) {
+  return ids.map((id) => ({ id, client: id[0] }));
+}
+
+const ids = (ordered: Array<{ id: string }>) => ordered.map((j) => j.id);
+
+describe("JobScheduler", () => {
+  it("keeps submission order in fifo mode", () => {
+    const pending = jobs("a1", "a2", "a3", "b1");
+    expect(ids(scheduler({ mode: "fifo" }).order(pending))).toEqual(["a1", "a2", "a3", "b1"]);
+  });
+
+  it("lets clients take turns", () => {
+    const pending = jobs("a1", "a2", "a3", "b1", "c1", "b2");
+    expect(ids(scheduler().order(pending))).toEqual(["a1", "b1", "c1", "a2", "b2", "a3"]);
+  });
+
+  it("puts a newcomer next to a client whose jobs already started", () => {
+    const s = scheduler();
+    s.started("a");
+    s.started("a");
+    expect(ids(s.order(jobs("a3", "a4", "b1")))).toEqual(["b1", "a3", "a4"]);
+  });
+
+  it("gives a weighted client more turns per round", () => {
+    const pending = jobs("a1", "a2", "a3", "a4", "b1", "b2");
+    expect(ids(scheduler({ weights: { a: 2 } }).order(pending))).toEqual(["a1", "b1", "a2", "a3", "b2", "a4"]);
+  });
+});
+
+describe("parseWeights", () => {
+  it("reads client=weight pairs and skips malformed ones", () => {
+    expect(parseWeights("api-key=3, ip:10.0.0.7=2,bad,ip:x=0,=4")).toEqual({ "api-key": 3, "ip:10.0.0.7": 2 });
+    expect(parseWeights(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,126 @@
+// ---------------------------------------------------------------------------
+// scheduler.ts — Which pending job gets the next conversion slot
+//
+// Strict FIFO lets one client who uploads five 20-file jobs hold every
+// slot for an hour. The fair mode shares the slots between submitters
+// (API key or IP) with start-time fair queueing: every client carries a
+// virtual "finish tag" that grows by 1/weight per started job, and the
+// next job goes to the client with the smallest start tag — so clients
+// take turns, a weight-2 client gets two turns per round, and a newcomer
+// starts level with the others instead of behind the whole backlog.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export type SchedulerMode = "fair" | "fifo";
+
+export interface SchedulerOptions {
+  mode: SchedulerMode;
+  /** Share per client id; clients not listed weigh 1 */
+  weights: Record<string, number>;
+  /** Pending jobs one client may have at a time; 0 = unlimited */
+  maxPendingPerClient: number;
+}
+
+/** "api-key=3,ip:10.0.0.7=2" → { "api-key": 3, "ip:10.0.0.7": 2 }; malformed entries are ignored */
+export function parseWeights(spec: string | undefined): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const entry of (spec ?? "").split(",")) {
+    const separator = entry.lastIndexOf("=");
+    const client = entry.slice(0, separator).trim();
+    const weight = Number(entry.slice(separator + 1));
+    if (separator > 0 && client && weight > 0) weights[client] = weight;
+  }
+  return weights;
+}
+
+export function schedulerOptionsFromEnv(): SchedulerOptions {
+  return {
+    mode: process.env.QUEUE_SCHEDULER === "fifo" ? "fifo" : "fair",
+    weights: parseWeights(process.env.QUEUE_CLIENT_WEIGHTS),
+    maxPendingPerClient: parseInt(process.env.QUEUE_MAX_PENDING_PER_CLIENT ?? "0", 10),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown by enqueue when the client already has maxPendingPerClient jobs waiting */
+export class PendingLimitError extends Error {
+  constructor(public readonly limit: number) {
+    super(`Too many jobs waiting (limit ${limit} per client)`);
+    this.name = "PendingLimitError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// JobScheduler
+// ---------------------------------------------------------------------------
+
+/** What the scheduler needs to know about a pending job */
+export interface SchedulableJob {
+  id: string;
+  /** Submitter: "api-key" or "ip:<address>" */
+  client: string;
+}
+
+export class JobScheduler {
+  /** Finish tag of each client's last started job; absent = at the virtual clock */
+  private finishTags = new Map<string, number>();
+  /** Start tag of the last started job */
+  private clock = 0;
+
+  constructor(readonly options: SchedulerOptions) {}
+
+  /**
+   * `pending` (in submission order) in the order the jobs will start,
+   * assuming no new submissions.
+   */
+  order<T extends SchedulableJob>(pending: T[]): T[] {
+    if (this.options.mode === "fifo") return pending.slice();
+
+    // Each client's jobs stay in submission order; only the interleaving is decided here
+    const queues = new Map<string, T[]>();
+    for (const job of pending) {
+      const queue = queues.get(job.client) ?? [];
+      queue.push(job);
+      queues.set(job.client, queue);
+    }
+
+    const finishTags = new Map(this.finishTags);
+    let clock = this.clock;
+    const ordered: T[] = [];
+    while (ordered.length < pending.length) {
+      let best: { client: string; start: number } | undefined;
+      // Map order is first-submission order, so ties go to the client waiting longest
+      for (const [client, queue] of Array.from(queues.entries())) {
+        if (queue.length === 0) continue;
+        const start = Math.max(clock, finishTags.get(client) ?? 0);
+        if (!best || start < best.start) best = { client, start };
+      }
+      const { client, start } = best!;
+      ordered.push(queues.get(client)!.shift()!);
+      finishTags.set(client, start + 1 / this._weight(client));
+      clock = start;
+    }
+    return ordered;
+  }
+
+  /** Records that a job of `client` got a slot */
+  started(client: string): void {
+    const start = Math.max(this.clock, this.finishTags.get(client) ?? 0);
+    this.finishTags.set(client, start + 1 / this._weight(client));
+    this.clock = start;
+    // A tag the clock has passed means the same as no tag — keep the map small
+    Array.from(this.finishTags.entries()).forEach(([id, tag]) => {
+      if (tag <= this.clock) this.finishTags.delete(id);
+    });
+  }
+
+  private _weight(client: string): number {
+    return this.options.weights[client] ?? 1;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import AdmZip from "adm-zip";
+import { extractSlideText, slideTextMarkdown } from "./slide-text";
+import { buildCompoundFile } from "./__fixtures__/compound-file";
+
+// ---------------------------------------------------------------------------
+// Fixture — two slides (the second hidden) with a title, a body with a
+// line break and a link split over two runs, a table and speaker notes
+// ---------------------------------------------------------------------------
+
+const run = (text: string, link?: string) =>
+  `<a:r><a:rPr lang="en-US">${link ? `<a:hlinkClick r:id="${link}"/>` : ""}</a:rPr><a:t>${text}</a:t></a:r>`;
+
+const shape = (ph: string, ...paras: string[]) =>
+  `<p:sp><p:nvSpPr><p:nvPr>${ph}</p:nvPr></p:nvSpPr><p:txBody>${paras.map((p) => `<a:p>${p}</a:p>`).join("")}</p:txBody></p:sp>`;
+
+function deck(): Buffer {
+  const zip = new AdmZip();
+  zip.addFile(
+    "ppt/presentation.xml",
+    Buffer.from('<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId3"/></p:sldIdLst></p:presentation>')
+  );
+  zip.addFile(
+    "ppt/_rels/presentation.xml.rels",
+    Buffer.from(
+      '<Relationships><Relationship Id="rId2" Type="slide" Target="slides/slide1.xml"/>' +
+        '<Relationship Id="rId3" Type="slide" Target="/ppt/slides/slide2.xml"/></Relationships>'
+    )
+  );
+  zip.addFile(
+    "ppt/slides/slide1.xml",
+    Buffer.from(
+      "<p:sld><p:cSld><p:spTree>" +
+        shape('<p:ph type="title"/>', run("Q3 &amp; Q4")) +
+        shape('<p:ph idx="1"/>', run("First line") + "<a:br/>" + run("second"), run("See "), run("our ", "rId7") + run("site", "rId7"), run("Next", "rId8")) +
+        "<p:graphicFrame><a:graphic><a:graphicData><a:tbl>" +
+        "<a:tr><a:tc><a:txBody><a:p>" + run("Region") + "</a:p></a:txBody></a:tc><a:tc><a:txBody><a:p>" + run("A|B") + "</a:p></a:txBody></a:tc></a:tr>" +
+        "<a:tr><a:tc><a:txBody><a:p>" + run("EU") + "</a:p></a:txBody></a:tc><a:tc/></a:tr>" +
+        "</a:tbl></a:graphicData></a:graphic></p:graphicFrame>" +
+        "</p:spTree></p:cSld></p:sld>"
+    )
+  );
+  zip.addFile(
+    "ppt/slides/_rels/slide1.xml.rels",
+    Buffer.from(
+      "<Relationships>" +
+        '<Relationship Id="rId7" Type="hyperlink" Target="https://example.com/?a=1&amp;b=2" TargetMode="External"/>' +
+        '<Relationship Id="rId8" Type="slide" Target="slide2.xml"/>' +
+        '<Relationship Id="rId9" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide" Target="../notesSlides/notesSlide1.xml"/>' +
+        "</Relationships>"
+    )
+  );
+  zip.addFile(
+    "ppt/notesSlides/notesSlide1.xml",
+    Buffer.from(
+      "<p:notes><p:cSld><p:spTree>" +
+        shape('<p:ph type="sldImg"/>') +
+        shape('<p:ph type="body" idx="1"/>', run("Mention the EU numbers"), "") +
+        shape('<p:ph type="sldNum"/>', run("1")) +
+        "</p:spTree></p:cSld></p:notes>"
+    )
+  );
+  zip.addFile("ppt/slides/slide2.xml", Buffer.from('<p:sld show="0"><p:cSld><p:spTree/></p:cSld></p:sld>'));
+  return zip.toBuffer();
+}
+
+describe("extractSlideText", () => {
+  it("reads title, body, tables, notes and external links per slide", () => {
+    const [first, second] = extractSlideText(deck())!;
+    expect(first).toEqual({
+      slide: 1,
+      hidden: false,
+      title: "Q3 & Q4",
+      body: ["First line\nsecond", "See", "our site", "Next"],
+      tables: [[["Region", "A|B"], ["EU", ""]]],
+      notes: ["Mention the EU numbers"],
+      hyperlinks: [{ text: "our site", url: "https://example.com/?a=1&b=2" }],
+    });
+    expect(second).toEqual({ slide: 2, hidden: true, body: [], tables: [], notes: [], hyperlinks: [] });
+  });
+
+  it("returns undefined for decks without OOXML slide parts", () => {
+    expect(extractSlideText(buildCompoundFile({ "PowerPoint Document": Buffer.alloc(16) }))).toBeUndefined();
+    expect(extractSlideText(Buffer.from("not a zip"))).toBeUndefined();
+  });
+});
+
+describe("slideTextMarkdown", () => {
+  it("renders headings, tables, notes and links", () => {
+    const markdown = slideTextMarkdown("Deck", extractSlideText(deck())!);
+    expect(markdown).toContain("# Deck\n");
+    expect(markdown).toContain("## Slide 1: Q3 & Q4\n");
+    expect(markdown).toContain("First line  \nsecond");
+    expect(markdown).toContain("| Region | A\\|B |\n| --- | --- |\n| EU |  |");
+    expect(markdown).toContain("**Notes**\n\nMention the EU numbers");
+    expect(markdown).toContain("- [our site](<https://example.com/?a=1&b=2>)");
+    expect(markdown).toContain("## Slide 2 (hidden)");
+  });
+});
@@ -0,0 +1,156 @@
+import type { SlideText } from "../schema";
+import {
+  attr,
+  decodeXml,
+  ooxmlSlideParts,
+  openZip,
+  readPart,
+  readRelationships,
+} from "./presentation";
+
+// ---------------------------------------------------------------------------
+// slide-text.ts — Per-slide text for indexers (artifact "text")
+//
+// Titles, body paragraphs, tables, speaker notes and hyperlinks are read
+// straight from the OOXML slide parts, like presentation.ts does for slide
+// counts — no soffice involved. The result is written next to the deck's
+// PDF as slides.json and a Markdown rendition, slides.md.
+// ---------------------------------------------------------------------------
+
+export const SLIDE_TEXT_JSON = "slides.json";
+export const SLIDE_TEXT_MARKDOWN = "slides.md";
+
+/** Placeholder types whose text is the slide title */
+const TITLE_PLACEHOLDERS = new Set(["title", "ctrTitle"]);
+
+const NOTES_SLIDE_REL = /\/notesSlide$/;
+
+// ---------------------------------------------------------------------------
+// DrawingML text
+// ---------------------------------------------------------------------------
+
+/** Text of runs and fields, `<a:br/>` as a newline — untrimmed */
+function runText(xml: string): string {
+  const tokens = /<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>|<a:br\b[^>]*>/g;
+  let text = "";
+  let m: RegExpExecArray | null;
+  while ((m = tokens.exec(xml))) text += m[1] !== undefined ? decodeXml(m[1]) : "\n";
+  return text;
+}
+
+function paragraphText(xml: string): string {
+  return runText(xml).trim();
+}
+
+/** Non-empty paragraphs of a text body, in order */
+function paragraphs(xml: string): string[] {
+  return (xml.match(/<a:p(?:\s[^>]*)?>[\s\S]*?<\/a:p>/g) ?? []).map(paragraphText).filter(Boolean);
+}
+
+/** Rows of cell texts; a cell's paragraphs are joined with a space */
+function tableRows(xml: string): string[][] {
+  return (xml.match(/<a:tr\b[\s\S]*?<\/a:tr>/g) ?? []).map((row) =>
+    (row.match(/<a:tc\b[^>]*\/>|<a:tc\b[\s\S]*?<\/a:tc>/g) ?? []).map((cell) => paragraphs(cell).join(" "))
+  );
+}
+
+/** Placeholder type of a shape (`<p:ph type="…">`); body placeholders may omit it */
+function placeholderType(shape: string): string | undefined {
+  const ph = /<p:ph\b[^>]*>/.exec(shape)?.[0];
+  return ph ? attr(ph, "type") ?? "body" : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+/**
+ * Text of every slide of an OOXML deck; undefined for other formats
+ * (ODP, binary .ppt) and for packages that cannot be opened (encrypted).
+ */
+export function extractSlideText(buffer: Buffer): SlideText[] | undefined {
+  const zip = openZip(buffer);
+  const slideParts = zip && ooxmlSlideParts(zip);
+  if (!zip || !slideParts) return undefined;
+
+  return slideParts.map((part, i) => {
+    const slide: SlideText = { slide: i + 1, hidden: false, body: [], tables: [], notes: [], hyperlinks: [] };
+    const xml = part ? readPart(zip, part) : undefined;
+    if (!part || xml === undefined) return slide;
+
+    const root = /<p:sld\b[^>]*>/.exec(xml)?.[0];
+    slide.hidden = !!root && attr(root, "show") === "0";
+
+    // Shapes and tables in document order (a table lives in a graphic frame, never in a shape)
+    for (const block of xml.match(/<p:sp\b[\s\S]*?<\/p:sp>|<a:tbl\b[\s\S]*?<\/a:tbl>/g) ?? []) {
+      if (block.startsWith("<a:tbl")) {
+        slide.tables.push(tableRows(block));
+      } else if (slide.title === undefined && TITLE_PLACEHOLDERS.has(placeholderType(block) ?? "")) {
+        const title = paragraphs(block).join(" ");
+        if (title) slide.title = title;
+      } else {
+        slide.body.push(...paragraphs(block));
+      }
+    }
+
+    const rels = readRelationships(zip, part);
+    for (const run of xml.match(/<a:r\b[\s\S]*?<\/a:r>/g) ?? []) {
+      const click = /<a:hlinkClick\b[^>]*>/.exec(run)?.[0];
+      const rel = click ? rels.get(attr(click, "r:id") ?? "") : undefined;
+      // Internal links jump to other slides — only URLs are worth indexing
+      if (!rel?.external) continue;
+      const text = runText(run);
+      const last = slide.hyperlinks[slide.hyperlinks.length - 1];
+      // A link spanning several formatted runs is one link
+      if (last && last.url === rel.target) last.text += text;
+      else slide.hyperlinks.push({ text, url: rel.target });
+    }
+
+    const notesPart = Array.from(rels.values()).find((r) => !r.external && NOTES_SLIDE_REL.test(r.type));
+    const notes = notesPart ? readPart(zip, notesPart.target) : undefined;
+    for (const shape of notes?.match(/<p:sp\b[\s\S]*?<\/p:sp>/g) ?? []) {
+      if (placeholderType(shape) === "body") slide.notes.push(...paragraphs(shape));
+    }
+    slide.hyperlinks.forEach((link) => (link.text = link.text.trim()));
+    return slide;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function tableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function markdownTable(rows: string[][]): string[] {
+  const width = Math.max(...rows.map((r) => r.length));
+  if (!(width > 0)) return [];
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => tableCell(cells[i] ?? "")).join(" | ")} |`;
+  return [line(rows[0]), `|${" --- |".repeat(width)}`, ...rows.slice(1).map(line), ""];
+}
+
+/** Markdown rendition of `slides` under a `# title` heading */
+export function slideTextMarkdown(title: string, slides: SlideText[]): string {
+  const lines = [`# ${title}`, ""];
+  for (const slide of slides) {
+    const heading = `## Slide ${slide.slide}${slide.title ? `: ${slide.title.replace(/\n/g, " ")}` : ""}`;
+    lines.push(slide.hidden ? `${heading} (hidden)` : heading, "");
+    for (const paragraph of slide.body) lines.push(paragraph.replace(/\n/g, "  \n"), "");
+    for (const table of slide.tables) lines.push(...markdownTable(table));
+    if (slide.notes.length > 0) {
+      lines.push("**Notes**", "");
+      for (const note of slide.notes) lines.push(note.replace(/\n/g, "  \n"), "");
+    }
+    if (slide.hyperlinks.length > 0) {
+      lines.push("**Links**", "");
+      for (const link of slide.hyperlinks) {
+        lines.push(`- [${link.text.replace(/[[\]]/g, "\\$&") || link.url}](<${link.url}>)`);
+      }
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
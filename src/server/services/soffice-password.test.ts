@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { passwordConvertArgs } from "./soffice-password";
+
+const base = {
+  soffice: "/usr/bin/soffice",
+  profileUrl: "file:///tmp/profile",
+  pipeName: "pptx-1",
+  sourcePath: "/tmp/job/deck.pptx",
+  targetPath: "/tmp/job/deck.pdf",
+  format: "pdf",
+};
+
+describe("passwordConvertArgs", () => {
+  it("splits a --convert-to filter into name and JSON filter data", () => {
+    const args = passwordConvertArgs({
+      ...base,
+      filter: 'impress_pdf_Export:{"SelectPdfVersion":{"type":"long","value":"1"}}',
+    });
+    expect(args.slice(2)).toEqual([
+      "/usr/bin/soffice",
+      "file:///tmp/profile",
+      "pptx-1",
+      "/tmp/job/deck.pptx",
+      "/tmp/job/deck.pdf",
+      "impress_pdf_Export",
+      '{"SelectPdfVersion":{"type":"long","value":"1"}}',
+      "",
+    ]);
+  });
+
+  it("falls back to the default export filter for the format", () => {
+    const args = passwordConvertArgs({ ...base, importFilter: "Impress MS PowerPoint 2007 XML" });
+    expect(args.slice(-3)).toEqual(["impress_pdf_Export", "{}", "Impress MS PowerPoint 2007 XML"]);
+  });
+
+  it("runs the script inline and reads the password from stdin", () => {
+    const args = passwordConvertArgs(base);
+    expect(args[0]).toBe("-c");
+    expect(args[1]).toContain("sys.stdin.readline()");
+  });
+});
@@ -0,0 +1,125 @@
+// ---------------------------------------------------------------------------
+// soffice-password.ts — Opening encrypted decks through the UNO API
+//
+// `soffice --convert-to` has no way to supply a document password, so an
+// encrypted deck would just hang on the (invisible) password dialog until
+// the timeout. For those files a short Python script (LibreOffice's own
+// UNO bindings, Alpine: `py3-libreoffice`) starts soffice on a private pipe,
+// loads the deck with the password in the import MediaDescriptor and stores
+// the PDF with the same export filter options as the command-line path.
+//
+// The password is written to the script's stdin: it never appears in argv
+// (visible to `ps`), in the environment, or on disk.
+// ---------------------------------------------------------------------------
+
+/** Interpreter with the `uno` module; LibreOffice's bundled python on macOS/Windows */
+export const SOFFICE_PYTHON = process.env.SOFFICE_PYTHON ?? "python3";
+
+/** Default export filter when the job has no filter options */
+const DEFAULT_EXPORT_FILTERS: Record<string, string> = {
+  pdf: "impress_pdf_Export",
+};
+
+/**
+ * argv: soffice, profile URL, pipe name, source path, target path,
+ *       export filter name, export filter data (JSON, see buildPdfFilter),
+ *       import filter name ("" = detect)
+ * stdin: the password, one line
+ *
+ * Exits 0 without writing the target when the deck cannot be loaded (e.g.
+ * a wrong password) — the caller treats a missing output as a load failure.
+ */
+const UNO_CONVERT_SCRIPT = String.raw`
+import json, subprocess, sys, time
+import uno
+from com.sun.star.beans import PropertyValue
+
+soffice, profile_url, pipe, source, target, filter_name, filter_data, import_filter = sys.argv[1:9]
+password = sys.stdin.readline().rstrip("\n")
+
+def prop(name, value):
+    p = PropertyValue()
+    p.Name = name
+    p.Value = value
+    return p
+
+def typed(entry):
+    if entry["type"] == "boolean":
+        return entry["value"] == "true"
+    if entry["type"] == "long":
+        return int(entry["value"])
+    return entry["value"]
+
+office = subprocess.Popen([
+    soffice, "-env:UserInstallation=" + profile_url, "--headless", "--invisible",
+    "--nologo", "--nodefault", "--norestore", "--accept=pipe,name=%s;urp;" % pipe,
+])
+
+local = uno.getComponentContext()
+resolver = local.ServiceManager.createInstanceWithContext("com.sun.star.bridge.UnoUrlResolver", local)
+context = None
+while context is None:
+    try:
+        context = resolver.resolve("uno:pipe,name=%s;urp;StarOffice.ComponentContext" % pipe)
+    except Exception:
+        if office.poll() is not None:
+            sys.exit("soffice exited with code %s before accepting connections" % office.returncode)
+        time.sleep(0.2)
+
+desktop = context.ServiceManager.createInstanceWithContext("com.sun.star.frame.Desktop", context)
+load = [prop("Hidden", True), prop("ReadOnly", True), prop("Password", password)]
+if import_filter:
+    load.append(prop("FilterName", import_filter))
+
+document = None
+try:
+    document = desktop.loadComponentFromURL(uno.systemPathToFileUrl(source), "_blank", 0, tuple(load))
+except Exception as error:
+    sys.stderr.write("could not load the document: %s\n" % type(error).__name__)
+
+if document is not None:
+    data = tuple(prop(key, typed(entry)) for key, entry in json.loads(filter_data).items())
+    store = [prop("FilterName", filter_name)]
+    if data:
+        store.append(prop("FilterData", uno.Any("[]com.sun.star.beans.PropertyValue", data)))
+    document.storeToURL(uno.systemPathToFileUrl(target), tuple(store))
+    document.close(True)
+
+try:
+    desktop.terminate()
+except Exception:
+    pass
+office.wait()
+`;
+
+export interface PasswordConvertArgs {
+  soffice: string;
+  profileUrl: string;
+  pipeName: string;
+  sourcePath: string;
+  targetPath: string;
+  format: string;
+  /** `--convert-to` style filter, e.g. `impress_pdf_Export:{…}` */
+  filter?: string;
+  importFilter?: string;
+}
+
+/** Arguments for SOFFICE_PYTHON; the password goes to stdin separately */
+export function passwordConvertArgs(args: PasswordConvertArgs): string[] {
+  const separator = args.filter?.indexOf(":") ?? -1;
+  const filterName =
+    separator >= 0 ? args.filter!.slice(0, separator) : args.filter ?? DEFAULT_EXPORT_FILTERS[args.format] ?? "";
+  const filterData = separator >= 0 ? args.filter!.slice(separator + 1) : "{}";
+  return [
+    "-c",
+    UNO_CONVERT_SCRIPT,
+    args.soffice,
+    args.profileUrl,
+    args.pipeName,
+    args.sourcePath,
+    args.targetPath,
+    filterName,
+    filterData,
+    args.importFilter ?? "",
+  ];
+}
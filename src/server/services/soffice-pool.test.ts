@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SofficePool } from "./soffice-pool";
+import { resolveSofficeBinary, sofficeConvert } from "./soffice";
+
+const describePosix = process.platform === "win32" ? describe.skip : describe;
+
+// ---------------------------------------------------------------------------
+// 1. Pool mechanics against a fake soffice (Node script, no LibreOffice)
+// ---------------------------------------------------------------------------
+
+/**
+ * Worker mode (--accept): listens on the UNO port and records its pid in the
+ * profile dir. Client mode (--convert-to): writes "<profile dir>" as the PDF
+ * so tests can see which worker served the request.
+ */
+const FAKE_SOFFICE = `
+const fs = require("fs");
+const net = require("net");
+const path = require("path");
+const { fileURLToPath } = require("url");
+const args = process.argv.slice(2);
+const profile = fileURLToPath(args.find((a) => a.startsWith("-env:UserInstallation=")).split("=")[1]);
+const accept = args.find((a) => a.startsWith("--accept="));
+if (accept) {
+  fs.mkdirSync(profile, { recursive: true });
+  fs.writeFileSync(path.join(profile, "pid"), String(process.pid));
+  net.createServer((s) => s.end()).listen(Number(/port=(\\d+)/.exec(accept)[1]), "127.0.0.1");
+} else {
+  const outdir = args[args.indexOf("--outdir") + 1];
+  const src = args[args.length - 1];
+  fs.writeFileSync(path.join(outdir, path.basename(src, path.extname(src)) + ".pdf"), profile);
+}
+`;
+
+describePosix("SofficePool", () => {
+  let dir: string;
+  let pool: SofficePool | undefined;
+  const originalSoffice = process.env.SOFFICE;
+  const basePort = 20_000 + Math.floor(Math.random() * 20_000);
+
+  const makePool = (size: number, maxConversionsPerWorker = 100) => {
+    pool = new SofficePool({
+      size,
+      basePort,
+      maxConversionsPerWorker,
+      startupTimeoutMs: 5_000,
+      profileRoot: path.join(dir, `profiles-${Math.random().toString(36).slice(2)}`),
+    });
+    return pool;
+  };
+
+  const convert = (p: SofficePool) =>
+    p.convert(Buffer.from("PK"), "deck.pptx", { format: "pdf", timeoutMs: 5_000 }).then(String);
+
+  const workerPid = (profile: string) => parseInt(fs.readFileSync(path.join(profile, "pid"), "utf8"), 10);
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "soffice-pool-test-"));
+    const script = path.join(dir, "fake-soffice");
+    fs.writeFileSync(script, `#!${process.execPath}\n${FAKE_SOFFICE}`, { mode: 0o755 });
+    process.env.SOFFICE = script;
+  });
+
+  afterEach(() => {
+    pool?.shutdown();
+    pool = undefined;
+  });
+
+  afterAll(() => {
+    if (originalSoffice === undefined) delete process.env.SOFFICE;
+    else process.env.SOFFICE = originalSoffice;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("dispatches concurrent conversions to different idle workers", async () => {
+    const p = makePool(2);
+    const served = await Promise.all([convert(p), convert(p)]);
+    expect(new Set(served).size).toBe(2);
+    expect(p.getStats()).toMatchObject({ size: 2, busy: 0, conversions: 2 });
+  });
+
+  it("restarts a worker after maxConversionsPerWorker conversions", async () => {
+    const p = makePool(1, 2);
+    const profile = await convert(p);
+    const firstPid = workerPid(profile);
+    await convert(p); // reaches the cap → restart
+    await convert(p); // served by the fresh instance
+    expect(p.getStats().restarts).toBe(1);
+    expect(workerPid(profile)).not.toBe(firstPid);
+  });
+
+  it("recycles a worker that crashed between conversions", async () => {
+    const p = makePool(1);
+    const profile = await convert(p);
+    process.kill(workerPid(profile), "SIGKILL");
+    await new Promise((r) => setTimeout(r, 200));
+    expect(p.getStats().restarts).toBe(1);
+    await expect(convert(p)).resolves.toBe(profile);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Throughput against a real local soffice (skipped when not installed)
+// ---------------------------------------------------------------------------
+
+const realSoffice = process.env.SOFFICE_REAL ?? resolveSofficeBinary();
+const hasRealSoffice = path.isAbsolute(realSoffice) && fs.existsSync(realSoffice);
+
+/** Minimal single-slide Flat ODP — no fixture files needed */
+const FLAT_ODP = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"
+  xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"
+  xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"
+  xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"
+  office:version="1.2" office:mimetype="application/vnd.oasis.opendocument.presentation">
+  <office:body><office:presentation>
+    <draw:page draw:name="page1"><draw:frame svg:x="2cm" svg:y="2cm" svg:width="10cm" svg:height="2cm">
+      <draw:text-box><text:p>Throughput</text:p></draw:text-box>
+    </draw:frame></draw:page>
+  </office:presentation></office:body>
+</office:document>`;
+
+describe.skipIf(!hasRealSoffice)("conversion throughput: spawn vs pool (local soffice)", () => {
+  const RUNS = 5;
+  const options = { format: "pdf", timeoutMs: 120_000 };
+  const input = Buffer.from(FLAT_ODP);
+  let pool: SofficePool | undefined;
+  let profileRoot: string;
+  const originalSoffice = process.env.SOFFICE;
+
+  beforeAll(() => {
+    process.env.SOFFICE = realSoffice;
+    profileRoot = fs.mkdtempSync(path.join(os.tmpdir(), "soffice-bench-"));
+  });
+
+  afterAll(() => {
+    pool?.shutdown();
+    if (originalSoffice === undefined) delete process.env.SOFFICE;
+    else process.env.SOFFICE = originalSoffice;
+    fs.rmSync(profileRoot, { recursive: true, force: true });
+  });
+
+  it(`converts ${RUNS} decks faster with a warm worker`, async () => {
+    const t0 = Date.now();
+    for (let i = 0; i < RUNS; i++) await sofficeConvert(input, "deck.fodp", options);
+    const spawnMs = Date.now() - t0;
+
+    pool = new SofficePool({
+      size: 1,
+      basePort: 2302,
+      maxConversionsPerWorker: 100,
+      startupTimeoutMs: 60_000,
+      profileRoot,
+    });
+    await pool.convert(input, "deck.fodp", options); // warm-up, excluded
+    const t1 = Date.now();
+    for (let i = 0; i < RUNS; i++) await pool.convert(input, "deck.fodp", options);
+    const poolMs = Date.now() - t1;
+
+    const perMinute = (ms: number) => ((RUNS / ms) * 60_000).toFixed(1);
+    console.log(
+      `[throughput] spawn: ${spawnMs}ms (${perMinute(spawnMs)}/min) — pool: ${poolMs}ms (${perMinute(poolMs)}/min)`
+    );
+    expect(poolMs).toBeLessThan(spawnMs);
+  }, 300_000);
+});
@@ -0,0 +1,275 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import * as net from "net";
+import { spawn, type ChildProcess } from "child_process";
+import { resetProfile } from "./soffice-profiles";
+import { applyFontReplacementTable } from "./fonts";
+import {
+  ConversionCancelledError,
+  ConversionTimeoutError,
+  killProcessTree,
+  resolveSofficeBinary,
+  sofficeConvert,
+  userInstallationArg,
+  type SofficeConvertOptions,
+} from "./soffice";
+
+// ---------------------------------------------------------------------------
+// soffice-pool.ts — Warm LibreOffice instances reused across conversions
+//
+// Starting soffice costs seconds per file, which dominates small decks.
+// Each worker here is a long-lived headless soffice with its own user
+// profile, listening on a local UNO socket. A conversion runs a short-lived
+// `soffice --convert-to` against the same profile: LibreOffice detects the
+// running instance through the profile's IPC pipe, forwards the request to
+// it and exits once the warm instance has written the output.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface SofficePoolOptions {
+  /** Number of warm soffice instances */
+  size: number;
+  /** UNO socket port of worker 0; worker i listens on basePort + i */
+  basePort: number;
+  /** Restart a worker after this many conversions to cap memory growth */
+  maxConversionsPerWorker: number;
+  /** How long a fresh worker may take to open its UNO socket */
+  startupTimeoutMs: number;
+  /** Parent directory of the per-worker profiles */
+  profileRoot: string;
+}
+
+function poolOptionsFromEnv(): SofficePoolOptions {
+  return {
+    size: parseInt(process.env.SOFFICE_POOL_SIZE ?? process.env.MAX_CONCURRENT_JOBS ?? "1", 10),
+    basePort: parseInt(process.env.SOFFICE_POOL_BASE_PORT ?? "2002", 10),
+    maxConversionsPerWorker: parseInt(process.env.SOFFICE_POOL_MAX_CONVERSIONS ?? "50", 10),
+    startupTimeoutMs: parseInt(process.env.SOFFICE_POOL_STARTUP_TIMEOUT_MS ?? "30000", 10),
+    profileRoot: process.env.SOFFICE_POOL_PROFILE_ROOT ?? path.join(os.tmpdir(), "pptx-soffice-pool"),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface PoolWorker {
+  id: number;
+  port: number;
+  profileDir: string;
+  /** Current soffice process — replaced on every (re)start */
+  process?: ChildProcess;
+  /** Resolves once the UNO socket accepts connections */
+  ready: Promise<void>;
+  busy: boolean;
+  /** Conversions since the last (re)start */
+  conversions: number;
+}
+
+export interface SofficePoolStats {
+  size: number;
+  busy: number;
+  restarts: number;
+  conversions: number;
+}
+
+// ---------------------------------------------------------------------------
+// SofficePool
+// ---------------------------------------------------------------------------
+
+export class SofficePool {
+  private readonly workers: PoolWorker[] = [];
+  /** Callers waiting for an idle worker, FIFO */
+  private waiters: Array<(worker: PoolWorker) => void> = [];
+  private restarts = 0;
+  private conversions = 0;
+  private closed = false;
+
+  constructor(private readonly options: SofficePoolOptions) {
+    for (let i = 0; i < options.size; i++) {
+      const worker: PoolWorker = {
+        id: i,
+        port: options.basePort + i,
+        profileDir: path.join(options.profileRoot, `worker-${i}`),
+        ready: Promise.resolve(),
+        busy: false,
+        conversions: 0,
+      };
+      this.workers.push(worker);
+      this._start(worker);
+    }
+  }
+
+  /**
+   * Converts on the next idle worker. Same contract as sofficeConvert():
+   * a timeout rejects with ConversionTimeoutError — the hung worker is
+   * killed and restarted before the slot is handed to the next caller.
+   * A cancelled conversion recycles the worker the same way, since the
+   * warm instance would otherwise keep converting the abandoned deck.
+   */
+  async convert(input: Buffer, inputName: string, options: SofficeConvertOptions): Promise<Buffer> {
+    const worker = await this._acquire();
+    let recycle = false;
+    try {
+      await worker.ready;
+      return await sofficeConvert(input, inputName, options, worker.profileDir);
+    } catch (err) {
+      // A hung or crashed instance would poison every later conversion
+      recycle =
+        err instanceof ConversionTimeoutError || err instanceof ConversionCancelledError || !this._isAlive(worker);
+      throw err;
+    } finally {
+      worker.conversions++;
+      this.conversions++;
+      if (recycle || worker.conversions >= this.options.maxConversionsPerWorker) {
+        this._restart(worker);
+      }
+      this._release(worker);
+    }
+  }
+
+  getStats(): SofficePoolStats {
+    return {
+      size: this.workers.length,
+      busy: this.workers.filter((w) => w.busy).length,
+      restarts: this.restarts,
+      conversions: this.conversions,
+    };
+  }
+
+  /** Kills every worker. The pool cannot be used afterwards. */
+  shutdown(): void {
+    this.closed = true;
+    for (const worker of this.workers) {
+      const child = worker.process;
+      worker.process = undefined; // exit handler must not restart it
+      if (child) killProcessTree(child);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal
+  // -------------------------------------------------------------------------
+
+  private _acquire(): Promise<PoolWorker> {
+    const idle = this.workers.find((w) => !w.busy);
+    if (idle) {
+      idle.busy = true;
+      return Promise.resolve(idle);
+    }
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  private _release(worker: PoolWorker): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next(worker); // hand over directly — stays busy
+    } else {
+      worker.busy = false;
+    }
+  }
+
+  private _isAlive(worker: PoolWorker): boolean {
+    return !!worker.process && worker.process.exitCode === null && worker.process.signalCode === null;
+  }
+
+  private _start(worker: PoolWorker): void {
+    fs.mkdirSync(worker.profileDir, { recursive: true });
+    // Read once at startup — table changes reach a worker when it is restarted
+    applyFontReplacementTable(worker.profileDir);
+
+    const child = spawn(
+      resolveSofficeBinary(),
+      [
+        userInstallationArg(worker.profileDir),
+        "--headless",
+        "--invisible",
+        "--nologo",
+        "--nodefault",
+        "--norestore",
+        "--nolockcheck",
+        `--accept=socket,host=127.0.0.1,port=${worker.port};urp;StarOffice.ComponentContext`,
+      ],
+      { detached: process.platform !== "win32", stdio: "ignore" }
+    );
+    worker.process = child;
+    worker.conversions = 0;
+    worker.ready = waitForPort(worker.port, this.options.startupTimeoutMs);
+    worker.ready.catch(() => {
+      // Surfaces on the next convert(); avoid an unhandled rejection meanwhile
+    });
+
+    const onGone = () => {
+      // Ignore exits of processes we already replaced or deliberately killed
+      if (worker.process !== child || this.closed) return;
+      console.error(`[SofficePool] Worker ${worker.id} exited unexpectedly — restarting`);
+      worker.process = undefined;
+      // A crash can leave the profile half-written; start the replacement clean
+      resetProfile(worker.profileDir);
+      // A busy worker is restarted when its in-flight conversion settles
+      if (!worker.busy) this._restart(worker);
+    };
+    child.on("exit", onGone);
+    child.on("error", onGone);
+  }
+
+  private _restart(worker: PoolWorker): void {
+    if (this.closed) return;
+    const old = worker.process;
+    worker.process = undefined;
+    if (old) killProcessTree(old);
+    this.restarts++;
+    this._start(worker);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Polls until something accepts TCP connections on 127.0.0.1:port */
+function waitForPort(port: number, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const attempt = () => {
+      const socket = net.connect({ host: "127.0.0.1", port });
+      socket.once("connect", () => {
+        socket.destroy();
+        resolve();
+      });
+      socket.once("error", () => {
+        socket.destroy();
+        if (Date.now() >= deadline) {
+          reject(new Error(`soffice worker did not open port ${port} within ${timeoutMs}ms`));
+        } else {
+          setTimeout(attempt, 250);
+        }
+      });
+    };
+    attempt();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Shared instance — created on first use so the spawn backend never starts it
+// ---------------------------------------------------------------------------
+
+let sharedPool: SofficePool | undefined;
+
+export function getSofficePool(): SofficePool {
+  if (!sharedPool) {
+    sharedPool = new SofficePool(poolOptionsFromEnv());
+    // Warm instances are detached — take them down with the server
+    process.once("exit", () => sharedPool?.shutdown());
+  }
+  return sharedPool;
+}
+
+/** Stats of the shared pool, or undefined when the pool backend is unused */
+export function getSofficePoolStats(): SofficePoolStats | undefined {
+  return sharedPool?.getStats();
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ProfileSlots } from "./soffice-profiles";
+import { ConversionCancelledError, ConversionTimeoutError, resolveSofficeBinary, sofficeConvert } from "./soffice";
+
+const describePosix = process.platform === "win32" ? describe.skip : describe;
+
+/**
+ * Fake soffice that behaves like the real profile lock: a second process on
+ * a profile already in use fails. A "corrupt" marker file in the profile
+ * makes it fail the way a damaged user installation does.
+ */
+const FAKE_SOFFICE = `
+for a in "$@"; do
+  case "$a" in -env:UserInstallation=file://*) profile="\${a#-env:UserInstallation=file://}";; esac
+done
+while [ "$1" != "--outdir" ]; do shift; done
+mkdir -p "$profile"
+if [ -f "$profile/corrupt" ]; then echo "User installation could not be completed" >&2; exit 1; fi
+if ! mkdir "$profile/.in-use" 2>/dev/null; then echo "profile is locked by another instance" >&2; exit 1; fi
+sleep 0.3
+printf converted > "$2/source.pdf"
+rmdir "$profile/.in-use"
+`;
+
+const OPTIONS = { format: "pdf", timeoutMs: 10_000 };
+const convertIn = (profileDir: string) => sofficeConvert(Buffer.from("PK"), "deck.pptx", OPTIONS, profileDir);
+
+describePosix("ProfileSlots", () => {
+  let dir: string;
+  const originalSoffice = process.env.SOFFICE;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "soffice-profiles-test-"));
+    const script = path.join(dir, "fake-soffice");
+    fs.writeFileSync(script, `#!/bin/sh\n${FAKE_SOFFICE}`, { mode: 0o755 });
+    process.env.SOFFICE = script;
+  });
+
+  afterAll(() => {
+    if (originalSoffice === undefined) delete process.env.SOFFICE;
+    else process.env.SOFFICE = originalSoffice;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("control: parallel conversions on ONE shared profile collide", async () => {
+    const shared = path.join(dir, "shared-profile");
+    const results = await Promise.allSettled([1, 2, 3, 4].map(() => convertIn(shared)));
+    expect(results.filter((r) => r.status === "rejected").length).toBeGreaterThan(0);
+  });
+
+  it("runs 4 parallel conversions on isolated profiles without collisions", async () => {
+    const slots = new ProfileSlots(path.join(dir, "slots-parallel"));
+    const results = await Promise.all([1, 2, 3, 4].map(() => slots.run(convertIn)));
+    expect(results.map(String)).toEqual(["converted", "converted", "converted", "converted"]);
+    expect(slots.size).toBe(4);
+  });
+
+  it("reuses profiles across sequential conversions", async () => {
+    const slots = new ProfileSlots(path.join(dir, "slots-reuse"));
+    for (let i = 0; i < 3; i++) await slots.run(convertIn);
+    expect(slots.size).toBe(1);
+  });
+
+  it("resets a corrupted profile and retries once", async () => {
+    const root = path.join(dir, "slots-corrupt");
+    const slots = new ProfileSlots(root);
+    await slots.run(convertIn); // creates slot-0
+    fs.writeFileSync(path.join(root, "slot-0", "corrupt"), "");
+
+    await expect(slots.run(convertIn).then(String)).resolves.toBe("converted");
+    expect(fs.existsSync(path.join(root, "slot-0", "corrupt"))).toBe(false);
+  });
+
+  it("resets the profile of a killed conversion without retrying", async () => {
+    const root = path.join(dir, "slots-killed");
+    const slots = new ProfileSlots(root);
+    const profile = path.join(root, "slot-0");
+    for (const killed of [new ConversionTimeoutError(10_000), new ConversionCancelledError()]) {
+      await slots.run(convertIn); // creates slot-0
+      fs.writeFileSync(path.join(profile, "registrymodifications.xcu"), "<truncated");
+      let calls = 0;
+      await expect(
+        slots.run(async () => {
+          calls++;
+          throw killed;
+        })
+      ).rejects.toBe(killed);
+      expect(calls).toBe(1);
+      expect(fs.existsSync(profile)).toBe(false);
+    }
+  });
+
+  it("does not retry ordinary conversion failures", async () => {
+    const slots = new ProfileSlots(path.join(dir, "slots-fail"));
+    let calls = 0;
+    await expect(
+      slots.run(async () => {
+        calls++;
+        throw new Error("soffice produced no output: source file could not be loaded");
+      })
+    ).rejects.toThrow(/could not be loaded/);
+    expect(calls).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Real LibreOffice (skipped when not installed)
+// ---------------------------------------------------------------------------
+
+const realSoffice = process.env.SOFFICE_REAL ?? resolveSofficeBinary();
+const hasRealSoffice = path.isAbsolute(realSoffice) && fs.existsSync(realSoffice);
+
+const FLAT_ODP = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"
+  xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"
+  office:version="1.2" office:mimetype="application/vnd.oasis.opendocument.presentation">
+  <office:body><office:presentation><draw:page draw:name="page1"/></office:presentation></office:body>
+</office:document>`;
+
+describe.skipIf(!hasRealSoffice)("ProfileSlots with a real soffice", () => {
+  it("converts 4 decks in parallel without profile-lock failures", async () => {
+    const original = process.env.SOFFICE;
+    process.env.SOFFICE = realSoffice;
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "soffice-profiles-real-"));
+    try {
+      const slots = new ProfileSlots(root);
+      const pdfs = await Promise.all(
+        [1, 2, 3, 4].map(() =>
+          slots.run((dir) =>
+            sofficeConvert(Buffer.from(FLAT_ODP), "deck.fodp", { format: "pdf", timeoutMs: 120_000 }, dir)
+          )
+        )
+      );
+      pdfs.forEach((pdf) => expect(pdf.subarray(0, 5).toString()).toBe("%PDF-"));
+    } finally {
+      if (original === undefined) delete process.env.SOFFICE;
+      else process.env.SOFFICE = original;
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  }, 300_000);
+});
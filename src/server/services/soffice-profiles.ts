@@ -0,0 +1,114 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { ConversionCancelledError, ConversionTimeoutError } from "./soffice";
+import { applyFontReplacementTable } from "./fonts";
+
+// ---------------------------------------------------------------------------
+// soffice-profiles.ts — One LibreOffice user profile per concurrent slot
+//
+// Two soffice processes sharing a profile collide on its lock: the second
+// one forwards its request to the first (or fails outright), which is why
+// MAX_CONCURRENT_JOBS used to be pinned to 1. A throwaway profile per run
+// avoids that but pays the profile-creation cost on every file. Here each
+// concurrent conversion borrows a persistent profile directory of its own:
+// created lazily, reused by later conversions, wiped when it goes bad.
+// ---------------------------------------------------------------------------
+
+/** Messages soffice prints when its user profile is unusable */
+const CORRUPT_PROFILE_PATTERNS = [
+  /user installation could not be completed/i,
+  /registrymodifications/i,
+  /bootstrap/i,
+];
+
+/**
+ * LibreOffice exits with 81 on the first start of a fresh profile in some
+ * versions ("restart required") without converting anything.
+ */
+const FIRST_START_EXIT = /exited with code 81\b/;
+
+export interface ProfileSlot {
+  index: number;
+  dir: string;
+}
+
+export class ProfileSlots {
+  private readonly slots: ProfileSlot[] = [];
+  private readonly busy = new Set<number>();
+
+  constructor(private readonly root: string) {}
+
+  /**
+   * Runs `convert` with an exclusive profile directory. A timeout, a
+   * cancellation or a corrupted-profile failure resets the profile; the
+   * latter (and the first-start exit) is retried once on the clean profile.
+   */
+  async run<T>(convert: (profileDir: string) => Promise<T>): Promise<T> {
+    const slot = this._acquire();
+    try {
+      try {
+        return await convert(slot.dir);
+      } catch (err) {
+        // Killed mid-write: registrymodifications.xcu may be truncated
+        if (err instanceof ConversionTimeoutError || err instanceof ConversionCancelledError) {
+          this.reset(slot);
+          throw err;
+        }
+        const message = String((err as Error)?.message ?? err);
+        if (FIRST_START_EXIT.test(message)) return await convert(slot.dir);
+        if (!CORRUPT_PROFILE_PATTERNS.some((p) => p.test(message))) throw err;
+
+        console.error(`[Profiles] Resetting corrupted profile slot ${slot.index}`);
+        this.reset(slot);
+        return await convert(slot.dir);
+      }
+    } finally {
+      this.busy.delete(slot.index);
+    }
+  }
+
+  /** Deletes a slot's profile; LibreOffice recreates it on the next start */
+  reset(slot: ProfileSlot): void {
+    resetProfile(slot.dir);
+  }
+
+  /** Number of profile directories created so far (= peak concurrency) */
+  get size(): number {
+    return this.slots.length;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal
+  // -------------------------------------------------------------------------
+
+  /** First idle slot, or a new one — never waits; the queue caps concurrency */
+  private _acquire(): ProfileSlot {
+    let slot = this.slots.find((s) => !this.busy.has(s.index));
+    if (!slot) {
+      const index = this.slots.length;
+      slot = { index, dir: path.join(this.root, `slot-${index}`) };
+      this.slots.push(slot);
+    }
+    this.busy.add(slot.index);
+    fs.mkdirSync(slot.dir, { recursive: true });
+    // We hold the slot exclusively, so any lock file is a leftover from a killed run
+    fs.rmSync(path.join(slot.dir, ".lock"), { force: true });
+    // Idle profile: safe to (re)write the admin's font substitution table
+    applyFontReplacementTable(slot.dir);
+    return slot;
+  }
+}
+
+/** Wipes a profile directory (missing is fine) */
+export function resetProfile(dir: string): void {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+// ---------------------------------------------------------------------------
+// Shared instance
+// ---------------------------------------------------------------------------
+
+export const profileSlots = new ProfileSlots(
+  process.env.SOFFICE_PROFILE_ROOT ?? path.join(os.tmpdir(), "pptx-soffice-profiles")
+);
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ConversionCancelledError, ConversionTimeoutError, sofficeConvert } from "./soffice";
+
+// ---------------------------------------------------------------------------
+// Fake soffice binaries (POSIX shell) — no LibreOffice needed
+// ---------------------------------------------------------------------------
+
+const describePosix = process.platform === "win32" ? describe.skip : describe;
+
+/** A killed orphan may linger as a zombie until init reaps it — that counts as dead */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  const statFile = `/proc/${pid}/stat`;
+  if (!fs.existsSync(statFile)) return true;
+  const state = fs.readFileSync(statFile, "utf8").split(") ")[1]?.charAt(0);
+  return state !== "Z";
+}
+
+describePosix("sofficeConvert", () => {
+  let dir: string;
+  let pidFile: string;
+  const originalSoffice = process.env.SOFFICE;
+
+  const writeScript = (name: string, body: string): string => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+    return file;
+  };
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "soffice-test-"));
+    pidFile = path.join(dir, "grandchild.pid");
+  });
+
+  afterAll(() => {
+    process.env.SOFFICE = originalSoffice;
+    if (originalSoffice === undefined) delete process.env.SOFFICE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns the bytes written to --outdir", async () => {
+    // Mimics soffice: output = <outdir>/<source basename>.<format>
+    process.env.SOFFICE = writeScript(
+      "ok.sh",
+      'while [ "$1" != "--outdir" ]; do shift; done; printf "%%PDF-fake" > "$2/source.pdf"'
+    );
+    const out = await sofficeConvert(Buffer.from("PK"), "deck.pptx", { format: "pdf", timeoutMs: 5_000 });
+    expect(out.toString()).toBe("%PDF-fake");
+  });
+
+  it("fails when soffice exits cleanly without an output file", async () => {
+    process.env.SOFFICE = writeScript("noop.sh", 'echo "Error: source file could not be loaded" >&2');
+    await expect(
+      sofficeConvert(Buffer.from("PK"), "deck.pptx", { format: "pdf", timeoutMs: 5_000 })
+    ).rejects.toThrow(/could not be loaded/);
+  });
+
+  it("kills the whole process tree on timeout", async () => {
+    // Launcher spawns a long-lived "soffice.bin" stand-in, like oosplash does
+    process.env.SOFFICE = writeScript(
+      "hang.sh",
+      `sleep 60 & echo $! > "${pidFile}"; wait`
+    );
+
+    await expect(
+      sofficeConvert(Buffer.from("PK"), "deck.pptx", { format: "pdf", timeoutMs: 300 })
+    ).rejects.toBeInstanceOf(ConversionTimeoutError);
+
+    const grandchild = parseInt(fs.readFileSync(pidFile, "utf8"), 10);
+    expect(isRunning(grandchild)).toBe(false);
+  });
+
+  it("kills the whole process tree when the signal aborts", async () => {
+    process.env.SOFFICE = writeScript(
+      "hang-abort.sh",
+      `sleep 60 & echo $! > "${pidFile}"; wait`
+    );
+    fs.rmSync(pidFile, { force: true });
+
+    const abort = new AbortController();
+    const converting = sofficeConvert(Buffer.from("PK"), "deck.pptx", {
+      format: "pdf",
+      timeoutMs: 30_000,
+      signal: abort.signal,
+    });
+    // Cancel once the stand-in is up
+    while (!fs.existsSync(pidFile) || fs.readFileSync(pidFile, "utf8") === "") {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    abort.abort();
+
+    await expect(converting).rejects.toBeInstanceOf(ConversionCancelledError);
+    const grandchild = parseInt(fs.readFileSync(pidFile, "utf8"), 10);
+    expect(isRunning(grandchild)).toBe(false);
+  });
+
+  it("does not start soffice for an already aborted signal", async () => {
+    process.env.SOFFICE = writeScript("never.sh", `touch "${pidFile}.started"`);
+    const abort = new AbortController();
+    abort.abort();
+
+    await expect(
+      sofficeConvert(Buffer.from("PK"), "deck.pptx", { format: "pdf", timeoutMs: 5_000, signal: abort.signal })
+    ).rejects.toBeInstanceOf(ConversionCancelledError);
+    expect(fs.existsSync(`${pidFile}.started`)).toBe(false);
+  });
+});
@@ -0,0 +1,245 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { pathToFileURL } from "url";
+import { spawn, type ChildProcess } from "child_process";
+import { applyFontReplacementTable } from "./fonts";
+import { SOFFICE_PYTHON, passwordConvertArgs } from "./soffice-password";
+
+// ---------------------------------------------------------------------------
+// soffice.ts — Spawns headless LibreOffice and owns its whole process tree
+//
+// `libreoffice-convert` used execFile(), which can only signal the direct
+// child. On Linux that child is the `soffice` launcher script / oosplash,
+// and the real `soffice.bin` keeps running after it is killed. Here every
+// conversion runs in its own process group so a timeout can kill the tree.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown when soffice exceeds its time budget and has been killed */
+export class ConversionTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Conversion timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "ConversionTimeoutError";
+  }
+}
+
+/** Thrown when the caller aborted the conversion and soffice has been killed */
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super("Conversion cancelled");
+    this.name = "ConversionCancelledError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Binary discovery
+// ---------------------------------------------------------------------------
+
+const SOFFICE_CANDIDATES: Partial<Record<NodeJS.Platform, string[]>> = {
+  darwin: ["/Applications/LibreOffice.app/Contents/MacOS/soffice"],
+  linux: [
+    "/usr/bin/soffice",
+    "/usr/bin/libreoffice",
+    "/usr/lib/libreoffice/program/soffice",
+    "/opt/libreoffice/program/soffice",
+    "/snap/bin/libreoffice",
+  ],
+  win32: [
+    path.join(process.env.PROGRAMFILES ?? "C:/Program Files", "LibreOffice/program/soffice.exe"),
+    path.join(process.env["PROGRAMFILES(X86)"] ?? "C:/Program Files (x86)", "LibreOffice/program/soffice.exe"),
+  ],
+};
+
+/**
+ * Resolves the soffice binary: $SOFFICE first, then well-known install
+ * locations, then plain "soffice" from PATH (spawn reports ENOENT if absent).
+ */
+export function resolveSofficeBinary(): string {
+  if (process.env.SOFFICE) return process.env.SOFFICE;
+  const found = (SOFFICE_CANDIDATES[process.platform] ?? []).find((p) => fs.existsSync(p));
+  return found ?? "soffice";
+}
+
+// ---------------------------------------------------------------------------
+// Process tree control
+// ---------------------------------------------------------------------------
+
+/**
+ * Kills a detached child together with everything it spawned.
+ * POSIX: signal the whole process group (negative pid).
+ * Windows: taskkill /T walks the tree.
+ */
+export function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) return;
+  try {
+    if (process.platform === "win32") {
+      spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], { stdio: "ignore" });
+    } else {
+      process.kill(-child.pid, "SIGKILL");
+    }
+  } catch {
+    // Group already gone — fall back to the direct child
+    child.kill("SIGKILL");
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+export interface SofficeConvertOptions {
+  /** Target extension without the dot, e.g. "pdf" */
+  format: string;
+  /** Export filter and options, e.g. `impress_pdf_Export:{…}` */
+  filter?: string;
+  /** Import filter name, passed as --infilter */
+  importFilter?: string;
+  /** Hard limit — the process tree is killed when it is reached */
+  timeoutMs: number;
+  /**
+   * Document password of an encrypted deck. Switches to the UNO loader
+   * (see soffice-password.ts); never logged and only passed over stdin.
+   */
+  password?: string;
+  /** Aborting kills the process tree, like the timeout (job cancellation) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Converts `input` with a soffice process in a private temp dir.
+ * Resolves with the output bytes; rejects with ConversionTimeoutError when
+ * the time budget is exceeded, ConversionCancelledError when `signal` is
+ * aborted, or a plain Error for any other failure.
+ *
+ * `profileDir` selects the LibreOffice user profile. Omitted, a throwaway
+ * profile is created inside the temp dir. When it points at the profile of
+ * a running soffice (see soffice-pool.ts), this process only hands the
+ * request to that warm instance over its IPC pipe and waits for the result.
+ */
+export async function sofficeConvert(
+  input: Buffer,
+  inputName: string,
+  options: SofficeConvertOptions,
+  profileDir?: string
+): Promise<Buffer> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "soffice-run-"));
+  const sourcePath = path.join(workDir, `source${path.extname(inputName).toLowerCase()}`);
+  const outputPath = path.join(workDir, `source.${options.format}`);
+
+  try {
+    fs.writeFileSync(sourcePath, input);
+    if (!profileDir) applyFontReplacementTable(path.join(workDir, "profile"));
+
+    const profile = profileDir ?? path.join(workDir, "profile");
+    if (options.password !== undefined) {
+      const args = passwordConvertArgs({
+        soffice: resolveSofficeBinary(),
+        profileUrl: pathToFileURL(profile).href,
+        pipeName: `pptx-${path.basename(workDir)}`,
+        sourcePath,
+        targetPath: outputPath,
+        format: options.format,
+        filter: options.filter,
+        importFilter: options.importFilter,
+      });
+      const stderr = await runDetached(
+        SOFFICE_PYTHON,
+        args,
+        options.timeoutMs,
+        options.signal,
+        `${options.password}\n`
+      );
+      if (!fs.existsSync(outputPath)) {
+        throw new Error(`soffice produced no output: ${stderr.trim() || "no diagnostics"}`);
+      }
+      return fs.readFileSync(outputPath);
+    }
+
+    const args = [
+      userInstallationArg(profile),
+      "--headless",
+      "--norestore",
+      "--convert-to",
+      options.filter ? `${options.format}:${options.filter}` : options.format,
+      "--outdir",
+      workDir,
+    ];
+    if (options.importFilter) args.push(`--infilter=${options.importFilter}`);
+    args.push(sourcePath);
+
+    // soffice exits 0 even when it cannot load the source — the output file is the real signal
+    const stderr = await runDetached(resolveSofficeBinary(), args, options.timeoutMs, options.signal);
+    if (!fs.existsSync(outputPath)) {
+      throw new Error(`soffice produced no output: ${stderr.trim() || "no diagnostics"}`);
+    }
+    return fs.readFileSync(outputPath);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+/** `-env:UserInstallation=file:///…` for a profile directory */
+export function userInstallationArg(profileDir: string): string {
+  return `-env:UserInstallation=${pathToFileURL(profileDir).href}`;
+}
+
+/**
+ * Runs a command in its own process group; kills the group on timeout or
+ * when `signal` aborts. Resolves with the stderr tail on a clean exit.
+ * `stdin`, when given, is written to the child and closed.
+ */
+function runDetached(
+  command: string,
+  args: string[],
+  timeoutMs: number,
+  signal?: AbortSignal,
+  stdin?: string
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ConversionCancelledError());
+      return;
+    }
+    const child = spawn(command, args, {
+      detached: process.platform !== "win32",
+      stdio: [stdin === undefined ? "ignore" : "pipe", "ignore", "pipe"],
+    });
+    if (stdin !== undefined) {
+      // A child that exits without reading must not crash us with EPIPE
+      child.stdin?.on("error", () => {});
+      child.stdin?.end(stdin);
+    }
+
+    let stderr = "";
+    let timedOut = false;
+    child.stderr?.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2048); // keep the tail only
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killProcessTree(child);
+    }, timeoutMs);
+    const onAbort = () => killProcessTree(child);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      reject(err);
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      if (signal?.aborted) reject(new ConversionCancelledError());
+      else if (timedOut) reject(new ConversionTimeoutError(timeoutMs));
+      else if (code !== 0) reject(new Error(`soffice exited with code ${code}: ${stderr.trim()}`));
+      else resolve(stderr);
+    });
+  });
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { InvalidPdfError, expectedSlides, pdfPageCount, verifyPdf } from "./verify";
+
+async function pdfWithPages(pages: number): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < pages; i++) doc.addPage([960, 540]);
+  return Buffer.from(await doc.save({ addDefaultPage: false }));
+}
+
+describe("pdfPageCount", () => {
+  it("counts pages", async () => {
+    expect(await pdfPageCount(await pdfWithPages(3))).toBe(3);
+  });
+
+  it("flags zero-byte and unparsable output", async () => {
+    await expect(pdfPageCount(Buffer.alloc(0))).rejects.toThrow(InvalidPdfError);
+    await expect(pdfPageCount(Buffer.from("%PDF-1.7 truncated"))).rejects.toThrow(InvalidPdfError);
+  });
+});
+
+describe("expectedSlides", () => {
+  it("applies the page range and skips hidden slides", () => {
+    const { slides } = expectedSlides({ count: 10, hidden: [3] }, { pageRange: "1-4,9" });
+    expect(slides).toEqual([1, 2, 4, 9]);
+  });
+
+  it("keeps hidden slides when they are requested", () => {
+    const { slides } = expectedSlides({ count: 4, hidden: [3] }, { includeHiddenSlides: true });
+    expect(slides).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe("verifyPdf", () => {
+  it("verifies a page count that matches the visible slides", async () => {
+    const v = await verifyPdf(await pdfWithPages(4), { count: 5, hidden: [2] });
+    expect(v).toMatchObject({ status: "verified", actualPages: 4, expectedPages: 4, warnings: [] });
+  });
+
+  it("reports a truncated export as a mismatch", async () => {
+    const v = await verifyPdf(await pdfWithPages(1), { count: 40, hidden: [] });
+    expect(v.status).toBe("mismatch");
+    expect(v.warnings[0]).toMatch(/Expected 40 pages but the PDF has 1/);
+  });
+
+  it("does not guess when hidden slides are unknown", async () => {
+    const v = await verifyPdf(await pdfWithPages(8), { count: 10 });
+    expect(v.status).toBe("unverified");
+  });
+
+  it("cannot verify without a slide count", async () => {
+    expect((await verifyPdf(await pdfWithPages(2), undefined)).status).toBe("unverified");
+  });
+});
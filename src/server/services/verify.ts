@@ -0,0 +1,105 @@
+import { PDFDocument } from "pdf-lib";
+import { parsePageRange, type ConversionOptions } from "../schema";
+import type { SlideInfo } from "./presentation";
+
+// ---------------------------------------------------------------------------
+// verify.ts — Post-conversion sanity check of the PDF LibreOffice produced
+//
+// soffice exits 0 and writes *something* for many damaged decks: an empty
+// file, a truncated PDF, or one page where there should be forty. Comparing
+// the page count with the slide count read from the deck itself catches
+// these before the user gets a broken course pack.
+// ---------------------------------------------------------------------------
+
+/**
+ * - "verified":   page count matches the slides that should have been exported
+ * - "mismatch":   it does not — the PDF is delivered with a warning
+ * - "unverified": the slide count could not be read (or hidden slides are
+ *                 unknown for the format), so there is nothing to compare
+ */
+export type VerificationStatus = "verified" | "mismatch" | "unverified";
+
+export interface Verification {
+  status: VerificationStatus;
+  /** Pages in the PDF LibreOffice wrote */
+  actualPages: number;
+  /** Pages expected from the deck, when known */
+  expectedPages?: number;
+  warnings: string[];
+}
+
+/** Thrown for output that is not a usable PDF — the file counts as failed */
+export class InvalidPdfError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPdfError";
+  }
+}
+
+/** Page count of a PDF; throws InvalidPdfError for empty or unparsable output */
+export async function pdfPageCount(pdf: Buffer): Promise<number> {
+  if (pdf.length === 0) throw new InvalidPdfError("LibreOffice produced an empty (0-byte) PDF");
+  try {
+    const doc = await PDFDocument.load(pdf, { ignoreEncryption: true, updateMetadata: false });
+    return doc.getPageCount();
+  } catch (err) {
+    throw new InvalidPdfError(`LibreOffice produced an unreadable PDF: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Slide numbers LibreOffice should export: those in the page range, minus
+ * hidden slides unless they were requested. `hidden` undefined = unknown.
+ */
+export function expectedSlides(
+  info: SlideInfo,
+  options: Partial<ConversionOptions>
+): { slides: number[]; hiddenUnknown: boolean } {
+  let slides = Array.from({ length: info.count }, (_, i) => i + 1);
+  if (options.pageRange) {
+    const spans = parsePageRange(options.pageRange);
+    slides = slides.filter((n) => spans.some(([a, b]) => n >= a && n <= b));
+  }
+  if (options.includeHiddenSlides) return { slides, hiddenUnknown: false };
+  if (!info.hidden) return { slides, hiddenUnknown: true };
+  return { slides: slides.filter((n) => !info.hidden!.includes(n)), hiddenUnknown: false };
+}
+
+/**
+ * Checks LibreOffice's raw PDF (before any handout imposition — one page per
+ * slide or notes page) against the deck. Throws InvalidPdfError when the
+ * output is not a PDF at all.
+ */
+export async function verifyPdf(
+  pdf: Buffer,
+  info: SlideInfo | undefined,
+  options: Partial<ConversionOptions> = {}
+): Promise<Verification> {
+  const actualPages = await pdfPageCount(pdf);
+  const warnings: string[] = [];
+
+  if (!info) {
+    if (actualPages > 0) return { status: "unverified", actualPages, warnings };
+    return { status: "mismatch", actualPages, warnings: ["The PDF has no pages."] };
+  }
+
+  const { slides, hiddenUnknown } = expectedSlides(info, options);
+  const expectedPages = slides.length;
+
+  if (actualPages === expectedPages) {
+    return { status: "verified", actualPages, expectedPages, warnings };
+  }
+  // Fewer pages may just be hidden slides we cannot see in this format
+  if (hiddenUnknown && actualPages > 0 && actualPages < expectedPages) {
+    warnings.push(
+      `The PDF has ${actualPages} of ${expectedPages} slides; the rest may be hidden slides.`
+    );
+    return { status: "unverified", actualPages, expectedPages, warnings };
+  }
+
+  warnings.push(
+    `Expected ${expectedPages} page${expectedPages === 1 ? "" : "s"} but the PDF has ${actualPages} — ` +
+      "the output may be incomplete."
+  );
+  return { status: "mismatch", actualPages, expectedPages, warnings };
+}
@@ -81,19 +81,36 @@ export interface TRPCContext {
   isAuthenticated: boolean;
 }
 
+/** Basic sanity check — IPv4/IPv6 chars only */
+const IP_PATTERN = /^[\d.:a-fA-F]+$/;
+
+/**
+ * Number of reverse proxies in front of the app (TRUST_PROXY), or
+ * undefined when unset. Each proxy appends the address it was connected
+ * from to X-Forwarded-For, so the client is the TRUST_PROXY-th entry from
+ * the end — anything left of it was written by the client itself.
+ */
+function trustedProxies(): number | undefined {
+  const proxies = parseInt(process.env.TRUST_PROXY ?? "", 10);
+  return proxies > 0 ? proxies : undefined;
+}
+
 /**
- * Extracts the real client IP from common proxy headers.
+ * Extracts the real client IP from common proxy headers. Without
+ * TRUST_PROXY the first X-Forwarded-For entry is taken, which the client
+ * controls unless a proxy overwrites the header.
  * Falls back to "unknown" — never throws.
  */
 function extractIp(req: Request): string {
-  const xff = req.headers.get("x-forwarded-for");
-  if (xff) {
-    const first = xff.split(",")[0].trim();
-    // Basic sanity check — IPv4/IPv6 chars only
-    if (/^[\d.:a-fA-F]+$/.test(first)) return first;
-  }
-  const realIp = req.headers.get("x-real-ip");
-  if (realIp && /^[\d.:a-fA-F]+$/.test(realIp.trim())) return realIp.trim();
+  const chain = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const proxies = trustedProxies();
+  const client = proxies === undefined ? chain[0] : chain[chain.length - proxies];
+  if (client && IP_PATTERN.test(client)) return client;
+  const realIp = req.headers.get("x-real-ip")?.trim();
+  if (realIp && IP_PATTERN.test(realIp)) return realIp;
   return "unknown";
 }
 
@@ -103,7 +120,7 @@ function extractIp(req: Request): string {
  * The key is compared with `crypto.timingSafeEqual` to prevent
  * timing-attack based enumeration of valid keys.
  */
-function validateApiKey(req: Request): boolean {
+export function validateApiKey(req: Request): boolean {
   const provided = req.headers.get("x-api-key") ?? "";
   const expected = process.env.API_SECRET_KEY;
 
@@ -120,6 +137,14 @@ function validateApiKey(req: Request): boolean {
   }
 }
 
+/**
+ * Who submitted a job, for the fair scheduler (services/scheduler.ts):
+ * every API-key caller shares one identity, anyone else is told apart by IP.
+ */
+export function clientIdentity(req: Request): string {
+  return validateApiKey(req) ? "api-key" : `ip:${extractIp(req)}`;
+}
+
 /** tRPC context factory — called for every request */
 export async function createContext({
   req,
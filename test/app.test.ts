@@ -2,6 +2,11 @@ import { describe, it, expect, vi } from "vitest";
 
 // A mock to simulate Next.js Request and Response logic
 import { GET } from "../src/app/api/health/route";
+import { POST } from "../src/app/api/convert/route";
+import { antigravityRouter } from "../src/server/router";
+import { NextRequest } from "next/server";
+import { conversionQueue } from "../src/server/services/queue";
+import { buildCompoundFile } from "../src/server/services/__fixtures__/compound-file";
 
 describe("Health Check API", () => {
   it("should return status 200 and report directories", async () => {
@@ -16,3 +21,73 @@ describe("Health Check API", () => {
     expect(body).toHaveProperty("ram_usage");
   });
 });
+
+// ---------------------------------------------------------------------------
+// Upload route — conversion itself is stubbed, the queue is real
+// ---------------------------------------------------------------------------
+vi.hoisted(() => {
+  process.env.CONVERSION_CACHE_MAX_BYTES = "0";
+});
+
+vi.mock("../src/server/services/rasterizer", () => ({
+  renderThumbnail: vi.fn(async () => {}),
+  // Three slide images per deck
+  renderSlides: vi.fn(async (_pdf: string, outDir: string) => [1, 2, 3].map((n) => `${outDir}/slide-00${n}.png`)),
+}));
+
+vi.mock("../src/server/services/converter", async () => {
+  const fs = await import("fs");
+  return {
+    ensureDir: (dir: string) => fs.mkdirSync(dir, { recursive: true }),
+    convertFileDirect: vi.fn(async (_input: string, outputPath: string) => {
+      fs.writeFileSync(outputPath, "%PDF-1.4 test");
+      return { ok: true, verification: { status: "verified", actualPages: 1, warnings: [] } };
+    }),
+  };
+});
+
+describe("Convert API — anonymous uploads that cannot be sanitised", () => {
+  const upload = (name: string, buffer: Buffer) => {
+    const form = new FormData();
+    form.append("file", new File([new Uint8Array(buffer)], name));
+    return new NextRequest("http://localhost/api/convert", { method: "POST", body: form });
+  };
+
+  it("still converts legacy .ppt and encrypted decks, flagged as not cleaned", async () => {
+    const ppt = buildCompoundFile({ "PowerPoint Document": Buffer.alloc(16) });
+    const encrypted = buildCompoundFile({ EncryptionInfo: Buffer.alloc(8), EncryptedPackage: Buffer.alloc(64) });
+
+    for (const [name, buffer, reason, status] of [
+      ["Old.ppt", ppt, "binary", "done"],
+      // The password prompt stays reachable
+      ["Locked.pptx", encrypted, "encrypted", "password_required"],
+    ] as const) {
+      const res = await POST(upload(name, buffer));
+      expect(res.status).toBe(202);
+      const { jobId } = await res.json();
+      const job = conversionQueue.getJob(jobId)!;
+      expect(job.options.sanitize).toBe(true);
+      expect(job.unsanitized).toEqual({ [name]: reason });
+      await vi.waitFor(() => expect(conversionQueue.getJob(jobId)?.status).toBe(status));
+      conversionQueue.cleanup(jobId);
+    }
+  });
+});
+
+describe("Job status — getJobStatus", () => {
+  it("counts converted decks, not the slide images they produced", async () => {
+    const jobId = conversionQueue.enqueue(
+      [
+        { name: "A.pptx", buffer: Buffer.from("PK deck a") },
+        { name: "B.pptx", buffer: Buffer.from("PK deck b") },
+      ],
+      { outputFormat: "png" }
+    );
+    await vi.waitFor(() => expect(conversionQueue.getJob(jobId)?.status).toBe("done"));
+    expect(conversionQueue.getJob(jobId)!.outputPaths).toHaveLength(6);
+
+    const caller = antigravityRouter.createCaller({ ip: "127.0.0.1", userAgent: "", isAuthenticated: false });
+    expect(await caller.getJobStatus({ jobId })).toMatchObject({ status: "done", fileCount: 2 });
+    conversionQueue.cleanup(jobId);
+  });
+});
@@ -6,5 +6,7 @@ export default defineConfig({
   test: {
     environment: "node",
     globals: true,
+    // Keep the queue singleton from replaying or writing the on-disk job log
+    env: { JOB_STORE: "memory" },
   },
 });